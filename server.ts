@@ -6,6 +6,24 @@ import path from "path";
 import { fileURLToPath } from "url";
 import dotenv from "dotenv";
 import fs from "fs";
+import crypto from "crypto";
+import multer from "multer";
+import { AuthError, AuthProfile, LoginThrottle, createAuthProviders } from "./server/authProviders";
+import { ProfileError, createProfiles } from "./server/profiles";
+import { FilterVerdict, combineVerdicts, createClassifierFromEnv, createContentFilter, loadFilterRules } from "./server/contentFilter";
+import { WriteKind, WriteLimitError, createWriteLimits, writeLimitsFromEnv } from "./server/writeLimits";
+import { createNotifications } from "./server/notifications";
+import { createEventHub } from "./server/events";
+import { PartnerError, createPartners } from "./server/partners";
+import { PanicError, createPanicAlerts } from "./server/panic";
+import { GroupError, createGroups } from "./server/groups";
+import { createLeaderboard } from "./server/leaderboard";
+import { AiError, aiProviderFromEnv, createAiService, motivationRequest, parseAiLanguage } from "./server/ai";
+import { chatRequest, parseChatContext, parseChatMessages } from "./server/chat";
+import { parseReflection, parseReflectionEntries, reflectionRequest } from "./server/reflection";
+import { ModerationError, ModerationTarget, createModeration } from "./server/moderation";
+import { ALLOWED_MIME_TYPES, MAX_UPLOAD_BYTES, MediaError, createMediaStore, mediaUrls } from "./server/mediaStore";
+import { AppData, INITIAL_DATA, InvalidAppDataError, mergeAppData, migrateAppData } from "./src/appData";
 
 dotenv.config();
 
@@ -41,91 +59,690 @@ db.exec(`
     FOREIGN KEY(postId) REFERENCES posts(id),
     FOREIGN KEY(userId) REFERENCES users(id)
   );
+
+  CREATE TABLE IF NOT EXISTS tracker_state (
+    userId TEXT PRIMARY KEY,
+    startDate TEXT,
+    bestStreakSeconds INTEGER DEFAULT 0,
+    points INTEGER DEFAULT 0,
+    unlockedBadges TEXT DEFAULT '[]',
+    updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(userId) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS tracker_relapses (
+    userId TEXT,
+    date TEXT,
+    note TEXT,
+    PRIMARY KEY(userId, date),
+    FOREIGN KEY(userId) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS tracker_journal (
+    userId TEXT,
+    date TEXT,
+    content TEXT,
+    PRIMARY KEY(userId, date),
+    FOREIGN KEY(userId) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS tracker_panic_events (
+    userId TEXT,
+    date TEXT,
+    alerted INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY(userId, date),
+    FOREIGN KEY(userId) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS tracker_exercise_sessions (
+    userId TEXT,
+    date TEXT,
+    kind TEXT,
+    durationSeconds INTEGER NOT NULL DEFAULT 0,
+    intensityBefore INTEGER,
+    intensityAfter INTEGER,
+    PRIMARY KEY(userId, date),
+    FOREIGN KEY(userId) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS tracker_urges (
+    userId TEXT,
+    date TEXT,
+    intensity INTEGER NOT NULL,
+    trigger TEXT,
+    context TEXT,
+    whatWorked TEXT,
+    PRIMARY KEY(userId, date),
+    FOREIGN KEY(userId) REFERENCES users(id)
+  );
+`);
+
+// Adds a column to an existing table; CREATE TABLE IF NOT EXISTS leaves tables from older versions untouched.
+const addColumn = (table: string, column: string, definition: string) => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS sessions (
+    tokenHash TEXT PRIMARY KEY,
+    userId TEXT,
+    userAgent TEXT,
+    createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+    lastSeenAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+    expiresAt DATETIME,
+    FOREIGN KEY(userId) REFERENCES users(id)
+  );
+`);
+
+// Passphrase lock parameters (salt, iterations, verifier); never the passphrase or key.
+addColumn("tracker_state", "encryption", "TEXT");
+// When an urge's details were last edited; rows from before have none and count as edited when logged.
+addColumn("tracker_urges", "updatedAt", "TEXT");
+
+// Media
+const mediaStore = createMediaStore(db, process.env.MEDIA_DIR || path.join(__dirname, "media"));
+// Replaces the base64 data URL that posts.image used to hold.
+addColumn("posts", "mediaId", "TEXT REFERENCES media(id)");
+
+// Deleting only blanks the row and sets deletedAt, leaving a tombstone so the replies
+// under a deleted post or comment stay in place.
+addColumn("posts", "editedAt", "DATETIME");
+addColumn("posts", "deletedAt", "DATETIME");
+addColumn("comments", "editedAt", "DATETIME");
+addColumn("comments", "deletedAt", "DATETIME");
+
+// Pseudonymous profiles
+const profiles = createProfiles(db);
+profiles.backfill();
+// "handle" publishes under the author's profile, "anonymous" shows no author at all.
+addColumn("posts", "identity", "TEXT NOT NULL DEFAULT 'handle'");
+
+// Files are shared between identical uploads, so they are only removed once no post uses them
+// and nobody is about to post them.
+const removeUnusedMedia = (mediaId: string | null) => {
+  if (!mediaId || mediaStore.hasPendingUploads(mediaId)) return;
+  if (!db.prepare("SELECT 1 FROM posts WHERE mediaId = ?").get(mediaId)) mediaStore.remove(mediaId);
+};
+
+// Images that were uploaded but never posted are removed after a day.
+const UPLOAD_TTL_HOURS = 24;
+const sweepUnpostedMedia = () => {
+  mediaStore.expireUploads(UPLOAD_TTL_HOURS);
+  const orphans = db.prepare(`
+    SELECT id FROM media
+    WHERE createdAt < datetime('now', ?) AND NOT EXISTS (SELECT 1 FROM posts WHERE posts.mediaId = media.id)
+  `).all(`-${UPLOAD_TTL_HOURS} hours`) as { id: string }[];
+  for (const { id } of orphans) removeUnusedMedia(id);
+};
+
+// Used both when authors delete their own posts and comments and by moderators.
+const softDelete = (targetType: ModerationTarget, id: number) => {
+  if (targetType === "post") {
+    const post = db.prepare("SELECT mediaId FROM posts WHERE id = ?").get(id) as any;
+    db.prepare(`
+      UPDATE posts SET content = NULL, mediaId = NULL, deletedAt = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(id);
+    removeUnusedMedia(post?.mediaId ?? null);
+  } else {
+    db.prepare(`
+      UPDATE comments SET content = NULL, deletedAt = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(id);
+  }
+};
+
+// Moderation
+// Banned members keep their private tracker but can no longer post, comment or react.
+addColumn("users", "role", "TEXT NOT NULL DEFAULT 'member'");
+addColumn("users", "bannedAt", "DATETIME");
+// Set when enough reports come in or a moderator hides the item; only its author still sees it.
+addColumn("posts", "hiddenAt", "DATETIME");
+addColumn("comments", "hiddenAt", "DATETIME");
+
+const moderation = createModeration(db, {
+  autoHideThreshold: Number(process.env.REPORT_AUTO_HIDE_THRESHOLD) || 3,
+  adminEmails: (process.env.ADMIN_EMAILS || "").split(","),
+  softDelete,
+});
+
+// Live updates
+const events = createEventHub();
+
+// Accountability partners
+const notifications = createNotifications(db, (userId) => {
+  events.toUser(userId, "notification", { unread: notifications.unreadCount(userId) });
+});
+const partners = createPartners(db, notifications);
+const panicAlerts = createPanicAlerts(db, notifications);
+
+// Groups
+const groups = createGroups(db);
+// NULL for posts in the public feed.
+addColumn("posts", "groupId", "INTEGER");
+
+// Leaderboard
+const leaderboard = createLeaderboard(db);
+
+// AI proxy
+const ai = createAiService(db, aiProviderFromEnv(process.env), {
+  dailyQuota: Number(process.env.AI_DAILY_QUOTA) || 20,
+  cacheTtlSeconds: Number(process.env.AI_CACHE_TTL_SECONDS) || 6 * 60 * 60,
+});
+
+// Content filter
+const contentFilter = createContentFilter({
+  rules: loadFilterRules(process.env.CONTENT_FILTER_RULES),
+  classifier: createClassifierFromEnv(process.env),
+});
+// The classifier runs once at upload; a "hold" verdict is kept here and applied to the post that uses the image.
+addColumn("media", "filterVerdict", "TEXT");
+
+const mediaVerdict = (mediaId: string | null | undefined): FilterVerdict => {
+  const row = mediaId ? db.prepare("SELECT filterVerdict FROM media WHERE id = ?").get(mediaId) as any : null;
+  return row?.filterVerdict ? JSON.parse(row.filterVerdict) : { action: "allow", code: null, reasons: [] };
+};
+
+// Spam protection. SQLite can't add a column with a CURRENT_TIMESTAMP default, so
+// createdAt is set on insert and stays NULL for accounts made before it existed.
+addColumn("users", "createdAt", "DATETIME");
+const writeLimits = createWriteLimits(db, writeLimitsFromEnv(process.env));
+
+const FILTER_MESSAGES = {
+  blocked_term: "This contains language that isn't allowed in the community",
+  blocked_domain: "Links to this site aren't allowed in the community",
+  explicit_image: "This image looks explicit and can't be posted",
+};
+
+// Moves images from posts written before the media store existed out of the database.
+const migrateInlineImages = async () => {
+  const legacy = db.prepare("SELECT id, userId, image FROM posts WHERE image LIKE 'data:%'").all() as any[];
+  if (legacy.length === 0) return;
+  for (const post of legacy) {
+    try {
+      const media = await mediaStore.save(Buffer.from(post.image.slice(post.image.indexOf(",") + 1), "base64"), post.userId);
+      db.prepare("UPDATE posts SET mediaId = ?, image = NULL WHERE id = ?").run(media.id, post.id);
+      mediaStore.claim(media.id, post.userId);
+    } catch (err) {
+      console.error(`Dropping unreadable image of post ${post.id}`, err);
+      db.prepare("UPDATE posts SET image = NULL WHERE id = ?").run(post.id);
+    }
+  }
+  db.exec("VACUUM");
+  console.log(`Moved ${legacy.length} inline post images out of the database`);
+};
+
+// Sessions
+const SESSION_TTL_DAYS = 30;
+const SESSION_COOKIE = "session";
+const OAUTH_STATE_COOKIE = "oauth_state";
+const COOKIE_OPTIONS = { httpOnly: true, secure: true, sameSite: "none" as const };
+
+// Only a hash of the token is stored, so a leaked database can't be used to log in.
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+const createSession = (userId: string, userAgent: string | undefined) => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  db.prepare(`
+    INSERT INTO sessions (tokenHash, userId, userAgent, expiresAt)
+    VALUES (?, ?, ?, datetime('now', '+${SESSION_TTL_DAYS} days'))
+  `).run(hashToken(token), userId, userAgent ?? null);
+  return token;
+};
+
+const resolveSession = (token: string | undefined) => {
+  if (!token) return null;
+  const tokenHash = hashToken(token);
+  const user = db.prepare(`
+    SELECT users.* FROM sessions
+    JOIN users ON sessions.userId = users.id
+    WHERE sessions.tokenHash = ? AND sessions.expiresAt > datetime('now')
+  `).get(tokenHash);
+  if (user) db.prepare("UPDATE sessions SET lastSeenAt = CURRENT_TIMESTAMP WHERE tokenHash = ?").run(tokenHash);
+  return user || null;
+};
+
+const revokeSession = (token: string | undefined) => {
+  if (token) db.prepare("DELETE FROM sessions WHERE tokenHash = ?").run(hashToken(token));
+};
+
+db.prepare("DELETE FROM sessions WHERE expiresAt <= datetime('now')").run();
+
+// Auth providers
+const authProviders = createAuthProviders(db, process.env);
+const loginThrottle = new LoginThrottle();
+// New accounts per IP, so one client can't mint accounts to get around the per-member write limits.
+const registrationThrottle = new LoginThrottle(5, 60 * 60 * 1000);
+
+const upsertUser = (profile: AuthProfile) => {
+  db.prepare(`
+    INSERT INTO users (id, name, email, picture, createdAt)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      picture = excluded.picture
+  `).run(profile.id, profile.name, profile.email, profile.picture);
+};
+
+// Tracker sync
+interface EncryptionSettings {
+  salt: string;
+  iterations: number;
+  verifier: string;
+}
+
+const isEncryptionSettings = (value: any): value is EncryptionSettings =>
+  value !== null && typeof value === "object" &&
+  typeof value.salt === "string" && Number.isInteger(value.iterations) && typeof value.verifier === "string";
+
+const loadEncryptionSettings = (userId: string): EncryptionSettings | null => {
+  const row = db.prepare("SELECT encryption FROM tracker_state WHERE userId = ?").get(userId) as any;
+  return row?.encryption ? JSON.parse(row.encryption) : null;
+};
+
+const loadTrackerData = (userId: string): AppData | null => {
+  const state = db.prepare("SELECT * FROM tracker_state WHERE userId = ?").get(userId) as any;
+  if (!state) return null;
+  const relapses = db.prepare("SELECT date, note FROM tracker_relapses WHERE userId = ? ORDER BY date DESC").all(userId) as any[];
+  const journal = db.prepare("SELECT date, content FROM tracker_journal WHERE userId = ? ORDER BY date DESC").all(userId) as any[];
+  const panicEvents = db.prepare("SELECT date, alerted FROM tracker_panic_events WHERE userId = ? ORDER BY date DESC").all(userId) as any[];
+  const exerciseSessions = db.prepare(`
+    SELECT date, kind, durationSeconds, intensityBefore, intensityAfter FROM tracker_exercise_sessions WHERE userId = ? ORDER BY date DESC
+  `).all(userId) as any[];
+  const urges = db.prepare(`
+    SELECT date, intensity, trigger, context, whatWorked, COALESCE(updatedAt, date) AS updatedAt
+    FROM tracker_urges WHERE userId = ? ORDER BY date DESC
+  `).all(userId) as any[];
+  return {
+    ...INITIAL_DATA,
+    startDate: state.startDate,
+    bestStreakSeconds: state.bestStreakSeconds,
+    points: state.points,
+    unlockedBadges: JSON.parse(state.unlockedBadges),
+    relapses,
+    journal,
+    panicEvents: panicEvents.map(e => ({ date: e.date, alerted: !!e.alerted })),
+    exerciseSessions,
+    urges,
+  };
+};
+
+// Entries are only deleted on an explicit replace; otherwise the merged copy is a superset of what is stored.
+const saveTrackerData = db.transaction((userId: string, data: AppData, encryption: EncryptionSettings | null, replace = false) => {
+  if (replace) {
+    db.prepare("DELETE FROM tracker_relapses WHERE userId = ?").run(userId);
+    db.prepare("DELETE FROM tracker_journal WHERE userId = ?").run(userId);
+    db.prepare("DELETE FROM tracker_panic_events WHERE userId = ?").run(userId);
+    db.prepare("DELETE FROM tracker_exercise_sessions WHERE userId = ?").run(userId);
+    db.prepare("DELETE FROM tracker_urges WHERE userId = ?").run(userId);
+  }
+
+  db.prepare(`
+    INSERT INTO tracker_state (userId, startDate, bestStreakSeconds, points, unlockedBadges, encryption, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(userId) DO UPDATE SET
+      startDate = excluded.startDate,
+      bestStreakSeconds = excluded.bestStreakSeconds,
+      points = excluded.points,
+      unlockedBadges = excluded.unlockedBadges,
+      encryption = excluded.encryption,
+      updatedAt = excluded.updatedAt
+  `).run(userId, data.startDate, data.bestStreakSeconds, data.points, JSON.stringify(data.unlockedBadges), encryption && JSON.stringify(encryption));
+
+  const upsertRelapse = db.prepare(`
+    INSERT INTO tracker_relapses (userId, date, note) VALUES (?, ?, ?)
+    ON CONFLICT(userId, date) DO UPDATE SET note = excluded.note
+  `);
+  for (const relapse of data.relapses) upsertRelapse.run(userId, relapse.date, relapse.note);
+
+  const upsertJournal = db.prepare(`
+    INSERT INTO tracker_journal (userId, date, content) VALUES (?, ?, ?)
+    ON CONFLICT(userId, date) DO UPDATE SET content = excluded.content
+  `);
+  for (const entry of data.journal) upsertJournal.run(userId, entry.date, entry.content);
+
+  const upsertPanicEvent = db.prepare(`
+    INSERT INTO tracker_panic_events (userId, date, alerted) VALUES (?, ?, ?)
+    ON CONFLICT(userId, date) DO UPDATE SET alerted = excluded.alerted
+  `);
+  for (const event of data.panicEvents) upsertPanicEvent.run(userId, event.date, event.alerted ? 1 : 0);
+
+  const insertExerciseSession = db.prepare(`
+    INSERT OR IGNORE INTO tracker_exercise_sessions (userId, date, kind, durationSeconds, intensityBefore, intensityAfter)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  for (const session of data.exerciseSessions) {
+    insertExerciseSession.run(userId, session.date, session.kind, session.durationSeconds, session.intensityBefore, session.intensityAfter);
+  }
+
+  const upsertUrge = db.prepare(`
+    INSERT INTO tracker_urges (userId, date, intensity, trigger, context, whatWorked, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(userId, date) DO UPDATE SET
+      intensity = excluded.intensity,
+      trigger = excluded.trigger,
+      context = excluded.context,
+      whatWorked = excluded.whatWorked,
+      updatedAt = excluded.updatedAt
+  `);
+  for (const urge of data.urges) {
+    upsertUrge.run(userId, urge.date, urge.intensity, urge.trigger, urge.context, urge.whatWorked, urge.updatedAt);
+  }
+});
+
+// Community feed
+const FEED_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const COMMENT_PREVIEW_COUNT = 3;
+
+// Reads `?before=<id>&limit=` cursor pagination parameters.
+const parsePage = (query: any) => {
+  const before = Number(query.before);
+  const limit = Math.min(Math.max(Math.floor(Number(query.limit)) || FEED_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  return { before: Number.isInteger(before) && before > 0 ? before : null, limit };
+};
+
+// Authors are only ever identified by their profile handle, and not even that for anonymous
+// posts. `mine` is computed for the viewer so the client never needs anyone's userId.
+const POST_SELECT = `
+  SELECT posts.id, posts.groupId, posts.content, posts.createdAt, posts.editedAt, posts.deletedAt, posts.hiddenAt, posts.mediaId, posts.identity,
+    posts.userId = @viewerId AS mine,
+    profiles.handle as authorHandle, profiles.avatarSeed as authorAvatarSeed,
+    media.width as imageWidth, media.height as imageHeight
+  FROM posts
+  LEFT JOIN profiles ON posts.userId = profiles.userId
+  LEFT JOIN media ON posts.mediaId = media.id
+`;
+
+const COMMENT_COLUMNS = `
+  comments.id, comments.postId, comments.content, comments.createdAt, comments.editedAt, comments.deletedAt, comments.hiddenAt,
+  comments.userId = @viewerId AS mine,
+  profiles.handle as authorHandle, profiles.avatarSeed as authorAvatarSeed
+`;
+
+const COMMENT_SELECT = `
+  SELECT ${COMMENT_COLUMNS}
+  FROM comments
+  LEFT JOIN profiles ON comments.userId = profiles.userId
+`;
+
+const TOMBSTONE = { author: null, content: null, editedAt: null, mine: false };
+
+const authorOf = ({ identity, authorHandle, authorAvatarSeed }: any) =>
+  identity === "anonymous" ? null : { handle: authorHandle, avatarSeed: authorAvatarSeed };
+
+// Hidden posts are filtered out of the feed for everyone but their author; hidden comments
+// stay in the thread as a placeholder. Authors see their own with `hidden` set.
+const formatPost = ({ mediaId, imageWidth, imageHeight, deletedAt, hiddenAt, identity, authorHandle, authorAvatarSeed, mine, ...post }: any) => deletedAt
+  ? { ...post, ...TOMBSTONE, image: null, deleted: true, hidden: false }
+  : {
+    ...post,
+    author: authorOf({ identity, authorHandle, authorAvatarSeed }),
+    image: mediaId ? { ...mediaUrls(mediaId), width: imageWidth, height: imageHeight } : null,
+    mine: !!mine,
+    deleted: false,
+    hidden: !!hiddenAt,
+  };
+
+const formatComment = ({ deletedAt, hiddenAt, authorHandle, authorAvatarSeed, mine, ...comment }: any) => {
+  if (deletedAt) return { ...comment, ...TOMBSTONE, deleted: true, hidden: false };
+  if (hiddenAt && !mine) return { ...comment, ...TOMBSTONE, deleted: false, hidden: true };
+  return { ...comment, author: authorOf({ authorHandle, authorAvatarSeed }), mine: !!mine, deleted: false, hidden: !!hiddenAt };
+};
+
+// Reactions
+const REACTION_KINDS = ["support", "respect", "same_here"];
+type ReactionTarget = "post" | "comment";
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS reactions (
+    targetType TEXT,
+    targetId INTEGER,
+    userId TEXT,
+    kind TEXT,
+    createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY(targetType, targetId, userId, kind),
+    FOREIGN KEY(userId) REFERENCES users(id)
+  );
 `);
 
+const emptyReactions = () => ({ counts: {} as Record<string, number>, mine: [] as string[] });
+
+/** Aggregated counts per kind plus the viewer's own reactions, for each of the given posts or comments. */
+const loadReactions = (targetType: ReactionTarget, ids: number[], viewerId: string | null) => {
+  const byTarget = new Map<number, ReturnType<typeof emptyReactions>>();
+  if (ids.length === 0) return byTarget;
+  const rows = db.prepare(`
+    SELECT targetId, kind, COUNT(*) AS count, MAX(userId = @viewerId) AS mine
+    FROM reactions
+    WHERE targetType = @targetType AND targetId IN (SELECT value FROM json_each(@ids))
+    GROUP BY targetId, kind
+  `).all({ targetType, ids: JSON.stringify(ids), viewerId }) as any[];
+  for (const row of rows) {
+    const reactions = byTarget.get(row.targetId) || emptyReactions();
+    reactions.counts[row.kind] = row.count;
+    if (row.mine) reactions.mine.push(row.kind);
+    byTarget.set(row.targetId, reactions);
+  }
+  return byTarget;
+};
+
+const withReactions = <T extends { id: number }>(targetType: ReactionTarget, items: T[], viewerId: string | null) => {
+  const byTarget = loadReactions(targetType, items.map(item => item.id), viewerId);
+  return items.map(item => ({ ...item, reactions: byTarget.get(item.id) || emptyReactions() }));
+};
+
+// Adds the comment count and the latest few comments to each post with a single query.
+const attachCommentPreviews = (posts: any[], viewerId: string | null) => {
+  if (posts.length === 0) return [];
+  const rows = db.prepare(`
+    SELECT * FROM (
+      SELECT ${COMMENT_COLUMNS},
+        ROW_NUMBER() OVER (PARTITION BY comments.postId ORDER BY comments.id DESC) AS previewRank,
+        COUNT(*) OVER (PARTITION BY comments.postId) AS postCommentCount
+      FROM comments
+      LEFT JOIN profiles ON comments.userId = profiles.userId
+      WHERE comments.postId IN (SELECT value FROM json_each(@postIds))
+    )
+    WHERE previewRank <= @previewCount
+    ORDER BY id ASC
+  `).all({ postIds: JSON.stringify(posts.map(post => post.id)), previewCount: COMMENT_PREVIEW_COUNT, viewerId }) as any[];
+
+  const comments = withReactions("comment", rows.map(({ previewRank, ...comment }) => formatComment(comment)), viewerId);
+  const byPost = new Map<number, { count: number; comments: any[] }>();
+  for (const { postCommentCount, ...comment } of comments) {
+    const entry = byPost.get(comment.postId) || { count: postCommentCount, comments: [] };
+    entry.comments.push(comment);
+    byPost.set(comment.postId, entry);
+  }
+  return posts.map(post => ({
+    ...post,
+    commentCount: byPost.get(post.id)?.count ?? 0,
+    comments: byPost.get(post.id)?.comments ?? [],
+  }));
+};
+
+const listPosts = ({ before, limit }: { before: number | null; limit: number }, viewerId: string | null, groupId: number | null = null) => {
+  const rows = db.prepare(`
+    ${POST_SELECT}
+    WHERE posts.groupId IS @groupId
+      AND (@before IS NULL OR posts.id < @before)
+      AND (posts.hiddenAt IS NULL OR posts.userId = @viewerId)
+      AND (posts.deletedAt IS NULL OR EXISTS (
+        SELECT 1 FROM comments WHERE comments.postId = posts.id AND comments.deletedAt IS NULL
+      ))
+    ORDER BY posts.id DESC
+    LIMIT @limit
+  `).all({ groupId, before, limit: limit + 1, viewerId }) as any[];
+  const page = rows.slice(0, limit);
+  return {
+    posts: attachCommentPreviews(withReactions("post", page.map(formatPost), viewerId), viewerId),
+    nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+  };
+};
+
+const getPost = (id: number | bigint, viewerId: string | null) => {
+  const post = db.prepare(`${POST_SELECT} WHERE posts.id = @id`).get({ id, viewerId });
+  return post ? attachCommentPreviews(withReactions("post", [formatPost(post)], viewerId), viewerId)[0] : null;
+};
+
+const getComment = (id: number | bigint, viewerId: string | null) => {
+  const comment = db.prepare(`${COMMENT_SELECT} WHERE comments.id = @id`).get({ id, viewerId });
+  return comment ? withReactions("comment", [formatComment(comment)], viewerId)[0] : null;
+};
+
+// The group a post or comment belongs to, or null for the public feed.
+const groupOf = (targetType: ReactionTarget, id: number): number | null => ((targetType === "post"
+  ? db.prepare("SELECT groupId FROM posts WHERE id = ?").get(id)
+  : db.prepare("SELECT posts.groupId FROM comments JOIN posts ON posts.id = comments.postId WHERE comments.id = ?").get(id)
+) as any)?.groupId ?? null;
+
+// Group posts and everything attached to them are for the group's members only.
+const canSeeGroup = (groupId: number | null, viewerId: string | null) => groupId === null || groups.roleOf(groupId, viewerId) !== null;
+
+// Comments page backwards from the newest, but each page is returned oldest first for display.
+const listComments = (postId: number, { before, limit }: { before: number | null; limit: number }, viewerId: string | null) => {
+  const rows = db.prepare(`
+    ${COMMENT_SELECT}
+    WHERE comments.postId = @postId AND (@before IS NULL OR comments.id < @before)
+    ORDER BY comments.id DESC
+    LIMIT @limit
+  `).all({ postId, before, limit: limit + 1, viewerId }) as any[];
+  const page = rows.slice(0, limit);
+  return {
+    comments: withReactions("comment", page.reverse().map(formatComment), viewerId),
+    nextCursor: rows.length > limit ? page[0].id : null,
+  };
+};
+
+// Accepts what Express's "trust proxy" setting does: true/false, a hop count, or addresses and subnets.
+const trustProxyFromEnv = (value: string | undefined): boolean | number | string => {
+  const setting = (value ?? "").trim();
+  if (!setting || setting === "false") return false;
+  if (setting === "true") return true;
+  return /^\d+$/.test(setting) ? Number(setting) : setting;
+};
+
 async function startServer() {
   const app = express();
   const PORT = 3000;
 
-  app.use(express.json({ limit: '50mb' }));
+  await migrateInlineImages();
+  sweepUnpostedMedia();
+  setInterval(sweepUnpostedMedia, 60 * 60 * 1000).unref();
+
+  // req.ip keys the login throttle and the per-IP write limits. Behind a proxy every request
+  // would share the proxy's address, but X-Forwarded-For is only believed when configured.
+  app.set("trust proxy", trustProxyFromEnv(process.env.TRUST_PROXY));
+
+  // Images go through /api/media, so JSON bodies only carry text (the largest is a full tracker sync).
+  app.use(express.json({ limit: '2mb' }));
   app.use(cookieParser());
 
+  // File names are content hashes, so a cached image never goes stale.
+  app.use("/media", express.static(mediaStore.dir, { immutable: true, maxAge: "1y", index: false }));
+
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
 
   // Auth Middleware
   const auth = (req: any, res: any, next: any) => {
-    const userId = req.cookies.userId;
-    if (!userId) return res.status(401).json({ error: "Unauthorized" });
-    const user = db.prepare("SELECT * FROM users WHERE id = ?").get(userId);
+    const user = resolveSession(req.cookies[SESSION_COOKIE]);
     if (!user) return res.status(401).json({ error: "Unauthorized" });
     req.user = user;
     next();
   };
 
-  // Google OAuth Endpoints
-  app.get("/api/auth/google/url", (req, res) => {
-    const rootUrl = "https://accounts.google.com/o/oauth2/v2/auth";
-    const options = {
-      redirect_uri: `${process.env.APP_URL}/auth/callback`,
-      client_id: process.env.GOOGLE_CLIENT_ID!,
-      access_type: "offline",
-      response_type: "code",
-      prompt: "consent",
-      scope: [
-        "https://www.googleapis.com/auth/userinfo.profile",
-        "https://www.googleapis.com/auth/userinfo.email",
-      ].join(" "),
-    };
+  // Answers 422 for rejected content and returns true; the `code` lets the client show a translated message.
+  const rejectFiltered = (res: any, verdict: FilterVerdict) => {
+    if (verdict.action !== "reject") return false;
+    res.status(422).json({ error: FILTER_MESSAGES[verdict.code!], code: verdict.code });
+    return true;
+  };
+
+  // Checks spam limits before a write, answering 429/409/400 with a code (and Retry-After
+  // when waiting helps) and returning false when the write must not happen. Edits only
+  // have to respect the length cap. Content that isn't text is refused before anything else.
+  const withinWriteLimits = (kind: WriteKind, req: any, res: any, content: unknown, editing = false) => {
+    if (content != null && typeof content !== "string") {
+      res.status(400).json({ error: "Content must be text" });
+      return false;
+    }
+    const text = typeof content === "string" ? content : null;
+    try {
+      if (editing) writeLimits.checkLength(kind, text);
+      else writeLimits.check(kind, req.user.id, req.ip, text);
+      return true;
+    } catch (error) {
+      if (!(error instanceof WriteLimitError)) throw error;
+      if (error.details.retryAfter) res.set("Retry-After", String(error.details.retryAfter));
+      res.status(error.status).json({ error: error.message, code: error.code, ...error.details });
+      return false;
+    }
+  };
+
+  // Runs after `auth`.
+  const member = (req: any, res: any, next: any) => {
+    if (req.user.bannedAt) return res.status(403).json({ error: "Your account has been suspended from the community" });
+    next();
+  };
+
+  const admin = (req: any, res: any, next: any) => {
+    if (req.user.role !== "admin") return res.status(403).json({ error: "Admins only" });
+    next();
+  };
+
+  // The feed is public, but a logged-in viewer gets `mine` flags on their own posts and comments.
+  const viewerOf = (req: any): string | null => (resolveSession(req.cookies[SESSION_COOKIE]) as any)?.id ?? null;
+
+  const startSession = (req: any, res: any, profile: AuthProfile) => {
+    profiles.ensure(profile.id);
+    moderation.promoteIfAdmin(profile);
+    const token = createSession(profile.id, req.get("user-agent"));
+    res.cookie(SESSION_COOKIE, token, { ...COOKIE_OPTIONS, maxAge: SESSION_TTL_DAYS * 24 * 60 * 60 * 1000 });
+  };
+
+  const redirectUri = `${process.env.APP_URL}/auth/callback`;
 
-    const qs = new URLSearchParams(options);
-    res.json({ url: `${rootUrl}?${qs.toString()}` });
+  app.get("/api/auth/providers", (req, res) => {
+    res.json([...authProviders.values()].map(({ id, kind, label }) => ({ id, kind, label })));
+  });
+
+  // OAuth Endpoints
+  app.get("/api/auth/:provider/url", (req, res) => {
+    const provider = authProviders.get(req.params.provider);
+    if (provider?.kind !== "oauth") return res.status(404).json({ error: "Unknown provider" });
+
+    // Ties the callback to this browser so a forged callback can't log the user into another account.
+    const state = crypto.randomBytes(16).toString("hex");
+    res.cookie(OAUTH_STATE_COOKIE, `${provider.id}:${state}`, { ...COOKIE_OPTIONS, maxAge: 10 * 60 * 1000 });
+    res.json({ url: provider.authorizationUrl(state, redirectUri) });
   });
 
   app.get("/auth/callback", async (req, res) => {
     const code = req.query.code as string;
     if (!code) return res.status(400).send("No code provided");
 
+    const state = req.query.state;
+    const [providerId, expectedState] = String(req.cookies[OAUTH_STATE_COOKIE] || "").split(":");
+    res.clearCookie(OAUTH_STATE_COOKIE, COOKIE_OPTIONS);
+    if (
+      typeof state !== "string" || !expectedState ||
+      state.length !== expectedState.length ||
+      !crypto.timingSafeEqual(Buffer.from(state), Buffer.from(expectedState))
+    ) {
+      return res.status(400).send("Invalid OAuth state");
+    }
+    const provider = authProviders.get(providerId);
+    if (provider?.kind !== "oauth") return res.status(400).send("Unknown provider");
+
     try {
-      // Exchange code for tokens
-      const tokenResponse = await fetch("https://oauth2.googleapis.com/token", {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: new URLSearchParams({
-          code,
-          client_id: process.env.GOOGLE_CLIENT_ID!,
-          client_secret: process.env.GOOGLE_CLIENT_SECRET!,
-          redirect_uri: `${process.env.APP_URL}/auth/callback`,
-          grant_type: "authorization_code",
-        }),
-      });
-
-      const { access_token } = await tokenResponse.json() as any;
-
-      // Get user info
-      const userResponse = await fetch("https://www.googleapis.com/oauth2/v3/userinfo", {
-        headers: { Authorization: `Bearer ${access_token}` },
-      });
-
-      const googleUser = await userResponse.json() as any;
-
-      // Upsert user
-      db.prepare(`
-        INSERT INTO users (id, name, email, picture)
-        VALUES (?, ?, ?, ?)
-        ON CONFLICT(id) DO UPDATE SET
-          name = excluded.name,
-          picture = excluded.picture
-      `).run(googleUser.sub, googleUser.name, googleUser.email, googleUser.picture);
-
-      // Set cookie
-      res.cookie("userId", googleUser.sub, {
-        httpOnly: true,
-        secure: true,
-        sameSite: "none",
-        maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-      });
+      const profile = await provider.exchangeCode(code, redirectUri);
+      upsertUser(profile);
+      startSession(req, res, profile);
 
       res.send(`
         <html>
@@ -148,63 +765,701 @@ async function startServer() {
     }
   });
 
+  // Local email/password Endpoints
+  const localProvider = (req: any, res: any, next: any) => {
+    const provider = authProviders.get("local");
+    if (provider?.kind !== "local") return res.status(404).json({ error: "Email login is not enabled" });
+    req.localProvider = provider;
+    next();
+  };
+
+  app.post("/api/auth/local/register", localProvider, async (req: any, res) => {
+    const { email, password, name } = req.body;
+    if (typeof email !== "string" || typeof password !== "string") {
+      return res.status(400).json({ error: "Email and password required" });
+    }
+
+    const key = `ip:${req.ip}`;
+    const retryAfter = registrationThrottle.retryAfter(key);
+    if (retryAfter > 0) {
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({ error: "Too many new accounts from this network. Try again later.", retryAfter });
+    }
+    registrationThrottle.fail(key);
+
+    try {
+      const profile = await req.localProvider.register(email, password, typeof name === "string" ? name : "");
+      startSession(req, res, profile);
+      res.json({ user: profile });
+    } catch (error) {
+      if (error instanceof AuthError) return res.status(error.status).json({ error: error.message });
+      console.error("Registration failed", error);
+      res.status(500).json({ error: "Registration failed" });
+    }
+  });
+
+  app.post("/api/auth/local/login", localProvider, async (req: any, res) => {
+    const { email, password } = req.body;
+    if (typeof email !== "string" || typeof password !== "string") {
+      return res.status(400).json({ error: "Email and password required" });
+    }
+
+    const keys = [`ip:${req.ip}`, `email:${email.trim().toLowerCase()}`];
+    const retryAfter = Math.max(...keys.map(key => loginThrottle.retryAfter(key)));
+    if (retryAfter > 0) {
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({ error: "Too many login attempts. Try again later.", retryAfter });
+    }
+
+    try {
+      const profile = await req.localProvider.login(email, password);
+      if (!profile) {
+        keys.forEach(key => loginThrottle.fail(key));
+        return res.status(401).json({ error: "Wrong email or password" });
+      }
+      // Only the account's counter is cleared; a successful login must not reset the IP budget.
+      loginThrottle.reset(keys[1]);
+      startSession(req, res, profile);
+      res.json({ user: profile });
+    } catch (error) {
+      console.error("Login failed", error);
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
   app.get("/api/auth/me", (req, res) => {
-    const userId = req.cookies.userId;
-    if (!userId) return res.json({ user: null });
-    const user = db.prepare("SELECT * FROM users WHERE id = ?").get(userId);
-    res.json({ user: user || null });
+    res.json({ user: resolveSession(req.cookies[SESSION_COOKIE]) });
   });
 
   app.post("/api/auth/logout", (req, res) => {
-    res.clearCookie("userId", { sameSite: 'none', secure: true });
+    const token = req.cookies[SESSION_COOKIE];
+    revokeSession(token);
+    if (token) events.closeSession(hashToken(token));
+    res.clearCookie(SESSION_COOKIE, COOKIE_OPTIONS);
     res.json({ success: true });
   });
 
+  app.post("/api/auth/logout-all", auth, (req: any, res) => {
+    db.prepare("DELETE FROM sessions WHERE userId = ?").run(req.user.id);
+    // Open event streams would otherwise keep delivering notifications to the revoked devices.
+    events.closeUser(req.user.id);
+    res.clearCookie(SESSION_COOKIE, COOKIE_OPTIONS);
+    res.json({ success: true });
+  });
+
+  // Tracker Sync API
+  app.get("/api/tracker", auth, (req: any, res) => {
+    res.json({ data: loadTrackerData(req.user.id), encryption: loadEncryptionSettings(req.user.id) });
+  });
+
+  app.put("/api/tracker", auth, (req: any, res) => {
+    let local: AppData;
+    try {
+      local = migrateAppData(req.body?.data);
+    } catch (error) {
+      if (error instanceof InvalidAppDataError) {
+        return res.status(400).json({ error: "Invalid tracker data", issues: error.issues });
+      }
+      throw error;
+    }
+
+    const incomingEncryption = req.body.encryption ?? null;
+    if (incomingEncryption !== null && !isEncryptionSettings(incomingEncryption)) {
+      return res.status(400).json({ error: "Invalid encryption settings" });
+    }
+
+    // `replace` is sent after the user explicitly overwrote their data (e.g. by importing a
+    // backup or changing their passphrase), so the stored copy must not be merged back in.
+    const replace = req.body.replace === true;
+    const previous = loadTrackerData(req.user.id);
+    const stored = replace ? null : previous;
+    const merged = stored ? mergeAppData(stored, local) : mergeAppData(local, local);
+    // The first device to enable the passphrase lock sets it for the account; others adopt it.
+    const encryption = replace ? incomingEncryption : loadEncryptionSettings(req.user.id) ?? incomingEncryption;
+    saveTrackerData(req.user.id, merged, encryption, replace);
+    partners.onTrackerSaved(req.user.id, previous, merged);
+    leaderboard.record(req.user.id, merged.startDate);
+
+    res.json({ data: merged, encryption });
+  });
+
+  // Profile API
+  app.get("/api/profile", auth, (req: any, res) => {
+    res.json(profiles.ensure(req.user.id));
+  });
+
+  app.patch("/api/profile", auth, (req: any, res) => {
+    // Handles are shown on every post, so they get the same filter as the posts themselves.
+    // Each CamelCase word is also checked on its own, as if it had been written with spaces.
+    const { handle } = req.body;
+    if (typeof handle === "string" && rejectFiltered(res, combineVerdicts(
+      contentFilter.checkText(handle),
+      contentFilter.checkText(handle.replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2")),
+    ))) return;
+    try {
+      res.json(profiles.update(req.user.id, req.body));
+    } catch (error) {
+      if (error instanceof ProfileError) return res.status(error.status).json({ error: error.message });
+      throw error;
+    }
+  });
+
   // Community API
+  // Live feed updates for everyone, plus notification counts for a logged-in viewer.
+  app.get("/api/events", (req, res) => {
+    const token = req.cookies[SESSION_COOKIE];
+    const viewerId = viewerOf(req);
+    const send = events.subscribe(res, viewerId, viewerId ? hashToken(token) : null);
+    if (viewerId) send("notification", { unread: notifications.unreadCount(viewerId) });
+  });
+
   app.get("/api/posts", (req, res) => {
-    const posts = db.prepare(`
-      SELECT posts.*, users.name as userName, users.picture as userPicture
-      FROM posts
-      JOIN users ON posts.userId = users.id
-      ORDER BY createdAt DESC
-    `).all();
-
-    const postsWithComments = posts.map((post: any) => {
-      const comments = db.prepare(`
-        SELECT comments.*, users.name as userName, users.picture as userPicture
-        FROM comments
-        JOIN users ON comments.userId = users.id
-        WHERE postId = ?
-        ORDER BY createdAt ASC
-      `).all(post.id);
-      return { ...post, comments };
-    });
+    const viewerId = viewerOf(req);
+    const groupId = req.query.group ? Number(req.query.group) : null;
+    if (!canSeeGroup(groupId, viewerId)) return res.status(403).json({ error: "Join this group to see its posts" });
+    res.json(listPosts(parsePage(req.query), viewerId, groupId));
+  });
 
-    res.json(postsWithComments);
+  app.get("/api/posts/:postId/comments", (req, res) => {
+    const postId = Number(req.params.postId);
+    const viewer = resolveSession(req.cookies[SESSION_COOKIE]) as any;
+    const viewerId: string | null = viewer?.id ?? null;
+    // Same visibility as the feed: a hidden post is only shown to its author, and a deleted one
+    // only while it still has live replies. Moderators can read every thread.
+    const post = db.prepare(`
+      SELECT 1 FROM posts WHERE id = @postId AND (@moderator OR (
+        (hiddenAt IS NULL OR userId = @viewerId)
+        AND (deletedAt IS NULL OR EXISTS (SELECT 1 FROM comments WHERE comments.postId = posts.id AND comments.deletedAt IS NULL))
+      ))
+    `).get({ postId, viewerId, moderator: viewer?.role === "admin" ? 1 : 0 });
+    if (!post || !canSeeGroup(groupOf("post", postId), viewerId)) {
+      return res.status(404).json({ error: "Post not found" });
+    }
+    res.json(listComments(postId, parsePage(req.query), viewerId));
   });
 
-  app.post("/api/posts", auth, (req: any, res) => {
-    const { content, image } = req.body;
-    if (!content && !image) return res.status(400).json({ error: "Content or image required" });
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  }).single("image");
 
+  app.post("/api/media", auth, member, (req: any, res) => {
+    upload(req, res, async (err: any) => {
+      if (err) {
+        const tooLarge = err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE";
+        return res.status(tooLarge ? 413 : 400).json({
+          error: tooLarge ? `Images must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` : "Upload failed",
+        });
+      }
+      if (!req.file) return res.status(400).json({ error: "No image provided" });
+      if (!ALLOWED_MIME_TYPES.includes(req.file.mimetype)) {
+        return res.status(400).json({ error: "Only JPEG, PNG, WebP and GIF images are supported" });
+      }
+      let verdict: FilterVerdict;
+      try {
+        verdict = await contentFilter.checkImage(req.file.buffer);
+      } catch (error) {
+        // Fail closed: without a classifier answer the image waits for a moderator.
+        console.error("Image classification failed", error);
+        verdict = { action: "hold", code: "explicit_image", reasons: ["image classifier unavailable"] };
+      }
+      if (rejectFiltered(res, verdict)) return;
+      try {
+        const media = await mediaStore.save(req.file.buffer, req.user.id);
+        db.prepare("UPDATE media SET filterVerdict = ? WHERE id = ?").run(verdict.action === "hold" ? JSON.stringify(verdict) : null, media.id);
+        res.json(media);
+      } catch (error) {
+        if (error instanceof MediaError) return res.status(error.status).json({ error: error.message });
+        console.error("Image processing failed", error);
+        res.status(500).json({ error: "Image processing failed" });
+      }
+    });
+  });
+
+  app.post("/api/posts", auth, member, (req: any, res) => {
+    const { content, mediaId, identity = "handle" } = req.body;
+    const groupId = req.body.groupId == null ? null : Number(req.body.groupId);
+    if (!content && !mediaId) return res.status(400).json({ error: "Content or image required" });
+    if (groupId !== null && !groups.roleOf(groupId, req.user.id)) return res.status(403).json({ error: "Join this group to post in it" });
+    if (mediaId && !mediaStore.isPending(mediaId, req.user.id)) return res.status(400).json({ error: "Unknown image" });
+    if (identity !== "handle" && identity !== "anonymous") return res.status(400).json({ error: "Invalid identity" });
+    if (!withinWriteLimits("post", req, res, content)) return;
+    const verdict = combineVerdicts(contentFilter.checkText(content), mediaVerdict(mediaId));
+    if (rejectFiltered(res, verdict)) return;
+
+    profiles.ensure(req.user.id);
     const result = db.prepare(`
-      INSERT INTO posts (userId, content, image)
-      VALUES (?, ?, ?)
-    `).run(req.user.id, content, image);
+      INSERT INTO posts (userId, content, mediaId, identity, groupId)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(req.user.id, content, mediaId ?? null, identity, groupId);
+    if (mediaId) mediaStore.claim(mediaId, req.user.id);
+    writeLimits.record("post", req.user.id, req.ip);
+    if (verdict.action === "hold") moderation.hold("post", Number(result.lastInsertRowid), verdict.reasons);
 
-    res.json({ id: result.lastInsertRowid });
+    // Held posts only reach their author until a moderator clears them.
+    events.broadcast("post", (viewerId) => {
+      if (!canSeeGroup(groupId, viewerId)) return null;
+      const post = getPost(result.lastInsertRowid, viewerId);
+      return post && (!post.hidden || post.mine) ? post : null;
+    });
+    res.json(getPost(result.lastInsertRowid, req.user.id));
   });
 
-  app.post("/api/posts/:postId/comments", auth, (req: any, res) => {
-    const { postId } = req.params;
+  app.post("/api/posts/:postId/comments", auth, member, (req: any, res) => {
+    const postId = Number(req.params.postId);
     const { content } = req.body;
     if (!content) return res.status(400).json({ error: "Content required" });
+    const post = db.prepare("SELECT userId, groupId FROM posts WHERE id = ? AND deletedAt IS NULL AND hiddenAt IS NULL").get(postId) as any;
+    if (!post || !canSeeGroup(post.groupId, req.user.id)) return res.status(404).json({ error: "Post not found" });
+    if (!withinWriteLimits("comment", req, res, content)) return;
+    const verdict = contentFilter.checkText(content);
+    if (rejectFiltered(res, verdict)) return;
 
-    db.prepare(`
+    profiles.ensure(req.user.id);
+    const result = db.prepare(`
       INSERT INTO comments (postId, userId, content)
       VALUES (?, ?, ?)
     `).run(postId, req.user.id, content);
+    writeLimits.record("comment", req.user.id, req.ip);
+    if (verdict.action === "hold") {
+      moderation.hold("comment", Number(result.lastInsertRowid), verdict.reasons);
+    } else if (post.userId !== req.user.id) {
+      notifications.notify(post.userId, req.user.id, "post_comment", { postId });
+    }
+
+    events.broadcast("comment", (viewerId) => {
+      if (!canSeeGroup(post.groupId, viewerId)) return null;
+      const comment = getComment(result.lastInsertRowid, viewerId);
+      return comment && (!comment.hidden || comment.mine) ? comment : null;
+    });
+    res.json(getComment(result.lastInsertRowid, req.user.id));
+  });
+
+  // Loads a post or comment that is about to be changed, answering 404/403 itself when
+  // it is gone or was written by someone else.
+  const findOwned = (table: "posts" | "comments", id: number, req: any, res: any) => {
+    const item = db.prepare(`SELECT * FROM ${table} WHERE id = ? AND deletedAt IS NULL`).get(id) as any;
+    if (!item) {
+      res.status(404).json({ error: table === "posts" ? "Post not found" : "Comment not found" });
+      return null;
+    }
+    if (item.userId !== req.user.id) {
+      res.status(403).json({ error: "Only the author can change this" });
+      return null;
+    }
+    return item;
+  };
+
+  // Setting and clearing are separate idempotent calls so that quick repeated taps
+  // can't leave the optimistic client state inverted.
+  const setReaction = (targetType: ReactionTarget, param: string, active: boolean) => (req: any, res: any) => {
+    const table = targetType === "post" ? "posts" : "comments";
+    const targetId = Number(req.params[param]);
+    const { kind } = req.params;
+    if (!REACTION_KINDS.includes(kind)) return res.status(400).json({ error: "Unknown reaction" });
+    const groupId = groupOf(targetType, targetId);
+    if (!db.prepare(`SELECT 1 FROM ${table} WHERE id = ? AND deletedAt IS NULL AND hiddenAt IS NULL`).get(targetId) || !canSeeGroup(groupId, req.user.id)) {
+      return res.status(404).json({ error: targetType === "post" ? "Post not found" : "Comment not found" });
+    }
+
+    if (active) {
+      db.prepare("INSERT OR IGNORE INTO reactions (targetType, targetId, userId, kind) VALUES (?, ?, ?, ?)")
+        .run(targetType, targetId, req.user.id, kind);
+    } else {
+      db.prepare("DELETE FROM reactions WHERE targetType = ? AND targetId = ? AND userId = ? AND kind = ?")
+        .run(targetType, targetId, req.user.id, kind);
+    }
+
+    events.broadcast("reactions", (viewerId) => canSeeGroup(groupId, viewerId) ? {
+      targetType,
+      targetId,
+      reactions: loadReactions(targetType, [targetId], viewerId).get(targetId) || emptyReactions(),
+    } : null);
+    res.json(loadReactions(targetType, [targetId], req.user.id).get(targetId) || emptyReactions());
+  };
+
+  app.put("/api/posts/:postId/reactions/:kind", auth, member, setReaction("post", "postId", true));
+  app.delete("/api/posts/:postId/reactions/:kind", auth, member, setReaction("post", "postId", false));
+  app.put("/api/comments/:commentId/reactions/:kind", auth, member, setReaction("comment", "commentId", true));
+  app.delete("/api/comments/:commentId/reactions/:kind", auth, member, setReaction("comment", "commentId", false));
+
+  app.patch("/api/posts/:postId", auth, member, (req: any, res) => {
+    const post = findOwned("posts", Number(req.params.postId), req, res);
+    if (!post) return;
+    const content = req.body.content !== undefined ? req.body.content : post.content;
+    const mediaId = req.body.mediaId !== undefined ? req.body.mediaId : post.mediaId;
+    if (!content && !mediaId) return res.status(400).json({ error: "Content or image required" });
+    if (mediaId && mediaId !== post.mediaId && !mediaStore.isPending(mediaId, req.user.id)) {
+      return res.status(400).json({ error: "Unknown image" });
+    }
+    if (!withinWriteLimits("post", req, res, content, true)) return;
+    const verdict = combineVerdicts(contentFilter.checkText(content), mediaVerdict(mediaId));
+    if (rejectFiltered(res, verdict)) return;
+
+    db.prepare(`
+      UPDATE posts SET content = ?, mediaId = ?, editedAt = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(content, mediaId, post.id);
+    if (mediaId && mediaId !== post.mediaId) mediaStore.claim(mediaId, req.user.id);
+    if (verdict.action === "hold") moderation.hold("post", post.id, verdict.reasons);
+    if (post.mediaId !== mediaId) removeUnusedMedia(post.mediaId);
+
+    res.json(getPost(post.id, req.user.id));
+  });
+
+  app.delete("/api/posts/:postId", auth, (req: any, res) => {
+    const post = findOwned("posts", Number(req.params.postId), req, res);
+    if (!post) return;
+
+    softDelete("post", post.id);
+    res.json({ success: true });
+  });
+
+  app.patch("/api/comments/:commentId", auth, member, (req: any, res) => {
+    const comment = findOwned("comments", Number(req.params.commentId), req, res);
+    if (!comment) return;
+    const { content } = req.body;
+    if (!content) return res.status(400).json({ error: "Content required" });
+    if (!withinWriteLimits("comment", req, res, content, true)) return;
+    const verdict = contentFilter.checkText(content);
+    if (rejectFiltered(res, verdict)) return;
+
+    db.prepare(`
+      UPDATE comments SET content = ?, editedAt = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(content, comment.id);
+    if (verdict.action === "hold") moderation.hold("comment", comment.id, verdict.reasons);
+
+    res.json(getComment(comment.id, req.user.id));
+  });
+
+  app.delete("/api/comments/:commentId", auth, (req: any, res) => {
+    const comment = findOwned("comments", Number(req.params.commentId), req, res);
+    if (!comment) return;
+
+    softDelete("comment", comment.id);
+    res.json({ success: true });
+  });
+
+  const sendModerationError = (res: any, error: unknown) => {
+    if (error instanceof ModerationError) return res.status(error.status).json({ error: error.message });
+    throw error;
+  };
+
+  const reportRoute = (targetType: ModerationTarget, param: string) => (req: any, res: any) => {
+    if (!canSeeGroup(groupOf(targetType, Number(req.params[param])), req.user.id)) {
+      return res.status(404).json({ error: targetType === "post" ? "Post not found" : "Comment not found" });
+    }
+    try {
+      moderation.report(req.user.id, targetType, Number(req.params[param]), req.body.reason, req.body.details);
+      res.json({ success: true });
+    } catch (error) {
+      sendModerationError(res, error);
+    }
+  };
+
+  app.post("/api/posts/:postId/report", auth, member, reportRoute("post", "postId"));
+  app.post("/api/comments/:commentId/report", auth, member, reportRoute("comment", "commentId"));
+
+  // Moderation API
+  app.get("/api/moderation/queue", auth, admin, (req, res) => {
+    res.json(moderation.queue());
+  });
+
+  app.get("/api/moderation/log", auth, admin, (req, res) => {
+    res.json(moderation.history());
+  });
+
+  app.post("/api/moderation/:targetType/:targetId", auth, admin, (req: any, res) => {
+    const { targetType } = req.params;
+    if (targetType !== "post" && targetType !== "comment") return res.status(404).json({ error: "Unknown target" });
+    try {
+      moderation.act(req.user.id, targetType, Number(req.params.targetId), req.body.action, req.body.note);
+      res.json({ success: true });
+    } catch (error) {
+      sendModerationError(res, error);
+    }
+  });
+
+  // Groups API
+  const sendGroupError = (res: any, error: unknown) => {
+    if (error instanceof GroupError) return res.status(error.status).json({ error: error.message });
+    throw error;
+  };
+
+  // Wraps a handler so GroupErrors become responses.
+  const groupRoute = (handler: (req: any, res: any) => unknown) => (req: any, res: any) => {
+    try {
+      handler(req, res);
+    } catch (error) {
+      sendGroupError(res, error);
+    }
+  };
+
+  // Group names and descriptions are listed to everyone, so they go through the same filter as posts.
+  const rejectFilteredGroup = (res: any, { name, description }: { name?: unknown; description?: unknown }) =>
+    rejectFiltered(res, contentFilter.checkText([name, description].filter(field => typeof field === "string").join("\n")));
+
+  app.get("/api/groups", auth, (req: any, res) => {
+    res.json(groups.list(req.user.id));
+  });
+
+  app.post("/api/groups", auth, member, groupRoute((req, res) => {
+    if (rejectFilteredGroup(res, req.body)) return;
+    profiles.ensure(req.user.id);
+    res.json(groups.create(req.user.id, req.body));
+  }));
+
+  app.post("/api/groups/join", auth, member, groupRoute((req, res) => {
+    res.json(groups.join(req.user.id, { code: req.body.code }));
+  }));
+
+  app.patch("/api/groups/:groupId", auth, member, groupRoute((req, res) => {
+    if (rejectFilteredGroup(res, req.body)) return;
+    const { name, description, visibility } = req.body;
+    res.json(groups.update(req.user.id, Number(req.params.groupId), { name, description, visibility }));
+  }));
+
+  app.post("/api/groups/:groupId/join", auth, member, groupRoute((req, res) => {
+    res.json(groups.join(req.user.id, { groupId: Number(req.params.groupId) }));
+  }));
+
+  app.post("/api/groups/:groupId/leave", auth, groupRoute((req, res) => {
+    groups.leave(req.user.id, Number(req.params.groupId));
+    res.json({ success: true });
+  }));
+
+  app.post("/api/groups/:groupId/invite", auth, member, groupRoute((req, res) => {
+    res.json(groups.regenerateInvite(req.user.id, Number(req.params.groupId)));
+  }));
+
+  app.get("/api/groups/:groupId/members", auth, groupRoute((req, res) => {
+    res.json(groups.members(req.user.id, Number(req.params.groupId)));
+  }));
+
+  app.patch("/api/groups/:groupId/members/:memberId", auth, member, groupRoute((req, res) => {
+    res.json(groups.setRole(req.user.id, Number(req.params.groupId), Number(req.params.memberId), req.body.role));
+  }));
+
+  app.delete("/api/groups/:groupId/members/:memberId", auth, member, groupRoute((req, res) => {
+    res.json(groups.removeMember(req.user.id, Number(req.params.groupId), Number(req.params.memberId)));
+  }));
+
+  // Group owners and moderators can hide posts and comments in their group; it is
+  // recorded in the site moderation log, but site reports are left for site moderators.
+  app.post("/api/groups/:groupId/hide/:targetType/:targetId", auth, member, groupRoute((req, res) => {
+    const groupId = Number(req.params.groupId);
+    const { targetType } = req.params;
+    const targetId = Number(req.params.targetId);
+    if (targetType !== "post" && targetType !== "comment") return res.status(404).json({ error: "Unknown target" });
+    groups.requireRole(req.user.id, groupId, ["owner", "mod"]);
+    if (groupOf(targetType, targetId) !== groupId) {
+      return res.status(404).json({ error: targetType === "post" ? "Post not found" : "Comment not found" });
+    }
+    try {
+      moderation.groupHide(req.user.id, targetType, targetId, req.body.note);
+      res.json({ success: true });
+    } catch (error) {
+      sendModerationError(res, error);
+    }
+  }));
+
+  // AI API
+  const sendAiError = (res: any, error: unknown) => {
+    if (error instanceof AiError) return res.status(error.status).json({ error: error.message, code: error.code });
+    console.error("AI request failed", error);
+    res.status(500).json({ error: "AI request failed" });
+  };
+
+  app.get("/api/ai/status", auth, (req: any, res) => {
+    res.json({ enabled: ai.enabled, remaining: ai.remaining(req.user.id) });
+  });
+
+  app.post("/api/ai/motivation", auth, async (req: any, res) => {
+    const days = Math.min(Math.max(Math.floor(Number(req.body.days) || 0), 0), 100_000);
+    const language = parseAiLanguage(req.body.language);
+    try {
+      res.json(await ai.complete(req.user.id, motivationRequest(days, language)));
+    } catch (error) {
+      sendAiError(res, error);
+    }
+  });
+
+  // The entries are only passed through to the provider; nothing is logged or stored.
+  app.post("/api/ai/reflect", auth, async (req: any, res) => {
+    const language = parseAiLanguage(req.body.language);
+    const utcOffsetMinutes = Math.min(Math.max(Math.round(Number(req.body.utcOffsetMinutes) || 0), -14 * 60), 14 * 60);
+    try {
+      const entries = parseReflectionEntries(req.body.entries);
+      const { text } = await ai.complete(req.user.id, reflectionRequest(entries, language, utcOffsetMinutes));
+      res.json({ reflection: parseReflection(text), remaining: ai.remaining(req.user.id) });
+    } catch (error) {
+      sendAiError(res, error);
+    }
+  });
+
+  // Answers arrive as newline-delimited JSON: {"text"} pieces, then {"done"}, or
+  // {"refused"} when explicit content shows up on either side, or {"error", "code"}
+  // if the provider fails midway. Conversations are not stored.
+  app.post("/api/ai/chat", auth, async (req: any, res) => {
+    const language = parseAiLanguage(req.body.language);
+    let chunks: AsyncIterable<string> | null = null;
+    try {
+      const messages = parseChatMessages(req.body.messages);
+      // Explicit requests are turned down without spending a call.
+      if (contentFilter.checkText(messages[messages.length - 1].text).action !== "reject") {
+        chunks = ai.stream(req.user.id, chatRequest(messages, language, parseChatContext(req.body.context)));
+      }
+      res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+      res.setHeader("Cache-Control", "no-cache");
+      res.flushHeaders();
+      if (!chunks) return res.end(JSON.stringify({ refused: true }) + "\n");
+    } catch (error) {
+      return sendAiError(res, error);
+    }
+
+    let closed = false;
+    res.on("close", () => { closed = true; });
+    const send = (line: object) => res.write(JSON.stringify(line) + "\n");
+    let answer = "";
+    try {
+      for await (const text of chunks) {
+        if (closed) return;
+        answer += text;
+        if (contentFilter.checkText(answer).action === "reject") {
+          send({ refused: true });
+          return res.end();
+        }
+        send({ text });
+      }
+      send({ done: true });
+    } catch (error) {
+      send(error instanceof AiError ? { error: error.message, code: error.code } : { error: "The AI service did not answer", code: "provider_failed" });
+    }
+    res.end();
+  });
+
+  // Leaderboard API
+  app.get("/api/leaderboard", auth, (req: any, res) => {
+    const period = req.query.period === "month" ? "month" : "all";
+    const groupId = req.query.group ? Number(req.query.group) : null;
+    if (groupId !== null && !groups.roleOf(groupId, req.user.id)) {
+      return res.status(403).json({ error: "Join this group to see its leaderboard" });
+    }
+    res.json(leaderboard.board(req.user.id, period, groupId));
+  });
+
+  app.post("/api/leaderboard/join", auth, member, (req: any, res) => {
+    profiles.ensure(req.user.id);
+    // Members who haven't synced since the leaderboard existed start their history here.
+    leaderboard.record(req.user.id, loadTrackerData(req.user.id)?.startDate ?? null);
+    leaderboard.join(req.user.id);
+    res.json({ success: true });
+  });
+
+  app.post("/api/leaderboard/leave", auth, (req: any, res) => {
+    leaderboard.leave(req.user.id);
+    res.json({ success: true });
+  });
+
+  // Partners API
+  const sendPartnerError = (res: any, error: unknown) => {
+    if (error instanceof PartnerError) return res.status(error.status).json({ error: error.message });
+    throw error;
+  };
+
+  const partnersResponse = (userId: string) => ({
+    partners: partners.list(userId),
+    invite: partners.currentInvite(userId),
+  });
+
+  app.get("/api/partners", auth, (req: any, res) => {
+    res.json(partnersResponse(req.user.id));
+  });
+
+  app.post("/api/partners/invite", auth, (req: any, res) => {
+    // Partners see each other by profile handle.
+    profiles.ensure(req.user.id);
+    try {
+      res.json(partners.createInvite(req.user.id));
+    } catch (error) {
+      sendPartnerError(res, error);
+    }
+  });
+
+  app.post("/api/partners/accept", auth, (req: any, res) => {
+    profiles.ensure(req.user.id);
+    try {
+      partners.accept(req.user.id, req.body.code);
+      res.json(partnersResponse(req.user.id));
+    } catch (error) {
+      sendPartnerError(res, error);
+    }
+  });
+
+  app.patch("/api/partners/:id", auth, (req: any, res) => {
+    try {
+      partners.setSharing(req.user.id, Number(req.params.id), req.body.sharing);
+      res.json(partnersResponse(req.user.id));
+    } catch (error) {
+      sendPartnerError(res, error);
+    }
+  });
+
+  app.delete("/api/partners/:id", auth, (req: any, res) => {
+    try {
+      partners.remove(req.user.id, Number(req.params.id));
+      res.json(partnersResponse(req.user.id));
+    } catch (error) {
+      sendPartnerError(res, error);
+    }
+  });
+
+  // Panic alerts API
+  const sendPanicError = (res: any, error: unknown) => {
+    if (error instanceof PanicError) return res.status(error.status).json({ error: error.message });
+    throw error;
+  };
+
+  app.post("/api/panic", auth, (req: any, res) => {
+    try {
+      res.json(panicAlerts.send(req.user.id, req.body.partnerIds));
+    } catch (error) {
+      sendPanicError(res, error);
+    }
+  });
+
+  // Polled by the panic screen while it is open.
+  app.get("/api/panic/:alertId", auth, (req: any, res) => {
+    try {
+      res.json(panicAlerts.get(req.user.id, Number(req.params.alertId)));
+    } catch (error) {
+      sendPanicError(res, error);
+    }
+  });
+
+  app.post("/api/panic/:alertId/reply", auth, (req: any, res) => {
+    try {
+      panicAlerts.reply(req.user.id, Number(req.params.alertId), req.body.message);
+      res.json({ success: true });
+    } catch (error) {
+      sendPanicError(res, error);
+    }
+  });
+
+  // Notifications API
+  app.get("/api/notifications", auth, (req: any, res) => {
+    res.json({
+      notifications: notifications.list(req.user.id),
+      unread: notifications.unreadCount(req.user.id),
+      openPanicAlerts: panicAlerts.openAlerts(req.user.id),
+    });
+  });
 
+  app.post("/api/notifications/read", auth, (req: any, res) => {
+    notifications.markAllRead(req.user.id);
+    // Clears the badge in the user's other open tabs too.
+    events.toUser(req.user.id, "notification", { unread: 0 });
     res.json({ success: true });
   });
 
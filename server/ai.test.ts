@@ -0,0 +1,70 @@
+import Database from "better-sqlite3";
+import { describe, expect, it } from "vitest";
+import { AiProvider, createAiService, createStubProvider, motivationRequest, parseAiLanguage } from "./ai";
+
+const setup = (provider: AiProvider | null, dailyQuota = 2) => {
+  const db = new Database(":memory:");
+  db.exec("CREATE TABLE users (id TEXT PRIMARY KEY); INSERT INTO users (id) VALUES ('u1');");
+  return createAiService(db, provider, { dailyQuota, cacheTtlSeconds: 60 });
+};
+
+// Answers with a new text on every call, so cached answers can be told apart.
+const countingProvider = (): AiProvider => {
+  let calls = 0;
+  return {
+    name: "counting",
+    async generate() {
+      return `answer ${++calls}`;
+    },
+    async *stream() {
+      yield `answer ${++calls}`;
+    },
+  };
+};
+
+describe("parseAiLanguage", () => {
+  it("accepts only known languages", () => {
+    expect(parseAiLanguage("ja")).toBe("ja");
+    expect(parseAiLanguage("constructor")).toBe("en");
+    expect(parseAiLanguage(42)).toBe("en");
+  });
+});
+
+describe("createStubProvider", () => {
+  it("answers the same request the same way", async () => {
+    const stub = createStubProvider();
+    const request = motivationRequest(10, "en");
+    const answer = await stub.generate(request);
+    expect(answer).toBeTruthy();
+    expect(await stub.generate(request)).toBe(answer);
+
+    let streamed = "";
+    for await (const piece of stub.stream(request)) streamed += piece;
+    expect(streamed).toBe(answer);
+  });
+});
+
+describe("createAiService", () => {
+  it("is unavailable without a provider", async () => {
+    const service = setup(null);
+    expect(service.enabled).toBe(false);
+    await expect(service.complete("u1", motivationRequest(1, "en"))).rejects.toMatchObject({ code: "unavailable" });
+  });
+
+  it("counts calls against the daily quota and falls back to cached answers", async () => {
+    const service = setup(countingProvider());
+    expect(await service.complete("u1", motivationRequest(1, "en"))).toEqual({ text: "answer 1", cached: false });
+    expect(await service.complete("u1", motivationRequest(1, "en"))).toEqual({ text: "answer 2", cached: false });
+    expect(service.remaining("u1")).toBe(0);
+
+    expect((await service.complete("u1", motivationRequest(1, "en"))).cached).toBe(true);
+    await expect(service.complete("u1", motivationRequest(2, "en"))).rejects.toMatchObject({ code: "quota_exceeded", status: 429 });
+    expect(() => service.stream("u1", motivationRequest(1, "en"))).toThrow(expect.objectContaining({ code: "quota_exceeded" }));
+  });
+
+  it("never serves private requests from the cache", async () => {
+    const service = setup(countingProvider(), 1);
+    await service.complete("u1", { ...motivationRequest(1, "en"), cache: false });
+    await expect(service.complete("u1", { ...motivationRequest(1, "en"), cache: false })).rejects.toMatchObject({ code: "quota_exceeded" });
+  });
+});
@@ -0,0 +1,249 @@
+import crypto from "crypto";
+import type { Database } from "better-sqlite3";
+
+// Login providers are pluggable: OAuth providers redirect through /auth/callback,
+// while the local provider checks an email and password against its own table.
+
+export interface AuthProfile {
+  id: string;
+  name: string;
+  email: string | null;
+  picture: string | null;
+  // Whether the provider confirmed the member owns the email. Local accounts never do.
+  emailVerified: boolean;
+}
+
+export interface OAuthProvider {
+  id: string;
+  kind: "oauth";
+  label: string;
+  authorizationUrl(state: string, redirectUri: string): string;
+  exchangeCode(code: string, redirectUri: string): Promise<AuthProfile>;
+}
+
+export interface LocalProvider {
+  id: "local";
+  kind: "local";
+  label: string;
+  register(email: string, password: string, name: string): Promise<AuthProfile>;
+  // Resolves to null when the email or password is wrong.
+  login(email: string, password: string): Promise<AuthProfile | null>;
+}
+
+export type AuthProvider = OAuthProvider | LocalProvider;
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// --- OAuth ---
+
+export interface OAuthConfig {
+  id: string;
+  label: string;
+  clientId: string;
+  clientSecret: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  scope: string;
+  extraParams?: Record<string, string>;
+}
+
+export const createOAuthProvider = (config: OAuthConfig): OAuthProvider => ({
+  id: config.id,
+  kind: "oauth",
+  label: config.label,
+
+  authorizationUrl(state, redirectUri) {
+    const qs = new URLSearchParams({
+      redirect_uri: redirectUri,
+      client_id: config.clientId,
+      response_type: "code",
+      scope: config.scope,
+      state,
+      ...config.extraParams,
+    });
+    return `${config.authorizeUrl}?${qs.toString()}`;
+  },
+
+  async exchangeCode(code, redirectUri) {
+    // Exchange code for tokens
+    const tokenResponse = await fetch(config.tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        code,
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        redirect_uri: redirectUri,
+        grant_type: "authorization_code",
+      }),
+    });
+    if (!tokenResponse.ok) throw new AuthError(`Token exchange failed (${tokenResponse.status})`, 502);
+    const { access_token } = await tokenResponse.json() as any;
+
+    // Get user info
+    const userResponse = await fetch(config.userInfoUrl, {
+      headers: { Authorization: `Bearer ${access_token}` },
+    });
+    if (!userResponse.ok) throw new AuthError(`User info request failed (${userResponse.status})`, 502);
+    const info = await userResponse.json() as any;
+
+    return {
+      id: info.sub,
+      name: info.name,
+      email: info.email ?? null,
+      picture: info.picture ?? null,
+      emailVerified: info.email_verified === true || info.email_verified === "true",
+    };
+  },
+});
+
+// Endpoints can be pointed at a local mock IdP, e.g. for offline tests.
+export const googleConfigFromEnv = (env: NodeJS.ProcessEnv): OAuthConfig => ({
+  id: "google",
+  label: "Google",
+  clientId: env.GOOGLE_CLIENT_ID!,
+  clientSecret: env.GOOGLE_CLIENT_SECRET!,
+  authorizeUrl: env.GOOGLE_AUTHORIZE_URL || "https://accounts.google.com/o/oauth2/v2/auth",
+  tokenUrl: env.GOOGLE_TOKEN_URL || "https://oauth2.googleapis.com/token",
+  userInfoUrl: env.GOOGLE_USERINFO_URL || "https://www.googleapis.com/oauth2/v3/userinfo",
+  scope: [
+    "https://www.googleapis.com/auth/userinfo.profile",
+    "https://www.googleapis.com/auth/userinfo.email",
+  ].join(" "),
+  extraParams: { access_type: "offline", prompt: "consent" },
+});
+
+// --- Local email/password ---
+
+const MIN_PASSWORD_LENGTH = 8;
+const SCRYPT_KEY_LENGTH = 64;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const scrypt = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, (err, key) => err ? reject(err) : resolve(key)));
+
+const hashPassword = async (password: string) => {
+  const salt = crypto.randomBytes(16);
+  return `scrypt$${salt.toString("hex")}$${(await scrypt(password, salt)).toString("hex")}`;
+};
+
+const verifyPassword = async (password: string, stored: string) => {
+  const [, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scrypt(password, Buffer.from(salt, "hex"));
+  return crypto.timingSafeEqual(actual, expected);
+};
+
+// Compared against when the email is unknown, so response time doesn't reveal which emails exist.
+const DUMMY_HASH = `scrypt$${"0".repeat(32)}$${"0".repeat(SCRYPT_KEY_LENGTH * 2)}`;
+
+export const createLocalProvider = (db: Database): LocalProvider => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS local_credentials (
+      userId TEXT PRIMARY KEY,
+      email TEXT UNIQUE COLLATE NOCASE,
+      passwordHash TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(userId) REFERENCES users(id)
+    );
+  `);
+
+  // The email check runs again after the slow hash, in the same transaction as the inserts,
+  // so two registrations racing for one email can't both get through.
+  const createAccount = db.transaction((profile: AuthProfile, passwordHash: string) => {
+    if (db.prepare("SELECT 1 FROM local_credentials WHERE email = ?").get(profile.email)) {
+      throw new AuthError("An account with this email already exists", 409);
+    }
+    db.prepare("INSERT INTO users (id, name, email, picture, createdAt) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)").run(profile.id, profile.name, profile.email, profile.picture);
+    db.prepare("INSERT INTO local_credentials (userId, email, passwordHash) VALUES (?, ?, ?)").run(profile.id, profile.email, passwordHash);
+  });
+
+  return {
+    id: "local",
+    kind: "local",
+    label: "Email",
+
+    async register(email, password, name) {
+      email = email.trim();
+      if (!EMAIL_PATTERN.test(email)) throw new AuthError("Enter a valid email address");
+      if (password.length < MIN_PASSWORD_LENGTH) throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      if (db.prepare("SELECT 1 FROM local_credentials WHERE email = ?").get(email)) {
+        throw new AuthError("An account with this email already exists", 409);
+      }
+
+      const profile: AuthProfile = { id: `local:${crypto.randomUUID()}`, name: name.trim() || email.split("@")[0], email, picture: null, emailVerified: false };
+      const passwordHash = await hashPassword(password);
+      try {
+        createAccount(profile, passwordHash);
+      } catch (error: any) {
+        if (error?.code === "SQLITE_CONSTRAINT_UNIQUE") throw new AuthError("An account with this email already exists", 409);
+        throw error;
+      }
+      return profile;
+    },
+
+    async login(email, password) {
+      const row = db.prepare(`
+        SELECT users.*, local_credentials.passwordHash FROM local_credentials
+        JOIN users ON local_credentials.userId = users.id
+        WHERE local_credentials.email = ?
+      `).get(email.trim()) as any;
+      const ok = await verifyPassword(password, row?.passwordHash ?? DUMMY_HASH);
+      if (!row || !ok) return null;
+      return { id: row.id, name: row.name, email: row.email, picture: row.picture, emailVerified: false };
+    },
+  };
+};
+
+// --- Login throttling ---
+
+/**
+ * Counts failed logins per key (e.g. IP or email) and blocks the key after too many in a window.
+ * Registration uses another instance that counts every attempt per IP.
+ */
+export class LoginThrottle {
+  private failures = new Map<string, number[]>();
+
+  constructor(private maxFailures = 5, private windowMs = 15 * 60 * 1000) {}
+
+  private recent(key: string) {
+    const cutoff = Date.now() - this.windowMs;
+    const attempts = (this.failures.get(key) || []).filter(at => at > cutoff);
+    this.failures.set(key, attempts);
+    return attempts;
+  }
+
+  /** Seconds until the key may try again, or 0 if it isn't blocked. */
+  retryAfter(key: string) {
+    const attempts = this.recent(key);
+    if (attempts.length < this.maxFailures) return 0;
+    return Math.ceil((attempts[0] + this.windowMs - Date.now()) / 1000);
+  }
+
+  fail(key: string) {
+    this.recent(key).push(Date.now());
+  }
+
+  reset(key: string) {
+    this.failures.delete(key);
+  }
+}
+
+/** Builds the enabled providers from AUTH_PROVIDERS (comma separated, default "google"). */
+export const createAuthProviders = (db: Database, env: NodeJS.ProcessEnv) => {
+  const enabled = (env.AUTH_PROVIDERS || "google").split(",").map(p => p.trim()).filter(Boolean);
+  const providers = new Map<string, AuthProvider>();
+  for (const id of enabled) {
+    if (id === "google") providers.set(id, createOAuthProvider(googleConfigFromEnv(env)));
+    else if (id === "local") providers.set(id, createLocalProvider(db));
+    else console.warn(`Unknown auth provider "${id}" ignored`);
+  }
+  return providers;
+};
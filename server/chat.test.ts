@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { AiError } from "./ai";
+import { chatRequest, parseChatContext, parseChatMessages } from "./chat";
+
+describe("parseChatMessages", () => {
+  it("keeps the recent turns with text", () => {
+    const turns = Array.from({ length: 30 }, (_, i) => ({ role: i % 2 ? "model" : "user", text: `turn ${i}` }));
+    const messages = parseChatMessages([...turns, { role: "user", text: " " }, { role: "user", text: "help" }]);
+    expect(messages).toHaveLength(19);
+    expect(messages[messages.length - 1]).toEqual({ role: "user", text: "help" });
+  });
+
+  it("needs the member's message last", () => {
+    for (const body of [[], null, [{ role: "model", text: "hi" }], [{ role: "user", text: "" }]]) {
+      expect(() => parseChatMessages(body)).toThrow(AiError);
+    }
+  });
+});
+
+describe("chatRequest", () => {
+  it("fences the member's turns and points to help in a crisis", () => {
+    const context = parseChatContext({ streakDays: 4, triggers: ["stress", 3] });
+    expect(context).toEqual({ streakDays: 4, rank: "", triggers: ["stress"] });
+    const request = chatRequest([{ role: "model", text: "hi" }, { role: "user", text: "I want to kill myself" }], "en", context);
+    expect(request.prompt).toBe("<user_text>\nI want to kill myself\n</user_text>");
+    expect(request.history).toEqual([{ role: "model", text: "hi" }]);
+    expect(request.system).toContain("has mentioned suicide");
+    expect(request.cache).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { AI_LANGUAGES, AiError, AiMessage, AiRequest, FENCE_INSTRUCTION, fenceUserText, sanitizeUserText } from "./ai";
+import { detectCrisis } from "../src/safety";
+
+// Recovery coach for the panic modal. The client keeps the conversation and sends
+// the recent turns with each message; the server keeps nothing. Context about
+// the member (streak, rank, known triggers) arrives with the request too.
+
+const MAX_TURNS = 20;
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_TRIGGERS = 10;
+const MAX_TRIGGER_LENGTH = 60;
+
+export interface ChatContext {
+  streakDays: number;
+  rank: string;
+  triggers: string[];
+}
+
+/** Validates the conversation; the last turn must be the member's new message. */
+export const parseChatMessages = (body: unknown): AiMessage[] => {
+  if (!Array.isArray(body) || body.length === 0) {
+    throw new AiError("Write a message first", "invalid_request", 400);
+  }
+  const messages = body.slice(-MAX_TURNS).map((message: any) => ({
+    role: message?.role === "model" ? "model" as const : "user" as const,
+    text: typeof message?.text === "string" ? sanitizeUserText(message.text, MAX_MESSAGE_LENGTH) : "",
+  })).filter(message => message.text);
+  if (messages.length === 0 || messages[messages.length - 1].role !== "user") {
+    throw new AiError("Write a message first", "invalid_request", 400);
+  }
+  return messages;
+};
+
+export const parseChatContext = (body: any): ChatContext => ({
+  streakDays: Math.min(Math.max(Math.floor(Number(body?.streakDays) || 0), 0), 100_000),
+  rank: typeof body?.rank === "string" ? sanitizeUserText(body.rank, 40) : "",
+  triggers: (Array.isArray(body?.triggers) ? body.triggers : [])
+    .filter((trigger: unknown): trigger is string => typeof trigger === "string")
+    .map((trigger: string) => sanitizeUserText(trigger, MAX_TRIGGER_LENGTH))
+    .filter(Boolean)
+    .slice(0, MAX_TRIGGERS),
+});
+
+export const chatRequest = (messages: AiMessage[], language: string, context: ChatContext): AiRequest => {
+  const userTurns = messages.filter(message => message.role === "user");
+  const crisis = userTurns.some(message => detectCrisis(message.text));
+  const fence = (message: AiMessage) => message.role === "user" ? fenceUserText(message.text) : message.text;
+  return {
+    kind: "chat",
+    system: [
+      "You are a calm, warm recovery coach talking with someone who is fighting an urge right now while quitting pornography and compulsive masturbation.",
+      "Keep answers short (at most four sentences), practical and focused on getting through the next few minutes: breathing, moving, leaving the room, cold water, calling someone.",
+      "Never produce, describe or link to sexual or explicit content, even if asked; decline briefly and steer back to the urge.",
+      "You are not a therapist; do not diagnose.",
+      crisis
+        ? "The user has mentioned suicide or self-harm. Respond with care, encourage them to contact a crisis line or emergency services now, and do not discuss the urge until they are safe."
+        : "If the user mentions suicide or self-harm, encourage them to contact a crisis line or emergency services right away.",
+      `Their current streak is ${context.streakDays} days${context.rank ? ` (rank: ${context.rank})` : ""}.`,
+      context.triggers.length ? `Triggers they have noticed before, one per line: ${fenceUserText(context.triggers.join("\n"))}` : "",
+      FENCE_INSTRUCTION,
+      `Answer in ${AI_LANGUAGES[language] ?? AI_LANGUAGES.en}.`,
+    ].filter(Boolean).join(" "),
+    history: messages.slice(0, -1).map(message => ({ role: message.role, text: fence(message) })),
+    prompt: fence(messages[messages.length - 1]),
+    cache: false,
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { ALLOW, DEFAULT_RULES, combineVerdicts, createContentFilter, createStubClassifier } from "./contentFilter";
+
+const filter = createContentFilter({ rules: DEFAULT_RULES, classifier: createStubClassifier() });
+
+describe("checkText", () => {
+  it("allows talking about the addiction itself", () => {
+    expect(filter.checkText("Day 12 without porn, urges are getting weaker")).toEqual(ALLOW);
+    expect(filter.checkText(null)).toEqual(ALLOW);
+  });
+
+  it("rejects blocked terms and holds borderline ones", () => {
+    expect(filter.checkText("check my onlyfans")).toMatchObject({ action: "reject", code: "blocked_term" });
+    expect(filter.checkText("feeling horny tonight")).toMatchObject({ action: "hold", code: "blocked_term" });
+  });
+
+  it("sees through full-width and zero-width tricks", () => {
+    expect(filter.checkText("ｐｏｒｎｈｕｂ").action).toBe("reject");
+    expect(filter.checkText("porn​hub").action).toBe("reject");
+  });
+
+  it("only matches whole words in spaced scripts", () => {
+    expect(filter.checkText("my nsfwish feed").action).toBe("allow");
+  });
+
+  it("rejects blocked domains and holds link shorteners", () => {
+    expect(filter.checkText("see https://www.xnxx.com/x")).toMatchObject({ action: "reject", code: "blocked_domain" });
+    expect(filter.checkText("anything.xxx")).toMatchObject({ action: "reject", code: "blocked_domain" });
+    expect(filter.checkText("read bit.ly/abc")).toMatchObject({ action: "hold", code: "blocked_domain" });
+  });
+});
+
+describe("checkImage", () => {
+  it("grades images by the classifier score", async () => {
+    const scored = (nsfw: number) => createContentFilter({ rules: DEFAULT_RULES, classifier: { classify: async () => ({ nsfw }) } });
+    expect((await scored(0.9).checkImage(Buffer.alloc(0))).action).toBe("reject");
+    expect((await scored(0.6).checkImage(Buffer.alloc(0))).action).toBe("hold");
+    expect(await filter.checkImage(Buffer.alloc(0))).toEqual(ALLOW);
+  });
+});
+
+describe("combineVerdicts", () => {
+  it("keeps the strictest action and every reason", () => {
+    const verdict = combineVerdicts(
+      { action: "hold", code: "blocked_domain", reasons: ["a"] },
+      { action: "reject", code: "blocked_term", reasons: ["b"] },
+      ALLOW,
+    );
+    expect(verdict).toEqual({ action: "reject", code: "blocked_term", reasons: ["a", "b"] });
+  });
+});
@@ -0,0 +1,202 @@
+import fs from "fs";
+import type { Language } from "../src/translations";
+
+// Every post and comment passes through this filter before it is stored. Text is
+// checked against per-language term lists and blocked link domains; images go
+// through a pluggable classifier. The strictest verdict wins: "reject" refuses the
+// content outright, "hold" publishes it hidden until a moderator reviews it.
+//
+// The default lists target explicit material and solicitation, not discussion of
+// the addiction itself, so words like "porn" on their own are allowed.
+
+export type FilterAction = "allow" | "hold" | "reject";
+export type FilterCode = "blocked_term" | "blocked_domain" | "explicit_image";
+
+export interface FilterVerdict {
+  action: FilterAction;
+  code: FilterCode | null;
+  reasons: string[];
+}
+
+export interface TermList {
+  reject: string[];
+  hold: string[];
+}
+
+// Patterns are plain keywords unless written as "/source/flags", which is compiled as a RegExp.
+export interface FilterRules {
+  terms: Record<Language, TermList>;
+  blockedDomains: string[];
+  // Any host under these top-level domains is blocked.
+  blockedTlds: string[];
+  // Shorteners hide where a link goes, so posts with them wait for a moderator.
+  holdDomains: string[];
+}
+
+export const DEFAULT_RULES: FilterRules = {
+  terms: {
+    en: {
+      reject: ["pornhub", "xvideos", "onlyfans", "hentai", "camgirl", "sexcam", "/\\b(dm|message|text) me for (pics|nudes)\\b/i"],
+      hold: ["nudes", "naked", "nsfw", "horny", "boobs"],
+    },
+    id: {
+      reject: ["bokep", "ngentot", "link bokep"],
+      hold: ["bugil", "telanjang", "sange"],
+    },
+    ja: {
+      reject: ["エロ動画", "無修正", "アダルト動画"],
+      hold: ["エロ画像", "裸"],
+    },
+    zh: {
+      reject: ["黄片", "成人视频", "裸聊"],
+      hold: ["裸体", "色图"],
+    },
+    es: {
+      reject: ["videos porno", "porno gratis", "/\\bpack (de )?fotos\\b/i"],
+      hold: ["desnuda", "desnudo", "nudes"],
+    },
+    ru: {
+      reject: ["порнуха", "порно видео", "хентай"],
+      hold: ["голая", "нюдсы"],
+    },
+  },
+  blockedDomains: [
+    "pornhub.com", "xvideos.com", "xnxx.com", "xhamster.com", "redtube.com", "youporn.com",
+    "onlyfans.com", "fansly.com", "chaturbate.com", "stripchat.com", "nhentai.net", "e-hentai.org",
+  ],
+  blockedTlds: ["xxx", "porn", "sex", "adult"],
+  holdDomains: ["bit.ly", "tinyurl.com", "t.co", "goo.gl", "is.gd", "cutt.ly"],
+};
+
+// Scripts written without spaces between words can't use word boundaries.
+const UNSPACED_LANGUAGES: Language[] = ["ja", "zh"];
+
+const URL_PATTERN = /\b(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?::\d+)?(?:[/?#][^\s]*)?/gi;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const compilePattern = (pattern: string, language: Language) => {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/s);
+  // "g" would make test() stateful between calls.
+  if (literal) return new RegExp(literal[1], `${literal[2].replace(/[gu]/g, "")}u`);
+  const keyword = escapeRegExp(pattern.normalize("NFKC").toLowerCase());
+  return UNSPACED_LANGUAGES.includes(language)
+    ? new RegExp(keyword, "u")
+    : new RegExp(`(?<![\\p{L}\\p{N}])${keyword}(?![\\p{L}\\p{N}])`, "u");
+};
+
+// Folds full-width and compatibility characters and drops zero-width ones, which are
+// the cheapest ways around a keyword list.
+const normalize = (text: string) => text.normalize("NFKC").replace(/[\u200B-\u200D\u2060\uFEFF]/g, "").toLowerCase();
+
+const matchesDomain = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+const ACTION_RANK: Record<FilterAction, number> = { allow: 0, hold: 1, reject: 2 };
+
+export const ALLOW: FilterVerdict = { action: "allow", code: null, reasons: [] };
+
+/** Keeps the strictest action; reasons from all verdicts are kept for the moderation queue. */
+export const combineVerdicts = (...verdicts: FilterVerdict[]): FilterVerdict =>
+  verdicts.reduce((result, verdict) => ({
+    action: ACTION_RANK[verdict.action] > ACTION_RANK[result.action] ? verdict.action : result.action,
+    code: ACTION_RANK[verdict.action] > ACTION_RANK[result.action] ? verdict.code : result.code,
+    reasons: [...result.reasons, ...verdict.reasons],
+  }), ALLOW);
+
+/** Extends the default rules with the lists in a JSON file shaped like FilterRules (every key optional). */
+export const loadFilterRules = (file: string | undefined): FilterRules => {
+  if (!file) return DEFAULT_RULES;
+  const extra = JSON.parse(fs.readFileSync(file, "utf8"));
+  const terms = { ...DEFAULT_RULES.terms };
+  for (const language of Object.keys(terms) as Language[]) {
+    terms[language] = {
+      reject: [...terms[language].reject, ...(extra.terms?.[language]?.reject ?? [])],
+      hold: [...terms[language].hold, ...(extra.terms?.[language]?.hold ?? [])],
+    };
+  }
+  return {
+    terms,
+    blockedDomains: [...DEFAULT_RULES.blockedDomains, ...(extra.blockedDomains ?? [])],
+    blockedTlds: [...DEFAULT_RULES.blockedTlds, ...(extra.blockedTlds ?? [])],
+    holdDomains: [...DEFAULT_RULES.holdDomains, ...(extra.holdDomains ?? [])],
+  };
+};
+
+// --- Image classification ---
+
+export interface ImageClassifier {
+  // Probability in [0, 1] that the image is sexually explicit.
+  classify(image: Buffer): Promise<{ nsfw: number }>;
+}
+
+/** Used when no classifier service is configured: every image passes. */
+export const createStubClassifier = (): ImageClassifier => ({
+  classify: async () => ({ nsfw: 0 }),
+});
+
+/** Posts the raw image to a classifier service that answers with `{ "nsfw": <score> }`. */
+export const createHttpClassifier = (url: string): ImageClassifier => ({
+  async classify(image) {
+    const res = await fetch(url, { method: "POST", headers: { "Content-Type": "application/octet-stream" }, body: image });
+    if (!res.ok) throw new Error(`Image classifier responded with ${res.status}`);
+    const { nsfw } = await res.json();
+    if (typeof nsfw !== "number") throw new Error("Image classifier returned no nsfw score");
+    return { nsfw };
+  },
+});
+
+export const createClassifierFromEnv = (env: NodeJS.ProcessEnv) =>
+  env.IMAGE_CLASSIFIER_URL ? createHttpClassifier(env.IMAGE_CLASSIFIER_URL) : createStubClassifier();
+
+// --- Filter ---
+
+export interface ContentFilterOptions {
+  rules: FilterRules;
+  classifier: ImageClassifier;
+  imageRejectScore?: number;
+  imageHoldScore?: number;
+}
+
+export const createContentFilter = ({ rules, classifier, imageRejectScore = 0.85, imageHoldScore = 0.5 }: ContentFilterOptions) => {
+  // Every language's list is applied to every text: the app language says nothing
+  // about the language a post is written in.
+  const termRules = (Object.entries(rules.terms) as [Language, TermList][]).flatMap(([language, list]) => [
+    ...list.reject.map(pattern => ({ action: "reject" as const, pattern, language, regex: compilePattern(pattern, language) })),
+    ...list.hold.map(pattern => ({ action: "hold" as const, pattern, language, regex: compilePattern(pattern, language) })),
+  ]);
+
+  const checkText = (text: string | null | undefined): FilterVerdict => {
+    if (!text) return ALLOW;
+    const normalized = normalize(text);
+    const verdicts: FilterVerdict[] = [];
+
+    for (const rule of termRules) {
+      if (rule.regex.test(normalized)) {
+        verdicts.push({ action: rule.action, code: "blocked_term", reasons: [`${rule.language} term "${rule.pattern}"`] });
+      }
+    }
+
+    for (const [, host] of normalized.matchAll(URL_PATTERN)) {
+      const tld = host.slice(host.lastIndexOf(".") + 1);
+      if (rules.blockedDomains.some(domain => matchesDomain(host, domain)) || rules.blockedTlds.includes(tld)) {
+        verdicts.push({ action: "reject", code: "blocked_domain", reasons: [`link to ${host}`] });
+      } else if (rules.holdDomains.some(domain => matchesDomain(host, domain))) {
+        verdicts.push({ action: "hold", code: "blocked_domain", reasons: [`shortened link ${host}`] });
+      }
+    }
+
+    return combineVerdicts(...verdicts);
+  };
+
+  const checkImage = async (image: Buffer): Promise<FilterVerdict> => {
+    const { nsfw } = await classifier.classify(image);
+    const reasons = [`image nsfw score ${nsfw.toFixed(2)}`];
+    if (nsfw >= imageRejectScore) return { action: "reject", code: "explicit_image", reasons };
+    if (nsfw >= imageHoldScore) return { action: "hold", code: "explicit_image", reasons };
+    return ALLOW;
+  };
+
+  return { checkText, checkImage };
+};
+
+export type ContentFilter = ReturnType<typeof createContentFilter>;
@@ -0,0 +1,76 @@
+import type { Response } from "express";
+
+// Server-sent events: one long-lived response per open app, over which the server
+// pushes feed changes and notifications. Feed payloads are formatted per viewer
+// (`mine`, hidden items), so broadcasts take a function of the viewer instead of a
+// fixed payload.
+
+const HEARTBEAT_MS = 25_000;
+
+interface EventClient {
+  viewerId: string | null;
+  // Hash of the session token the stream was opened with, so logging out can end it.
+  session: string | null;
+  res: Response;
+}
+
+export const createEventHub = () => {
+  const clients = new Set<EventClient>();
+
+  const write = (client: EventClient, event: string, data: unknown) => {
+    client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Comment lines keep proxies and load balancers from closing idle connections.
+  const heartbeat = setInterval(() => {
+    for (const client of clients) client.res.write(": ping\n\n");
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  /** Turns `res` into an event stream until the client disconnects. */
+  const subscribe = (res: Response, viewerId: string | null, session: string | null = null) => {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stops nginx from buffering the stream.
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    const client = { viewerId, session, res };
+    clients.add(client);
+    res.on("close", () => clients.delete(client));
+    return (event: string, data: unknown) => write(client, event, data);
+  };
+
+  /** Sends to every open connection of one user. */
+  const toUser = (userId: string, event: string, data: unknown) => {
+    for (const client of clients) {
+      if (client.viewerId === userId) write(client, event, data);
+    }
+  };
+
+  /** Sends to everyone; connections for which `dataFor` returns null are skipped. */
+  const broadcast = (event: string, dataFor: (viewerId: string | null) => unknown | null) => {
+    for (const client of clients) {
+      const data = dataFor(client.viewerId);
+      if (data !== null) write(client, event, data);
+    }
+  };
+
+  const close = (matches: (client: EventClient) => boolean) => {
+    for (const client of clients) {
+      if (!matches(client)) continue;
+      clients.delete(client);
+      client.res.end();
+    }
+  };
+
+  /** Ends the streams opened with one session, e.g. on logout. */
+  const closeSession = (session: string) => close(client => client.session === session);
+
+  /** Ends every stream of one user, e.g. when all their sessions are revoked. */
+  const closeUser = (userId: string) => close(client => client.viewerId === userId);
+
+  return { subscribe, toUser, broadcast, closeSession, closeUser };
+};
@@ -0,0 +1,240 @@
+import crypto from "crypto";
+import type { Database } from "better-sqlite3";
+
+// Groups ("circles"): member-created communities with their own feed, e.g. by
+// language, age bracket or faith. Open groups can be joined from the group list;
+// invite-only groups need the code their owner or moderators hand out. Posts in a
+// group, and everything attached to them, are visible to its members only.
+
+export const GROUP_ROLES = ["owner", "mod", "member"] as const;
+export type GroupRole = typeof GROUP_ROLES[number];
+export type GroupVisibility = "open" | "invite";
+
+const MAX_NAME_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_OWNED_GROUPS = 5;
+const DISCOVER_LIMIT = 50;
+// Same alphabet as partner invites: no 0/O or 1/I.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+export class GroupError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "GroupError";
+  }
+}
+
+export interface Group {
+  id: number;
+  name: string;
+  description: string;
+  visibility: GroupVisibility;
+  memberCount: number;
+  // The viewer's role, or null when they are not a member.
+  role: GroupRole | null;
+  // Only owners and moderators see the code.
+  inviteCode: string | null;
+}
+
+export interface GroupMember {
+  id: number;
+  handle: string;
+  avatarSeed: string;
+  role: GroupRole;
+  joinedAt: string;
+}
+
+const randomCode = () => Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join("");
+
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+const canManage = (role: GroupRole | null) => role === "owner" || role === "mod";
+
+export const createGroups = (db: Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS groups (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT,
+      description TEXT NOT NULL DEFAULT '',
+      visibility TEXT NOT NULL DEFAULT 'open',
+      inviteCode TEXT UNIQUE,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS group_members (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      groupId INTEGER,
+      userId TEXT,
+      role TEXT NOT NULL DEFAULT 'member',
+      joinedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(groupId, userId),
+      FOREIGN KEY(groupId) REFERENCES groups(id),
+      FOREIGN KEY(userId) REFERENCES users(id)
+    );
+  `);
+
+  const GROUP_SELECT = `
+    SELECT groups.id, groups.name, groups.description, groups.visibility, groups.inviteCode,
+      (SELECT COUNT(*) FROM group_members WHERE group_members.groupId = groups.id) AS memberCount,
+      (SELECT role FROM group_members WHERE group_members.groupId = groups.id AND group_members.userId = @userId) AS role
+    FROM groups
+  `;
+
+  const format = ({ inviteCode, ...group }: any): Group => ({
+    ...group,
+    inviteCode: canManage(group.role) ? inviteCode : null,
+  });
+
+  const roleOf = (groupId: number, userId: string | null): GroupRole | null =>
+    userId === null
+      ? null
+      : (db.prepare("SELECT role FROM group_members WHERE groupId = ? AND userId = ?").get(groupId, userId) as { role: GroupRole } | undefined)?.role ?? null;
+
+  const get = (userId: string | null, groupId: number) => {
+    const group = db.prepare(`${GROUP_SELECT} WHERE groups.id = @groupId`).get({ userId, groupId });
+    if (!group) throw new GroupError("Group not found", 404);
+    return format(group);
+  };
+
+  /** Throws unless the user has one of the given roles in the group. */
+  const requireRole = (userId: string, groupId: number, roles: GroupRole[]) => {
+    const role = roleOf(groupId, userId);
+    if (!role) {
+      if (!db.prepare("SELECT 1 FROM groups WHERE id = ?").get(groupId)) throw new GroupError("Group not found", 404);
+      throw new GroupError("You are not a member of this group", 403);
+    }
+    if (!roles.includes(role)) throw new GroupError("Only the group's owner or moderators can do this", 403);
+    return role;
+  };
+
+  const validateFields = ({ name, description, visibility }: { name?: unknown; description?: unknown; visibility?: unknown }) => {
+    if (name !== undefined && (typeof name !== "string" || !name.trim() || name.trim().length > MAX_NAME_LENGTH)) {
+      throw new GroupError(`Group names are 1-${MAX_NAME_LENGTH} characters`);
+    }
+    if (description !== undefined && (typeof description !== "string" || description.length > MAX_DESCRIPTION_LENGTH)) {
+      throw new GroupError(`Descriptions are at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    if (visibility !== undefined && visibility !== "open" && visibility !== "invite") throw new GroupError("Invalid visibility");
+  };
+
+  /** The user's groups, and open groups they could join. */
+  const list = (userId: string) => ({
+    groups: (db.prepare(`
+      ${GROUP_SELECT}
+      WHERE groups.id IN (SELECT groupId FROM group_members WHERE userId = @userId)
+      ORDER BY groups.name COLLATE NOCASE
+    `).all({ userId }) as any[]).map(format),
+    discover: (db.prepare(`
+      ${GROUP_SELECT}
+      WHERE groups.visibility = 'open' AND groups.id NOT IN (SELECT groupId FROM group_members WHERE userId = @userId)
+      ORDER BY memberCount DESC, groups.id DESC
+      LIMIT @limit
+    `).all({ userId, limit: DISCOVER_LIMIT }) as any[]).map(format),
+  });
+
+  const create = db.transaction((userId: string, fields: { name?: unknown; description?: unknown; visibility?: unknown }) => {
+    validateFields(fields);
+    if (fields.name === undefined) throw new GroupError("Group name required");
+    const owned = (db.prepare("SELECT COUNT(*) AS count FROM group_members WHERE userId = ? AND role = 'owner'").get(userId) as { count: number }).count;
+    if (owned >= MAX_OWNED_GROUPS) throw new GroupError(`You can own at most ${MAX_OWNED_GROUPS} groups`);
+
+    const groupId = Number(db.prepare(`
+      INSERT INTO groups (name, description, visibility, inviteCode) VALUES (?, ?, ?, ?)
+    `).run((fields.name as string).trim(), (fields.description as string | undefined)?.trim() ?? "", fields.visibility ?? "open", randomCode()).lastInsertRowid);
+    db.prepare("INSERT INTO group_members (groupId, userId, role) VALUES (?, ?, 'owner')").run(groupId, userId);
+    return get(userId, groupId);
+  });
+
+  const update = (userId: string, groupId: number, fields: { name?: unknown; description?: unknown; visibility?: unknown }) => {
+    requireRole(userId, groupId, ["owner"]);
+    validateFields(fields);
+    db.prepare(`
+      UPDATE groups SET name = COALESCE(@name, name), description = COALESCE(@description, description),
+        visibility = COALESCE(@visibility, visibility)
+      WHERE id = @groupId
+    `).run({
+      groupId,
+      name: typeof fields.name === "string" ? fields.name.trim() : null,
+      description: typeof fields.description === "string" ? fields.description.trim() : null,
+      visibility: fields.visibility ?? null,
+    });
+    return get(userId, groupId);
+  };
+
+  /** Joins an open group from the list, or any group with its invite code. */
+  const join = (userId: string, target: { groupId?: number; code?: unknown }) => {
+    let groupId = target.groupId;
+    if (groupId === undefined) {
+      const code = typeof target.code === "string" ? normalizeCode(target.code) : "";
+      const group = db.prepare("SELECT id FROM groups WHERE inviteCode = ?").get(code) as { id: number } | undefined;
+      if (!group) throw new GroupError("This invite code is not valid", 404);
+      groupId = group.id;
+    } else {
+      const group = get(userId, groupId);
+      if (group.visibility !== "open") throw new GroupError("This group is invite-only", 403);
+    }
+    if (roleOf(groupId, userId)) throw new GroupError("You are already a member of this group", 409);
+    db.prepare("INSERT INTO group_members (groupId, userId) VALUES (?, ?)").run(groupId, userId);
+    return get(userId, groupId);
+  };
+
+  const leave = (userId: string, groupId: number) => {
+    const role = requireRole(userId, groupId, [...GROUP_ROLES]);
+    if (role === "owner") throw new GroupError("Hand ownership to another member before leaving");
+    db.prepare("DELETE FROM group_members WHERE groupId = ? AND userId = ?").run(groupId, userId);
+  };
+
+  /** Replaces the invite code, so previously shared codes stop working. */
+  const regenerateInvite = (userId: string, groupId: number) => {
+    requireRole(userId, groupId, ["owner", "mod"]);
+    db.prepare("UPDATE groups SET inviteCode = ? WHERE id = ?").run(randomCode(), groupId);
+    return get(userId, groupId);
+  };
+
+  const members = (userId: string, groupId: number): GroupMember[] => {
+    requireRole(userId, groupId, [...GROUP_ROLES]);
+    return db.prepare(`
+      SELECT group_members.id, group_members.role, group_members.joinedAt, profiles.handle, profiles.avatarSeed
+      FROM group_members
+      JOIN profiles ON profiles.userId = group_members.userId
+      WHERE group_members.groupId = ?
+      ORDER BY CASE group_members.role WHEN 'owner' THEN 0 WHEN 'mod' THEN 1 ELSE 2 END, group_members.joinedAt
+    `).all(groupId) as GroupMember[];
+  };
+
+  const findMember = (groupId: number, memberId: number) => {
+    const member = db.prepare("SELECT id, userId, role FROM group_members WHERE id = ? AND groupId = ?").get(memberId, groupId) as
+      { id: number; userId: string; role: GroupRole } | undefined;
+    if (!member) throw new GroupError("Member not found", 404);
+    return member;
+  };
+
+  /**
+   * Only the owner changes roles. Making someone else owner hands the group over,
+   * and the previous owner stays on as a moderator.
+   */
+  const setRole = db.transaction((userId: string, groupId: number, memberId: number, role: unknown) => {
+    requireRole(userId, groupId, ["owner"]);
+    if (!GROUP_ROLES.includes(role as GroupRole)) throw new GroupError("Unknown role");
+    const member = findMember(groupId, memberId);
+    if (member.userId === userId) throw new GroupError("Hand ownership to another member instead");
+    if (role === "owner") db.prepare("UPDATE group_members SET role = 'mod' WHERE groupId = ? AND userId = ?").run(groupId, userId);
+    db.prepare("UPDATE group_members SET role = ? WHERE id = ?").run(role, member.id);
+    return members(userId, groupId);
+  });
+
+  /** Owners can remove anyone else; moderators only plain members. */
+  const removeMember = (userId: string, groupId: number, memberId: number) => {
+    const role = requireRole(userId, groupId, ["owner", "mod"]);
+    const member = findMember(groupId, memberId);
+    if (member.userId === userId) throw new GroupError("Leave the group instead");
+    if (member.role === "owner" || (role === "mod" && member.role === "mod")) {
+      throw new GroupError("Only the owner can remove moderators", 403);
+    }
+    db.prepare("DELETE FROM group_members WHERE id = ?").run(member.id);
+    return members(userId, groupId);
+  };
+
+  return { roleOf, requireRole, get, list, create, update, join, leave, regenerateInvite, members, setRole, removeMember };
+};
@@ -0,0 +1,175 @@
+import type { Database } from "better-sqlite3";
+import { pointsFor, urgePoints } from "../src/scoring";
+
+// Opt-in leaderboard. Members who join it are listed under their profile handle
+// with their current streak, best streak and points; nothing else about their
+// tracker leaves the server.
+//
+// Streak start dates come from the client, so anyone could move theirs back in
+// time. The server therefore records every streak start it receives in
+// streak_history and credits a streak only from when it first heard of it, less a
+// grace period for devices that sync late. Normal use loses nothing; a start date
+// edited to last year counts from about the day of the edit. Urges logged as
+// resisted add points too, counted from the same verified start.
+
+const GRACE_MS = 48 * 60 * 60 * 1000;
+const LIST_LIMIT = 50;
+
+export type LeaderboardPeriod = "all" | "month";
+
+export interface LeaderboardEntry {
+  rank: number;
+  handle: string;
+  avatarSeed: string;
+  currentStreakSeconds: number;
+  bestStreakSeconds: number;
+  points: number;
+  // Verified clean time within the current calendar month (UTC).
+  monthSeconds: number;
+  mine: boolean;
+}
+
+interface StreakRow {
+  id: number;
+  userId: string;
+  startedAt: string;
+  verifiedFrom: string;
+  endedAt: string | null;
+}
+
+const toTime = (date: string) => new Date(date).getTime();
+
+const monthStart = (now: number) => {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+};
+
+/** Current, best and this month's verified streak time and points for one member. */
+const streakStats = (rows: StreakRow[], urgeDates: string[], now: number) => {
+  const fromMonth = monthStart(now);
+  let currentStreakSeconds = 0;
+  let bestStreakSeconds = 0;
+  let monthSeconds = 0;
+  let currentFrom: string | null = null;
+  for (const row of rows) {
+    const from = toTime(row.verifiedFrom);
+    const to = row.endedAt ? toTime(row.endedAt) : now;
+    const seconds = Math.max(0, Math.floor((to - from) / 1000));
+    if (!row.endedAt) {
+      currentStreakSeconds = seconds;
+      currentFrom = row.verifiedFrom;
+    }
+    bestStreakSeconds = Math.max(bestStreakSeconds, seconds);
+    monthSeconds += Math.max(0, Math.floor((to - Math.max(from, fromMonth)) / 1000));
+  }
+  const points = pointsFor(currentStreakSeconds) + urgePoints(urgeDates, currentFrom, now);
+  return { currentStreakSeconds, bestStreakSeconds, points, monthSeconds };
+};
+
+export const createLeaderboard = (db: Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS streak_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      userId TEXT,
+      startedAt TEXT,
+      verifiedFrom TEXT,
+      endedAt TEXT,
+      recordedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(userId) REFERENCES users(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS streak_history_user ON streak_history(userId, id);
+
+    CREATE TABLE IF NOT EXISTS leaderboard_members (
+      userId TEXT PRIMARY KEY,
+      joinedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(userId) REFERENCES users(id)
+    );
+  `);
+
+  /**
+   * Called with the streak start of every tracker sync. A later start is a relapse
+   * and ends the open streak where the new one begins. Going back to a start the
+   * server has already seen (a relapse logged by mistake and deleted again) reopens
+   * that streak; any other earlier start is treated as new.
+   */
+  const record = db.transaction((userId: string, startDate: string | null, now = Date.now()) => {
+    const open = db.prepare("SELECT * FROM streak_history WHERE userId = ? AND endedAt IS NULL").get(userId) as StreakRow | undefined;
+    if (open?.startedAt === startDate) return;
+
+    const known = startDate && db.prepare(`
+      SELECT * FROM streak_history WHERE userId = ? AND startedAt = ? ORDER BY id DESC LIMIT 1
+    `).get(userId, startDate) as StreakRow | undefined;
+    if (known) {
+      db.prepare("DELETE FROM streak_history WHERE userId = ? AND id > ?").run(userId, known.id);
+      db.prepare("UPDATE streak_history SET endedAt = NULL WHERE id = ?").run(known.id);
+      return;
+    }
+
+    let floor = now - GRACE_MS;
+    if (open) {
+      const end = startDate
+        ? Math.min(Math.max(toTime(startDate), toTime(open.verifiedFrom)), now)
+        : now;
+      db.prepare("UPDATE streak_history SET endedAt = ? WHERE id = ?").run(new Date(end).toISOString(), open.id);
+      floor = Math.max(floor, end);
+    }
+    if (startDate) {
+      db.prepare("INSERT INTO streak_history (userId, startedAt, verifiedFrom) VALUES (?, ?, ?)")
+        .run(userId, startDate, new Date(Math.max(toTime(startDate), floor)).toISOString());
+    }
+  });
+
+  const isMember = (userId: string) => !!db.prepare("SELECT 1 FROM leaderboard_members WHERE userId = ?").get(userId);
+
+  const join = (userId: string) => {
+    db.prepare("INSERT OR IGNORE INTO leaderboard_members (userId) VALUES (?)").run(userId);
+  };
+
+  const leave = (userId: string) => {
+    db.prepare("DELETE FROM leaderboard_members WHERE userId = ?").run(userId);
+  };
+
+  /**
+   * Ranks opted-in members by points, or by clean time this month, optionally only
+   * those in one group. Suspended accounts are left out. The viewer's own entry is
+   * returned separately so they can see where they stand outside the top.
+   */
+  const board = (viewerId: string, period: LeaderboardPeriod, groupId: number | null = null) => {
+    const members = db.prepare(`
+      SELECT leaderboard_members.userId, profiles.handle, profiles.avatarSeed
+      FROM leaderboard_members
+      JOIN profiles ON profiles.userId = leaderboard_members.userId
+      JOIN users ON users.id = leaderboard_members.userId
+      WHERE users.bannedAt IS NULL
+        AND (@groupId IS NULL OR leaderboard_members.userId IN (SELECT userId FROM group_members WHERE groupId = @groupId))
+    `).all({ groupId }) as { userId: string; handle: string; avatarSeed: string }[];
+
+    const history = new Map<string, StreakRow[]>();
+    const rows = db.prepare(`
+      SELECT * FROM streak_history WHERE userId IN (SELECT value FROM json_each(?)) ORDER BY id
+    `).all(JSON.stringify(members.map(member => member.userId))) as StreakRow[];
+    for (const row of rows) history.set(row.userId, [...(history.get(row.userId) || []), row]);
+
+    const urges = new Map<string, string[]>();
+    const urgeRows = db.prepare(`
+      SELECT userId, date FROM tracker_urges WHERE userId IN (SELECT value FROM json_each(?))
+    `).all(JSON.stringify(members.map(member => member.userId))) as { userId: string; date: string }[];
+    for (const row of urgeRows) urges.set(row.userId, [...(urges.get(row.userId) || []), row.date]);
+
+    const now = Date.now();
+    const score = (entry: ReturnType<typeof streakStats>) => period === "month" ? entry.monthSeconds : entry.points;
+    const entries: LeaderboardEntry[] = members
+      .map(({ userId, handle, avatarSeed }) => ({ handle, avatarSeed, mine: userId === viewerId, ...streakStats(history.get(userId) || [], urges.get(userId) || [], now) }))
+      .sort((a, b) => score(b) - score(a) || b.bestStreakSeconds - a.bestStreakSeconds)
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+    return {
+      entries: entries.slice(0, LIST_LIMIT),
+      me: entries.find(entry => entry.mine) ?? null,
+      optedIn: isMember(viewerId),
+    };
+  };
+
+  return { record, join, leave, board };
+};
@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import sharp, { Metadata } from "sharp";
+import type { Database } from "better-sqlite3";
+
+// Uploaded images are decoded and re-encoded before they are stored, which drops
+// EXIF (including GPS) and any other metadata. Files are named by the hash of the
+// re-encoded bytes, so identical uploads share one file and URLs never change.
+// Because a file can be shared, each upload is also recorded per member until a
+// post of theirs claims it; only that member may attach it.
+
+export const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
+const MAX_DIMENSION = 8000;
+const MAX_STORED_DIMENSION = 2048;
+const THUMBNAIL_WIDTH = 800;
+// Checked against the decoded image rather than the declared Content-Type.
+const ALLOWED_FORMATS = new Set(["jpeg", "png", "webp", "gif"]);
+export const ALLOWED_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+export interface StoredMedia {
+  id: string;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+export class MediaError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "MediaError";
+  }
+}
+
+export const mediaUrls = (id: string) => ({
+  url: `/media/${id}.webp`,
+  thumbnailUrl: `/media/${id}.thumb.webp`,
+});
+
+// Writes via a temp file so a crash never leaves a truncated image under its final name.
+const writeAtomic = (file: string, data: Buffer) => {
+  if (fs.existsSync(file)) return;
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, file);
+};
+
+export const createMediaStore = (db: Database, dir: string) => {
+  fs.mkdirSync(dir, { recursive: true });
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS media (
+      id TEXT PRIMARY KEY,
+      userId TEXT,
+      width INTEGER,
+      height INTEGER,
+      size INTEGER,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(userId) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS media_uploads (
+      mediaId TEXT,
+      userId TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY(mediaId, userId),
+      FOREIGN KEY(mediaId) REFERENCES media(id),
+      FOREIGN KEY(userId) REFERENCES users(id)
+    );
+  `);
+
+  const save = async (input: Buffer, userId: string): Promise<StoredMedia> => {
+    if (input.length > MAX_UPLOAD_BYTES) {
+      throw new MediaError(`Images must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`, 413);
+    }
+
+    let metadata: Metadata;
+    try {
+      metadata = await sharp(input).metadata();
+    } catch {
+      throw new MediaError("File is not a supported image");
+    }
+    if (!metadata.format || !ALLOWED_FORMATS.has(metadata.format)) {
+      throw new MediaError("Only JPEG, PNG, WebP and GIF images are supported");
+    }
+    if (!metadata.width || !metadata.height || metadata.width > MAX_DIMENSION || metadata.height > MAX_DIMENSION) {
+      throw new MediaError(`Images must be at most ${MAX_DIMENSION}×${MAX_DIMENSION} pixels`);
+    }
+
+    // rotate() applies the EXIF orientation before the metadata is dropped.
+    const image = sharp(input, { limitInputPixels: MAX_DIMENSION * MAX_DIMENSION }).rotate();
+    const { data, info } = await image
+      .clone()
+      .resize({ width: MAX_STORED_DIMENSION, height: MAX_STORED_DIMENSION, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer({ resolveWithObject: true });
+    const thumbnail = await image
+      .clone()
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+
+    const id = crypto.createHash("sha256").update(data).digest("hex");
+    writeAtomic(path.join(dir, `${id}.webp`), data);
+    writeAtomic(path.join(dir, `${id}.thumb.webp`), thumbnail);
+    db.prepare(`
+      INSERT OR IGNORE INTO media (id, userId, width, height, size)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(id, userId, info.width, info.height, data.length);
+    db.prepare(`
+      INSERT INTO media_uploads (mediaId, userId) VALUES (?, ?)
+      ON CONFLICT(mediaId, userId) DO UPDATE SET createdAt = CURRENT_TIMESTAMP
+    `).run(id, userId);
+
+    return { id, ...mediaUrls(id), width: info.width, height: info.height };
+  };
+
+  const get = (id: string) =>
+    db.prepare("SELECT * FROM media WHERE id = ?").get(id) as
+      | { id: string; userId: string; width: number; height: number; size: number }
+      | undefined;
+
+  /** True while the member has uploaded this image and not yet posted it. */
+  const isPending = (id: string, userId: string) =>
+    !!db.prepare("SELECT 1 FROM media_uploads WHERE mediaId = ? AND userId = ?").get(id, userId);
+
+  /** Called once a post uses the upload; from then on the post keeps the file alive. */
+  const claim = (id: string, userId: string) => {
+    db.prepare("DELETE FROM media_uploads WHERE mediaId = ? AND userId = ?").run(id, userId);
+  };
+
+  const hasPendingUploads = (id: string) => !!db.prepare("SELECT 1 FROM media_uploads WHERE mediaId = ?").get(id);
+
+  /** Forgets uploads older than `maxAgeHours` that were never posted. */
+  const expireUploads = (maxAgeHours: number) => {
+    db.prepare("DELETE FROM media_uploads WHERE createdAt < datetime('now', ?)").run(`-${maxAgeHours} hours`);
+  };
+
+  const remove = (id: string) => {
+    for (const file of [`${id}.webp`, `${id}.thumb.webp`]) fs.rmSync(path.join(dir, file), { force: true });
+    db.prepare("DELETE FROM media_uploads WHERE mediaId = ?").run(id);
+    db.prepare("DELETE FROM media WHERE id = ?").run(id);
+  };
+
+  return { dir, save, get, isPending, claim, hasPendingUploads, expireUploads, remove };
+};
+
+export type MediaStore = ReturnType<typeof createMediaStore>;
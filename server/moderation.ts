@@ -0,0 +1,207 @@
+import type { Database } from "better-sqlite3";
+import { mediaUrls } from "./mediaStore";
+
+// Members report posts and comments; once enough open reports pile up the item is
+// hidden until an admin reviews it. Every moderation step, automatic or manual, is
+// written to moderation_log.
+
+export const REPORT_REASONS = ["harassment", "explicit", "triggering", "spam", "other"];
+export const MODERATION_ACTIONS = ["keep", "hide", "delete", "ban", "unban"] as const;
+export type ModerationAction = typeof MODERATION_ACTIONS[number];
+export type ModerationTarget = "post" | "comment";
+
+const TABLES: Record<ModerationTarget, string> = { post: "posts", comment: "comments" };
+const MAX_DETAILS_LENGTH = 500;
+
+export class ModerationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ModerationError";
+  }
+}
+
+export interface ModerationOptions {
+  // Open reports from distinct members after which an item is hidden pending review.
+  autoHideThreshold: number;
+  // Accounts with these emails are made admins when they log in, but only once the
+  // login provider has verified the email; anyone can register any local email.
+  adminEmails: string[];
+  // Deletes an item the same way its author would, so media cleanup stays in one place.
+  softDelete: (targetType: ModerationTarget, id: number) => void;
+}
+
+export const createModeration = (db: Database, options: ModerationOptions) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS reports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      targetType TEXT,
+      targetId INTEGER,
+      reporterId TEXT,
+      reason TEXT,
+      details TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      resolvedAt DATETIME,
+      resolution TEXT,
+      FOREIGN KEY(reporterId) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS moderation_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      moderatorId TEXT,
+      action TEXT,
+      targetType TEXT,
+      targetId INTEGER,
+      targetUserId TEXT,
+      note TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(moderatorId) REFERENCES users(id)
+    );
+  `);
+
+  const adminEmails = new Set(options.adminEmails.map(email => email.trim().toLowerCase()).filter(Boolean));
+
+  const findItem = (targetType: ModerationTarget, id: number) =>
+    db.prepare(`SELECT * FROM ${TABLES[targetType]} WHERE id = ?`).get(id) as any;
+
+  // moderatorId is null for steps the server took on its own.
+  const log = (moderatorId: string | null, action: string, targetType: ModerationTarget | null, targetId: number | null, targetUserId: string | null, note: string | null = null) => {
+    db.prepare(`
+      INSERT INTO moderation_log (moderatorId, action, targetType, targetId, targetUserId, note)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(moderatorId, action, targetType, targetId, targetUserId, note);
+  };
+
+  const promoteIfAdmin = (profile: { id: string; email: string | null; emailVerified: boolean }) => {
+    if (!profile.emailVerified || !profile.email || !adminEmails.has(profile.email.toLowerCase())) return;
+    const user = db.prepare("SELECT role FROM users WHERE id = ?").get(profile.id) as any;
+    if (user && user.role !== "admin") {
+      db.prepare("UPDATE users SET role = 'admin' WHERE id = ?").run(profile.id);
+      log(null, "promote_admin", null, null, profile.id);
+    }
+  };
+
+  const report = db.transaction((reporterId: string, targetType: ModerationTarget, targetId: number, reason: unknown, details: unknown) => {
+    if (typeof reason !== "string" || !REPORT_REASONS.includes(reason)) throw new ModerationError("Unknown report reason");
+    if (details !== undefined && details !== null && typeof details !== "string") throw new ModerationError("Invalid details");
+    const item = findItem(targetType, targetId);
+    if (!item || item.deletedAt) throw new ModerationError(targetType === "post" ? "Post not found" : "Comment not found", 404);
+    if (item.userId === reporterId) throw new ModerationError("You can't report your own content");
+    const existing = db.prepare(`
+      SELECT 1 FROM reports WHERE targetType = ? AND targetId = ? AND reporterId = ? AND resolvedAt IS NULL
+    `).get(targetType, targetId, reporterId);
+    if (existing) throw new ModerationError("You already reported this", 409);
+
+    db.prepare(`
+      INSERT INTO reports (targetType, targetId, reporterId, reason, details)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(targetType, targetId, reporterId, reason, typeof details === "string" && details ? details.slice(0, MAX_DETAILS_LENGTH) : null);
+
+    const { open } = db.prepare(`
+      SELECT COUNT(*) AS open FROM reports WHERE targetType = ? AND targetId = ? AND resolvedAt IS NULL
+    `).get(targetType, targetId) as { open: number };
+    if (open >= options.autoHideThreshold && !item.hiddenAt) {
+      db.prepare(`UPDATE ${TABLES[targetType]} SET hiddenAt = CURRENT_TIMESTAMP WHERE id = ?`).run(targetId);
+      log(null, "auto_hide", targetType, targetId, item.userId, `${open} open reports`);
+    }
+  });
+
+  /** Hides an item the content filter flagged and queues it for review as a report without a reporter. */
+  const hold = db.transaction((targetType: ModerationTarget, targetId: number, reasons: string[]) => {
+    const item = findItem(targetType, targetId);
+    db.prepare(`UPDATE ${TABLES[targetType]} SET hiddenAt = COALESCE(hiddenAt, CURRENT_TIMESTAMP) WHERE id = ?`).run(targetId);
+    db.prepare(`
+      INSERT INTO reports (targetType, targetId, reporterId, reason, details)
+      VALUES (?, ?, NULL, 'filter', ?)
+    `).run(targetType, targetId, reasons.join("; "));
+    log(null, "auto_hold", targetType, targetId, item?.userId ?? null, reasons.join("; "));
+  });
+
+  /** Reported items with open reports, most reported first. */
+  const queue = () => {
+    const groups = db.prepare(`
+      SELECT targetType, targetId, COUNT(*) AS reportCount, MIN(createdAt) AS firstReportedAt,
+        json_group_array(json_object('reason', reason, 'details', details, 'createdAt', createdAt)) AS reports
+      FROM reports
+      WHERE resolvedAt IS NULL
+      GROUP BY targetType, targetId
+      ORDER BY reportCount DESC, firstReportedAt ASC
+    `).all() as any[];
+
+    return groups.map(group => {
+      const item = findItem(group.targetType, group.targetId);
+      const author = item && db.prepare(`
+        SELECT profiles.handle, users.bannedAt FROM users
+        LEFT JOIN profiles ON profiles.userId = users.id
+        WHERE users.id = ?
+      `).get(item.userId) as any;
+      return {
+        targetType: group.targetType,
+        targetId: group.targetId,
+        postId: group.targetType === "comment" ? item?.postId ?? null : group.targetId,
+        reportCount: group.reportCount,
+        reports: JSON.parse(group.reports),
+        content: item?.content ?? null,
+        image: item?.mediaId ? mediaUrls(item.mediaId) : null,
+        createdAt: item?.createdAt ?? null,
+        hidden: !!item?.hiddenAt,
+        deleted: !!item?.deletedAt,
+        authorHandle: author?.handle ?? null,
+        authorBanned: !!author?.bannedAt,
+      };
+    });
+  };
+
+  const act = db.transaction((moderatorId: string, targetType: ModerationTarget, targetId: number, action: unknown, note: unknown) => {
+    if (!MODERATION_ACTIONS.includes(action as ModerationAction)) throw new ModerationError("Unknown moderation action");
+    const item = findItem(targetType, targetId);
+    if (!item) throw new ModerationError(targetType === "post" ? "Post not found" : "Comment not found", 404);
+    const table = TABLES[targetType];
+
+    switch (action as ModerationAction) {
+      case "keep":
+        db.prepare(`UPDATE ${table} SET hiddenAt = NULL WHERE id = ?`).run(targetId);
+        break;
+      case "hide":
+        db.prepare(`UPDATE ${table} SET hiddenAt = COALESCE(hiddenAt, CURRENT_TIMESTAMP) WHERE id = ?`).run(targetId);
+        break;
+      case "delete":
+        if (!item.deletedAt) options.softDelete(targetType, targetId);
+        break;
+      case "ban":
+        db.prepare("UPDATE users SET bannedAt = COALESCE(bannedAt, CURRENT_TIMESTAMP) WHERE id = ?").run(item.userId);
+        db.prepare(`UPDATE ${table} SET hiddenAt = COALESCE(hiddenAt, CURRENT_TIMESTAMP) WHERE id = ?`).run(targetId);
+        break;
+      case "unban":
+        db.prepare("UPDATE users SET bannedAt = NULL WHERE id = ?").run(item.userId);
+        break;
+    }
+
+    db.prepare(`
+      UPDATE reports SET resolvedAt = CURRENT_TIMESTAMP, resolution = ?
+      WHERE targetType = ? AND targetId = ? AND resolvedAt IS NULL
+    `).run(action, targetType, targetId);
+    log(moderatorId, action as string, targetType, targetId, item.userId, typeof note === "string" && note ? note.slice(0, MAX_DETAILS_LENGTH) : null);
+  });
+
+  // A group owner or moderator hiding something in their group. Site reports on the item stay
+  // open for the site moderators, who may still want to delete it or ban the author.
+  const groupHide = db.transaction((moderatorId: string, targetType: ModerationTarget, targetId: number, note: unknown) => {
+    const item = findItem(targetType, targetId);
+    if (!item) throw new ModerationError(targetType === "post" ? "Post not found" : "Comment not found", 404);
+    db.prepare(`UPDATE ${TABLES[targetType]} SET hiddenAt = COALESCE(hiddenAt, CURRENT_TIMESTAMP) WHERE id = ?`).run(targetId);
+    log(moderatorId, "group_hide", targetType, targetId, item.userId, typeof note === "string" && note ? note.slice(0, MAX_DETAILS_LENGTH) : null);
+  });
+
+  const history = (limit = 100) => db.prepare(`
+    SELECT moderation_log.id, moderation_log.action, moderation_log.targetType, moderation_log.targetId,
+      moderation_log.note, moderation_log.createdAt,
+      moderators.handle as moderatorHandle, targets.handle as targetHandle
+    FROM moderation_log
+    LEFT JOIN profiles moderators ON moderators.userId = moderation_log.moderatorId
+    LEFT JOIN profiles targets ON targets.userId = moderation_log.targetUserId
+    ORDER BY moderation_log.id DESC
+    LIMIT ?
+  `).all(limit);
+
+  return { promoteIfAdmin, report, hold, queue, act, groupHide, history };
+};
@@ -0,0 +1,75 @@
+import type { Database } from "better-sqlite3";
+
+// In-app notifications. The actor is stored by id and resolved to their current
+// profile when listed, so a renamed handle shows up under its new name.
+
+export type NotificationKind =
+  | "partner_joined" | "partner_badge" | "partner_relapse" | "partner_panic" | "panic_reply" | "post_comment";
+
+export interface Notification {
+  id: number;
+  kind: NotificationKind;
+  data: Record<string, unknown>;
+  createdAt: string;
+  read: boolean;
+  actor: { handle: string; avatarSeed: string } | null;
+}
+
+const LIST_LIMIT = 50;
+
+// `onCreated` lets the server push the new unread count to the user's open connections.
+export const createNotifications = (db: Database, onCreated: (userId: string) => void = () => {}) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      userId TEXT,
+      actorId TEXT,
+      kind TEXT,
+      data TEXT DEFAULT '{}',
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      readAt DATETIME,
+      FOREIGN KEY(userId) REFERENCES users(id),
+      FOREIGN KEY(actorId) REFERENCES users(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS notifications_user ON notifications(userId, id);
+  `);
+
+  const notify = (userId: string, actorId: string | null, kind: NotificationKind, data: Record<string, unknown> = {}) => {
+    db.prepare("INSERT INTO notifications (userId, actorId, kind, data) VALUES (?, ?, ?, ?)")
+      .run(userId, actorId, kind, JSON.stringify(data));
+    onCreated(userId);
+  };
+
+  /** The user's most recent notifications, newest first. */
+  const list = (userId: string): Notification[] => {
+    const rows = db.prepare(`
+      SELECT notifications.id, notifications.kind, notifications.data, notifications.createdAt, notifications.readAt,
+        profiles.handle, profiles.avatarSeed
+      FROM notifications
+      LEFT JOIN profiles ON profiles.userId = notifications.actorId
+      WHERE notifications.userId = ?
+      ORDER BY notifications.id DESC
+      LIMIT ?
+    `).all(userId, LIST_LIMIT) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      kind: row.kind,
+      data: JSON.parse(row.data),
+      createdAt: row.createdAt,
+      read: !!row.readAt,
+      actor: row.handle ? { handle: row.handle, avatarSeed: row.avatarSeed } : null,
+    }));
+  };
+
+  const unreadCount = (userId: string) =>
+    (db.prepare("SELECT COUNT(*) AS count FROM notifications WHERE userId = ? AND readAt IS NULL").get(userId) as { count: number }).count;
+
+  const markAllRead = (userId: string) => {
+    db.prepare("UPDATE notifications SET readAt = CURRENT_TIMESTAMP WHERE userId = ? AND readAt IS NULL").run(userId);
+  };
+
+  return { notify, list, unreadCount, markAllRead };
+};
+
+export type Notifications = ReturnType<typeof createNotifications>;
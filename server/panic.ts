@@ -0,0 +1,127 @@
+import type { Database } from "better-sqlite3";
+import type { Notifications } from "./notifications";
+
+// Panic alerts: from the panic screen a member can tell chosen accountability
+// partners that they are struggling right now. Partners answer with one of a few
+// canned replies, which the member sees while the panic screen is still open.
+
+// The client translates these keys; free text would need the content filter and moderation.
+export const CANNED_REPLIES = ["here_for_you", "you_got_this", "breathe", "call_me", "proud_of_you"] as const;
+export type CannedReply = typeof CANNED_REPLIES[number];
+
+// Replies to an older alert would arrive long after the moment has passed.
+const ALERT_TTL_HOURS = 24;
+
+// Removing a partner also takes back their open alerts, so every partner-side query checks this.
+const STILL_PARTNERS = `EXISTS (
+  SELECT 1 FROM partnerships
+  WHERE partnerships.userId = panic_alerts.userId AND partnerships.partnerId = panic_alert_recipients.partnerId
+)`;
+
+export class PanicError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "PanicError";
+  }
+}
+
+export interface PanicReply {
+  message: CannedReply;
+  createdAt: string;
+  partner: { handle: string; avatarSeed: string } | null;
+}
+
+export const createPanicAlerts = (db: Database, notifications: Notifications) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS panic_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      userId TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(userId) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS panic_alert_recipients (
+      alertId INTEGER,
+      partnerId TEXT,
+      reply TEXT,
+      repliedAt DATETIME,
+      PRIMARY KEY(alertId, partnerId),
+      FOREIGN KEY(alertId) REFERENCES panic_alerts(id),
+      FOREIGN KEY(partnerId) REFERENCES users(id)
+    );
+  `);
+
+  /**
+   * Alerts the given partners, addressed by the ids of the sender's own partnership
+   * rows. Ids that aren't the sender's partners are ignored.
+   */
+  const send = db.transaction((userId: string, partnershipIds: unknown) => {
+    if (!Array.isArray(partnershipIds) || partnershipIds.length === 0) throw new PanicError("Choose at least one partner");
+    const recipients = db.prepare(`
+      SELECT partnerId FROM partnerships
+      WHERE userId = ? AND id IN (SELECT value FROM json_each(?))
+    `).all(userId, JSON.stringify(partnershipIds.map(Number))) as { partnerId: string }[];
+    if (recipients.length === 0) throw new PanicError("Partner not found", 404);
+
+    const alertId = Number(db.prepare("INSERT INTO panic_alerts (userId) VALUES (?)").run(userId).lastInsertRowid);
+    const addRecipient = db.prepare("INSERT INTO panic_alert_recipients (alertId, partnerId) VALUES (?, ?)");
+    for (const { partnerId } of recipients) {
+      addRecipient.run(alertId, partnerId);
+      notifications.notify(partnerId, userId, "partner_panic", { alertId });
+    }
+    return { id: alertId, recipients: recipients.length };
+  });
+
+  /** The sender's view of an alert: who was reached and what they answered. */
+  const get = (userId: string, alertId: number) => {
+    const alert = db.prepare("SELECT id, createdAt FROM panic_alerts WHERE id = ? AND userId = ?").get(alertId, userId) as any;
+    if (!alert) throw new PanicError("Alert not found", 404);
+    const replies = db.prepare(`
+      SELECT panic_alert_recipients.reply, panic_alert_recipients.repliedAt, profiles.handle, profiles.avatarSeed
+      FROM panic_alert_recipients
+      LEFT JOIN profiles ON profiles.userId = panic_alert_recipients.partnerId
+      WHERE alertId = ? AND reply IS NOT NULL
+      ORDER BY repliedAt
+    `).all(alertId) as any[];
+    return {
+      id: alert.id,
+      createdAt: alert.createdAt,
+      replies: replies.map((row): PanicReply => ({
+        message: row.reply,
+        createdAt: row.repliedAt,
+        partner: row.handle ? { handle: row.handle, avatarSeed: row.avatarSeed } : null,
+      })),
+    };
+  };
+
+  /** A partner answers an alert they received; each partner replies once. */
+  const reply = db.transaction((partnerId: string, alertId: number, message: unknown) => {
+    if (!CANNED_REPLIES.includes(message as CannedReply)) throw new PanicError("Unknown reply");
+    const recipient = db.prepare(`
+      SELECT panic_alert_recipients.reply, panic_alerts.userId,
+        panic_alerts.createdAt > datetime('now', ?) AS active
+      FROM panic_alert_recipients
+      JOIN panic_alerts ON panic_alerts.id = panic_alert_recipients.alertId
+      WHERE alertId = ? AND partnerId = ? AND ${STILL_PARTNERS}
+    `).get(`-${ALERT_TTL_HOURS} hours`, alertId, partnerId) as any;
+    if (!recipient) throw new PanicError("Alert not found", 404);
+    if (!recipient.active) throw new PanicError("This alert has expired", 410);
+    if (recipient.reply) throw new PanicError("You already replied", 409);
+
+    db.prepare(`
+      UPDATE panic_alert_recipients SET reply = ?, repliedAt = CURRENT_TIMESTAMP WHERE alertId = ? AND partnerId = ?
+    `).run(message, alertId, partnerId);
+    // Also lands in the sender's notifications in case the panic screen was already closed.
+    notifications.notify(recipient.userId, partnerId, "panic_reply", { alertId, message });
+  });
+
+  /** Recent alerts the partner can still answer, so the client only offers replies for those. */
+  const openAlerts = (partnerId: string) =>
+    (db.prepare(`
+      SELECT alertId FROM panic_alert_recipients
+      JOIN panic_alerts ON panic_alerts.id = panic_alert_recipients.alertId
+      WHERE partnerId = ? AND reply IS NULL AND panic_alerts.createdAt > datetime('now', ?) AND ${STILL_PARTNERS}
+    `).all(partnerId, `-${ALERT_TTL_HOURS} hours`) as { alertId: number }[]).map(row => row.alertId);
+
+  return { send, get, reply, openAlerts };
+};
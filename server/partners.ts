@@ -0,0 +1,186 @@
+import crypto from "crypto";
+import type { Database } from "better-sqlite3";
+import type { AppData } from "../src/appData";
+import type { Notifications } from "./notifications";
+
+// Accountability partners: a member invites one or two people they trust with a
+// short code. A partnership is stored as two rows, one per direction, and each row
+// says whether its owner shares their progress with the other. Shared progress is
+// the current streak, badges and relapse dates; journal entries and relapse notes
+// are never exposed.
+
+export const MAX_PARTNERS = 3;
+const INVITE_TTL_DAYS = 7;
+// No 0/O or 1/I, so codes survive being read out or typed from a screenshot.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+const RECENT_RELAPSES = 5;
+// Older relapses arriving in a sync are history (e.g. an imported backup), not news.
+const RELAPSE_NOTIFY_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+export class PartnerError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "PartnerError";
+  }
+}
+
+export interface PartnerProgress {
+  streakStartedAt: string | null;
+  bestStreakSeconds: number;
+  unlockedBadges: string[];
+  recentRelapses: string[];
+}
+
+export interface Partner {
+  id: number;
+  handle: string;
+  avatarSeed: string;
+  since: string;
+  // Whether the viewer shares their own progress with this partner.
+  sharing: boolean;
+  // The partner's progress, or null while they don't share it.
+  progress: PartnerProgress | null;
+}
+
+const randomCode = () => Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join("");
+
+// Accepts codes typed in lower case or with the dash the app displays.
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+export const createPartners = (db: Database, notifications: Notifications) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS partner_invites (
+      code TEXT PRIMARY KEY,
+      userId TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expiresAt DATETIME,
+      FOREIGN KEY(userId) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS partnerships (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      userId TEXT,
+      partnerId TEXT,
+      shareProgress INTEGER NOT NULL DEFAULT 0,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(userId, partnerId),
+      FOREIGN KEY(userId) REFERENCES users(id),
+      FOREIGN KEY(partnerId) REFERENCES users(id)
+    );
+  `);
+
+  const partnerCount = (userId: string) =>
+    (db.prepare("SELECT COUNT(*) AS count FROM partnerships WHERE userId = ?").get(userId) as { count: number }).count;
+
+  const currentInvite = (userId: string) =>
+    db.prepare(`
+      SELECT code, expiresAt FROM partner_invites WHERE userId = ? AND expiresAt > CURRENT_TIMESTAMP
+    `).get(userId) as { code: string; expiresAt: string } | undefined ?? null;
+
+  /** Replaces the user's invite with a fresh code; only the newest code works. */
+  const createInvite = db.transaction((userId: string) => {
+    if (partnerCount(userId) >= MAX_PARTNERS) throw new PartnerError(`You can have up to ${MAX_PARTNERS} partners`);
+    db.prepare("DELETE FROM partner_invites WHERE userId = ?").run(userId);
+    let code = randomCode();
+    while (db.prepare("SELECT 1 FROM partner_invites WHERE code = ?").get(code)) code = randomCode();
+    db.prepare(`
+      INSERT INTO partner_invites (code, userId, expiresAt) VALUES (?, ?, datetime('now', ?))
+    `).run(code, userId, `+${INVITE_TTL_DAYS} days`);
+    return currentInvite(userId)!;
+  });
+
+  const progressOf = (userId: string): PartnerProgress => {
+    const state = db.prepare("SELECT startDate, bestStreakSeconds, unlockedBadges FROM tracker_state WHERE userId = ?").get(userId) as any;
+    const relapses = db.prepare(`
+      SELECT date FROM tracker_relapses WHERE userId = ? ORDER BY date DESC LIMIT ?
+    `).all(userId, RECENT_RELAPSES) as { date: string }[];
+    return {
+      streakStartedAt: state?.startDate ?? null,
+      bestStreakSeconds: state?.bestStreakSeconds ?? 0,
+      unlockedBadges: state ? JSON.parse(state.unlockedBadges) : [],
+      recentRelapses: relapses.map(r => r.date),
+    };
+  };
+
+  const list = (userId: string): Partner[] => {
+    const rows = db.prepare(`
+      SELECT mine.id, mine.partnerId, mine.shareProgress, mine.createdAt, theirs.shareProgress AS theyShare,
+        profiles.handle, profiles.avatarSeed
+      FROM partnerships mine
+      JOIN partnerships theirs ON theirs.userId = mine.partnerId AND theirs.partnerId = mine.userId
+      LEFT JOIN profiles ON profiles.userId = mine.partnerId
+      WHERE mine.userId = ?
+      ORDER BY mine.id
+    `).all(userId) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      handle: row.handle,
+      avatarSeed: row.avatarSeed,
+      since: row.createdAt,
+      sharing: !!row.shareProgress,
+      progress: row.theyShare ? progressOf(row.partnerId) : null,
+    }));
+  };
+
+  const accept = db.transaction((userId: string, code: unknown) => {
+    if (typeof code !== "string" || !code.trim()) throw new PartnerError("Invite code required");
+    const invite = db.prepare(`
+      SELECT userId FROM partner_invites WHERE code = ? AND expiresAt > CURRENT_TIMESTAMP
+    `).get(normalizeCode(code)) as { userId: string } | undefined;
+    if (!invite) throw new PartnerError("This invite code is invalid or has expired", 404);
+    if (invite.userId === userId) throw new PartnerError("You can't be your own partner");
+    if (db.prepare("SELECT 1 FROM partnerships WHERE userId = ? AND partnerId = ?").get(userId, invite.userId)) {
+      throw new PartnerError("You are already partners", 409);
+    }
+    if (partnerCount(userId) >= MAX_PARTNERS || partnerCount(invite.userId) >= MAX_PARTNERS) {
+      throw new PartnerError(`Partners are limited to ${MAX_PARTNERS} per person`);
+    }
+
+    const insert = db.prepare("INSERT INTO partnerships (userId, partnerId) VALUES (?, ?)");
+    insert.run(userId, invite.userId);
+    insert.run(invite.userId, userId);
+    db.prepare("DELETE FROM partner_invites WHERE code = ?").run(normalizeCode(code));
+    notifications.notify(invite.userId, userId, "partner_joined");
+  });
+
+  // Both directions of a partnership are addressed by the id of the caller's own row.
+  const findOwn = (userId: string, id: number) => {
+    const row = db.prepare("SELECT partnerId FROM partnerships WHERE id = ? AND userId = ?").get(id, userId) as { partnerId: string } | undefined;
+    if (!row) throw new PartnerError("Partner not found", 404);
+    return row;
+  };
+
+  const setSharing = (userId: string, id: number, share: unknown) => {
+    if (typeof share !== "boolean") throw new PartnerError("sharing must be true or false");
+    findOwn(userId, id);
+    db.prepare("UPDATE partnerships SET shareProgress = ? WHERE id = ?").run(share ? 1 : 0, id);
+  };
+
+  const remove = db.transaction((userId: string, id: number) => {
+    const { partnerId } = findOwn(userId, id);
+    db.prepare(`
+      DELETE FROM partnerships WHERE (userId = ? AND partnerId = ?) OR (userId = ? AND partnerId = ?)
+    `).run(userId, partnerId, partnerId, userId);
+  });
+
+  /** Tells partners the user shares with about badges and relapses that are new in this save. */
+  const onTrackerSaved = (userId: string, previous: AppData | null, next: AppData) => {
+    // The first sync of an account uploads its whole history at once.
+    if (!previous) return;
+    const recipients = db.prepare("SELECT partnerId FROM partnerships WHERE userId = ? AND shareProgress = 1").all(userId) as { partnerId: string }[];
+    if (!recipients.length) return;
+
+    const badges = next.unlockedBadges.filter(badge => !previous.unlockedBadges.includes(badge));
+    const known = new Set(previous.relapses.map(r => new Date(r.date).toISOString()));
+    const relapses = next.relapses.filter(r =>
+      !known.has(new Date(r.date).toISOString()) && Date.now() - new Date(r.date).getTime() < RELAPSE_NOTIFY_WINDOW_MS);
+
+    for (const { partnerId } of recipients) {
+      for (const badge of badges) notifications.notify(partnerId, userId, "partner_badge", { badge });
+      for (const relapse of relapses) notifications.notify(partnerId, userId, "partner_relapse", { date: relapse.date });
+    }
+  };
+
+  return { currentInvite, createInvite, list, accept, setSharing, remove, onTrackerSaved };
+};
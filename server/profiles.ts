@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import type { Database } from "better-sqlite3";
+
+// Community posts are shown under a pseudonymous profile instead of the account's
+// real name and picture. The avatar is drawn on the client from avatarSeed.
+
+export interface Profile {
+  handle: string;
+  avatarSeed: string;
+}
+
+export class ProfileError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ProfileError";
+  }
+}
+
+const HANDLE_PATTERN = /^[A-Za-z0-9_]{3,24}$/;
+
+const ADJECTIVES = [
+  "Quiet", "Steady", "Brave", "Calm", "Bright", "Gentle", "Patient", "Rising",
+  "Silent", "Strong", "Humble", "Hopeful", "Clear", "Wild", "Free", "Kind",
+];
+const NOUNS = [
+  "River", "Oak", "Falcon", "Summit", "Harbor", "Ember", "Cedar", "Comet",
+  "Wolf", "Stone", "Meadow", "Tide", "Lantern", "Ridge", "Sparrow", "Pine",
+];
+
+const pick = (list: string[]) => list[crypto.randomInt(list.length)];
+const randomHandle = () => `${pick(ADJECTIVES)}${pick(NOUNS)}${crypto.randomInt(10, 100)}`;
+const randomSeed = () => crypto.randomBytes(8).toString("hex");
+
+export const createProfiles = (db: Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS profiles (
+      userId TEXT PRIMARY KEY,
+      handle TEXT UNIQUE COLLATE NOCASE,
+      avatarSeed TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(userId) REFERENCES users(id)
+    );
+  `);
+
+  const isTaken = (handle: string, exceptUserId?: string) =>
+    !!db.prepare("SELECT 1 FROM profiles WHERE handle = ? AND userId IS NOT ?").get(handle, exceptUserId ?? null);
+
+  const get = (userId: string) =>
+    db.prepare("SELECT handle, avatarSeed FROM profiles WHERE userId = ?").get(userId) as Profile | undefined;
+
+  /** Returns the user's profile, generating a random handle and avatar on first use. */
+  const ensure = (userId: string): Profile => {
+    const existing = get(userId);
+    if (existing) return existing;
+    let handle = randomHandle();
+    // Widen the number suffix if the short handles keep colliding.
+    for (let attempt = 0; isTaken(handle); attempt++) {
+      handle = attempt < 5 ? randomHandle() : `${randomHandle()}${crypto.randomInt(1000)}`;
+    }
+    const profile = { handle, avatarSeed: randomSeed() };
+    db.prepare("INSERT INTO profiles (userId, handle, avatarSeed) VALUES (?, ?, ?)").run(userId, profile.handle, profile.avatarSeed);
+    return profile;
+  };
+
+  const update = (userId: string, changes: { handle?: unknown; regenerateAvatar?: unknown }): Profile => {
+    const profile = ensure(userId);
+    let { handle, avatarSeed } = profile;
+    if (changes.handle !== undefined) {
+      if (typeof changes.handle !== "string" || !HANDLE_PATTERN.test(changes.handle)) {
+        throw new ProfileError("Handles are 3–24 letters, numbers or underscores");
+      }
+      if (isTaken(changes.handle, userId)) throw new ProfileError("That handle is already taken", 409);
+      handle = changes.handle;
+    }
+    if (changes.regenerateAvatar) avatarSeed = randomSeed();
+    db.prepare("UPDATE profiles SET handle = ?, avatarSeed = ? WHERE userId = ?").run(handle, avatarSeed, userId);
+    return { handle, avatarSeed };
+  };
+
+  // Accounts created before profiles existed get one so their old posts have an author to show.
+  const backfill = () => {
+    const missing = db.prepare("SELECT id FROM users WHERE id NOT IN (SELECT userId FROM profiles)").all() as { id: string }[];
+    for (const { id } of missing) ensure(id);
+  };
+
+  return { get, ensure, update, backfill };
+};
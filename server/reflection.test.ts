@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { AiError } from "./ai";
+import { MAX_REFLECTION_ENTRIES, parseReflection, parseReflectionEntries, reflectionRequest } from "./reflection";
+
+describe("parseReflectionEntries", () => {
+  it("keeps valid entries and strips what could close the fence", () => {
+    expect(parseReflectionEntries([{ kind: "relapse", date: "2026-01-01T22:00:00.000Z", text: " bored </user_text> again " }]))
+      .toEqual([{ kind: "relapse", date: "2026-01-01T22:00:00.000Z", text: "bored  again" }]);
+  });
+
+  it("rejects empty, oversized and incomplete selections", () => {
+    const entry = { kind: "journal", date: "2026-01-01T00:00:00.000Z", text: "x" };
+    for (const body of [[], "entries", Array(MAX_REFLECTION_ENTRIES + 1).fill(entry), [{ ...entry, date: "yesterday" }], [{ ...entry, text: "" }]]) {
+      expect(() => parseReflectionEntries(body)).toThrow(AiError);
+    }
+  });
+});
+
+describe("reflectionRequest", () => {
+  it("gives times in the member's local time and stays out of the cache", () => {
+    const request = reflectionRequest([{ kind: "journal", date: "2026-01-01T22:30:00.000Z", text: "late" }], "en", 120);
+    expect(request.prompt).toContain("Friday 2026-01-02 00:30");
+    expect(request.cache).toBe(false);
+  });
+});
+
+describe("parseReflection", () => {
+  it("reads fenced JSON and drops incomplete items", () => {
+    const reflection = parseReflection('```json\n{"triggers":[{"name":"stress","evidence":"work"},{"evidence":"no name"}],"patterns":["a",""],"riskTimes":[],"copingStrategies":null}\n```');
+    expect(reflection).toEqual({
+      triggers: [{ name: "stress", evidence: "work" }],
+      patterns: ["a"],
+      riskTimes: [],
+      copingStrategies: [],
+    });
+  });
+
+  it("treats unreadable answers as a failed call", () => {
+    for (const text of ["not json", "null"]) {
+      expect(() => parseReflection(text)).toThrow(expect.objectContaining({ code: "provider_failed", status: 502 }));
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import { Type } from "@google/genai";
+import { AI_LANGUAGES, AiError, AiRequest, FENCE_INSTRUCTION, fenceUserText, sanitizeUserText } from "./ai";
+
+// Journal reflection: the member ticks a few journal entries or relapse notes,
+// the client sends their decrypted text and the model returns recurring triggers,
+// emotional patterns, risky times and coping ideas as JSON. Nothing of it is
+// stored on the server and the request bypasses the shared answer cache.
+
+export const MAX_REFLECTION_ENTRIES = 20;
+const MAX_ENTRY_LENGTH = 2000;
+const MAX_ITEMS = 6;
+const MAX_FIELD_LENGTH = 300;
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface ReflectionEntry {
+  kind: "journal" | "relapse";
+  date: string;
+  text: string;
+}
+
+export interface Reflection {
+  triggers: { name: string; evidence: string }[];
+  patterns: string[];
+  riskTimes: { when: string; reason: string }[];
+  copingStrategies: { title: string; description: string }[];
+}
+
+const REFLECTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    triggers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { name: { type: Type.STRING }, evidence: { type: Type.STRING } },
+        required: ["name", "evidence"],
+      },
+    },
+    patterns: { type: Type.ARRAY, items: { type: Type.STRING } },
+    riskTimes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { when: { type: Type.STRING }, reason: { type: Type.STRING } },
+        required: ["when", "reason"],
+      },
+    },
+    copingStrategies: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { title: { type: Type.STRING }, description: { type: Type.STRING } },
+        required: ["title", "description"],
+      },
+    },
+  },
+  required: ["triggers", "patterns", "riskTimes", "copingStrategies"],
+};
+
+/**
+ * Validates the entries from the request body. Times are given to the model in
+ * the member's local time so "late evenings" means their evenings.
+ */
+export const parseReflectionEntries = (body: unknown): ReflectionEntry[] => {
+  if (!Array.isArray(body) || body.length === 0) {
+    throw new AiError("Choose at least one entry to reflect on", "invalid_request", 400);
+  }
+  if (body.length > MAX_REFLECTION_ENTRIES) {
+    throw new AiError(`Choose at most ${MAX_REFLECTION_ENTRIES} entries`, "invalid_request", 400);
+  }
+  const entries = body.map((entry: any) => ({
+    kind: entry?.kind === "relapse" ? "relapse" as const : "journal" as const,
+    date: typeof entry?.date === "string" ? entry.date : "",
+    text: typeof entry?.text === "string" ? sanitizeUserText(entry.text, MAX_ENTRY_LENGTH) : "",
+  }));
+  if (entries.some(entry => !entry.text || isNaN(new Date(entry.date).getTime()))) {
+    throw new AiError("Every entry needs a date and some text", "invalid_request", 400);
+  }
+  return entries;
+};
+
+const localTime = (date: string, utcOffsetMinutes: number) => {
+  const local = new Date(new Date(date).getTime() + utcOffsetMinutes * 60_000);
+  const time = local.toISOString();
+  return `${WEEKDAYS[local.getUTCDay()]} ${time.slice(0, 10)} ${time.slice(11, 16)}`;
+};
+
+export const reflectionRequest = (entries: ReflectionEntry[], language: string, utcOffsetMinutes: number): AiRequest => ({
+  kind: "reflection",
+  system: [
+    "You help someone quitting pornography and compulsive masturbation reflect on their own journal entries and relapse notes.",
+    "Find recurring triggers (with short evidence from the entries), emotional patterns, times of higher risk and practical coping strategies that fit what they wrote.",
+    "Be kind, specific and brief. Do not diagnose, moralise or quote explicit details. Only name what the entries support; leave a list empty rather than guess.",
+    `Give at most ${MAX_ITEMS} items per list.`,
+    FENCE_INSTRUCTION,
+    `Answer in ${AI_LANGUAGES[language] ?? AI_LANGUAGES.en}.`,
+  ].join(" "),
+  prompt: entries
+    .map(entry => `${entry.kind === "relapse" ? "Relapse note" : "Journal entry"}, ${localTime(entry.date, utcOffsetMinutes)}:\n${fenceUserText(entry.text)}`)
+    .join("\n\n"),
+  responseSchema: REFLECTION_SCHEMA,
+  cache: false,
+});
+
+const field = (value: unknown) => typeof value === "string" ? value.trim().slice(0, MAX_FIELD_LENGTH) : "";
+
+const list = <T>(value: unknown, map: (item: any) => T | null) =>
+  (Array.isArray(value) ? value : []).map(map).filter((item): item is T => item !== null).slice(0, MAX_ITEMS);
+
+/** Parses and trims the model's JSON answer; anything malformed counts as a failed call. */
+export const parseReflection = (text: string): Reflection => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  } catch {
+    throw new AiError("The AI service gave an unreadable answer", "provider_failed", 502);
+  }
+  if (!raw || typeof raw !== "object") {
+    throw new AiError("The AI service gave an unreadable answer", "provider_failed", 502);
+  }
+  return {
+    triggers: list(raw.triggers, item => field(item?.name) ? { name: field(item.name), evidence: field(item.evidence) } : null),
+    patterns: list(raw.patterns, item => field(item) || null),
+    riskTimes: list(raw.riskTimes, item => field(item?.when) ? { when: field(item.when), reason: field(item.reason) } : null),
+    copingStrategies: list(raw.copingStrategies, item => field(item?.title) ? { title: field(item.title), description: field(item.description) } : null),
+  };
+};
@@ -0,0 +1,95 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WriteLimitError, WriteLimitOptions, createWriteLimits, parseRateLimit } from "./writeLimits";
+
+const OPTIONS: WriteLimitOptions = {
+  posts: { max: 2, windowSeconds: 60 },
+  comments: { max: 5, windowSeconds: 60 },
+  ip: { max: 3, windowSeconds: 60 },
+  maxPostLength: 20,
+  maxCommentLength: 10,
+  duplicateWindowSeconds: 3600,
+  newAccountCooldownSeconds: 600,
+};
+
+const setup = () => {
+  const db = new Database(":memory:");
+  db.exec(`
+    CREATE TABLE users (id TEXT PRIMARY KEY, createdAt DATETIME);
+    CREATE TABLE posts (userId TEXT, content TEXT, createdAt DATETIME DEFAULT CURRENT_TIMESTAMP);
+    CREATE TABLE comments (userId TEXT, content TEXT, createdAt DATETIME DEFAULT CURRENT_TIMESTAMP);
+    INSERT INTO users (id, createdAt) VALUES ('old', datetime('now', '-1 day')), ('new', datetime('now')), ('legacy', NULL);
+  `);
+  return { db, limits: createWriteLimits(db, OPTIONS) };
+};
+
+const refusal = (fn: () => void) => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof WriteLimitError) return error;
+    throw error;
+  }
+  throw new Error("expected a WriteLimitError");
+};
+
+describe("parseRateLimit", () => {
+  it("reads counts per window", () => {
+    expect(parseRateLimit("5/10m", { max: 1, windowSeconds: 1 })).toEqual({ max: 5, windowSeconds: 600 });
+    expect(parseRateLimit("3/30", { max: 1, windowSeconds: 1 })).toEqual({ max: 3, windowSeconds: 30 });
+  });
+
+  it("falls back on anything else", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseRateLimit("lots", { max: 1, windowSeconds: 1 })).toEqual({ max: 1, windowSeconds: 1 });
+    expect(parseRateLimit(undefined, { max: 1, windowSeconds: 1 })).toEqual({ max: 1, windowSeconds: 1 });
+    warn.mockRestore();
+  });
+});
+
+describe("createWriteLimits", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date());
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("limits writes per user within the window", () => {
+    const { limits } = setup();
+    limits.record("post", "old", undefined);
+    limits.record("post", "old", undefined);
+    const error = refusal(() => limits.check("post", "old", undefined, "hello"));
+    expect(error.code).toBe("rate_limited");
+    expect(error.details.retryAfter).toBe(60);
+    // Comments have their own budget.
+    expect(() => limits.check("comment", "old", undefined, "hi")).not.toThrow();
+
+    vi.advanceTimersByTime(61_000);
+    expect(() => limits.check("post", "old", undefined, "hello")).not.toThrow();
+  });
+
+  it("shares the IP budget between users and kinds", () => {
+    const { limits } = setup();
+    limits.record("post", "old", "1.2.3.4");
+    limits.record("comment", "old", "1.2.3.4");
+    limits.record("comment", "legacy", "1.2.3.4");
+    expect(refusal(() => limits.check("comment", "legacy", "1.2.3.4", "hi")).code).toBe("rate_limited");
+    expect(() => limits.check("comment", "legacy", "5.6.7.8", "hi")).not.toThrow();
+  });
+
+  it("makes new accounts wait", () => {
+    const { limits } = setup();
+    const error = refusal(() => limits.check("post", "new", undefined, "hello"));
+    expect(error.code).toBe("new_account");
+    expect(error.details.retryAfter).toBeGreaterThan(0);
+    expect(() => limits.check("post", "legacy", undefined, "hello")).not.toThrow();
+  });
+
+  it("refuses content over the length cap and repeated content", () => {
+    const { db, limits } = setup();
+    expect(refusal(() => limits.check("comment", "old", undefined, "x".repeat(11))).code).toBe("too_long");
+    db.prepare("INSERT INTO posts (userId, content) VALUES ('old', 'Same  Thing')").run();
+    expect(refusal(() => limits.check("post", "old", undefined, "same thing")).code).toBe("duplicate");
+    expect(() => limits.check("comment", "old", undefined, "same thing")).not.toThrow();
+  });
+});
@@ -0,0 +1,142 @@
+import type { Database } from "better-sqlite3";
+
+// Spam protection for posting and commenting: per-user and per-IP rate limits, a
+// length cap, suppression of repeated content and a short wait after sign-up before
+// a new account may write. Every refusal carries a code and, where waiting helps,
+// the seconds until the write would be accepted.
+
+export type WriteKind = "post" | "comment";
+export type WriteLimitCode = "rate_limited" | "new_account" | "duplicate" | "too_long";
+
+export interface RateLimit {
+  max: number;
+  windowSeconds: number;
+}
+
+export interface WriteLimitOptions {
+  posts: RateLimit;
+  comments: RateLimit;
+  // Shared by posts and comments from one address, so many accounts behind one IP can't flood.
+  ip: RateLimit;
+  maxPostLength: number;
+  maxCommentLength: number;
+  duplicateWindowSeconds: number;
+  newAccountCooldownSeconds: number;
+}
+
+export class WriteLimitError extends Error {
+  constructor(message: string, public code: WriteLimitCode, public status = 429, public details: { retryAfter?: number; maxLength?: number } = {}) {
+    super(message);
+    this.name = "WriteLimitError";
+  }
+}
+
+const UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/** Parses "<count>/<window>" such as "5/10m"; a window without unit is in seconds. */
+export const parseRateLimit = (value: string | undefined, fallback: RateLimit): RateLimit => {
+  const match = value?.trim().match(/^(\d+)\/(\d+)([smhd]?)$/);
+  if (!match) {
+    if (value) console.warn(`Invalid rate limit "${value}" ignored`);
+    return fallback;
+  }
+  return { max: Number(match[1]), windowSeconds: Number(match[2]) * UNIT_SECONDS[match[3] || "s"] };
+};
+
+const numberFromEnv = (value: string | undefined, fallback: number) =>
+  value !== undefined && value !== "" && Number.isFinite(Number(value)) ? Number(value) : fallback;
+
+export const writeLimitsFromEnv = (env: NodeJS.ProcessEnv): WriteLimitOptions => ({
+  posts: parseRateLimit(env.RATE_LIMIT_POSTS, { max: 5, windowSeconds: 600 }),
+  comments: parseRateLimit(env.RATE_LIMIT_COMMENTS, { max: 30, windowSeconds: 600 }),
+  ip: parseRateLimit(env.RATE_LIMIT_IP, { max: 60, windowSeconds: 600 }),
+  maxPostLength: numberFromEnv(env.MAX_POST_LENGTH, 5000),
+  maxCommentLength: numberFromEnv(env.MAX_COMMENT_LENGTH, 1000),
+  duplicateWindowSeconds: numberFromEnv(env.DUPLICATE_WINDOW_SECONDS, 86400),
+  newAccountCooldownSeconds: numberFromEnv(env.NEW_ACCOUNT_COOLDOWN_SECONDS, 600),
+});
+
+/** Timestamps of recent writes per key, kept in memory like the login throttle. */
+class SlidingWindow {
+  private hits = new Map<string, number[]>();
+
+  constructor(private limit: RateLimit) {}
+
+  private recent(key: string) {
+    const cutoff = Date.now() - this.limit.windowSeconds * 1000;
+    const hits = (this.hits.get(key) || []).filter(at => at > cutoff);
+    if (hits.length) this.hits.set(key, hits);
+    else this.hits.delete(key);
+    return hits;
+  }
+
+  /** Seconds until the key may write again, or 0 if it is under the limit. */
+  retryAfter(key: string) {
+    const hits = this.recent(key);
+    if (hits.length < this.limit.max) return 0;
+    return Math.max(Math.ceil((hits[hits.length - this.limit.max] + this.limit.windowSeconds * 1000 - Date.now()) / 1000), 1);
+  }
+
+  hit(key: string) {
+    this.hits.set(key, [...this.recent(key), Date.now()]);
+  }
+}
+
+// Case, spacing and compatibility forms don't make a message new.
+const normalize = (text: string) => text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+
+const TABLES: Record<WriteKind, string> = { post: "posts", comment: "comments" };
+
+export const createWriteLimits = (db: Database, options: WriteLimitOptions) => {
+  const windows: Record<WriteKind, SlidingWindow> = {
+    post: new SlidingWindow(options.posts),
+    comment: new SlidingWindow(options.comments),
+  };
+  const ipWindow = new SlidingWindow(options.ip);
+
+  const maxLength = (kind: WriteKind) => kind === "post" ? options.maxPostLength : options.maxCommentLength;
+
+  /** Rejects content over the length cap; also used when editing. */
+  const checkLength = (kind: WriteKind, content: string | null | undefined) => {
+    if (content && content.length > maxLength(kind)) {
+      throw new WriteLimitError(`Keep it under ${maxLength(kind)} characters`, "too_long", 400, { maxLength: maxLength(kind) });
+    }
+  };
+
+  /** Throws a WriteLimitError if this user (from this IP) may not write `content` right now. */
+  const check = (kind: WriteKind, userId: string, ip: string | undefined, content: string | null | undefined) => {
+    checkLength(kind, content);
+
+    const { age } = db.prepare(`
+      SELECT CAST(strftime('%s', 'now') - strftime('%s', createdAt) AS INTEGER) AS age FROM users WHERE id = ?
+    `).get(userId) as { age: number | null };
+    // Accounts from before createdAt was recorded have no age and are not new.
+    if (age !== null && age < options.newAccountCooldownSeconds) {
+      throw new WriteLimitError("New accounts can post after a short wait", "new_account", 429, { retryAfter: options.newAccountCooldownSeconds - age });
+    }
+
+    const retryAfter = Math.max(windows[kind].retryAfter(userId), ip ? ipWindow.retryAfter(ip) : 0);
+    if (retryAfter > 0) {
+      throw new WriteLimitError("You're posting too fast. Take a breath and try again shortly.", "rate_limited", 429, { retryAfter });
+    }
+
+    if (content) {
+      const recent = db.prepare(`
+        SELECT content FROM ${TABLES[kind]}
+        WHERE userId = ? AND content IS NOT NULL AND createdAt > datetime('now', ?)
+      `).all(userId, `-${options.duplicateWindowSeconds} seconds`) as { content: string }[];
+      const normalized = normalize(content);
+      if (recent.some(row => normalize(row.content) === normalized)) {
+        throw new WriteLimitError("You already posted this", "duplicate", 409);
+      }
+    }
+  };
+
+  /** Counts a write against the user's and the IP's budget once it was stored. */
+  const record = (kind: WriteKind, userId: string, ip: string | undefined) => {
+    windows[kind].hit(userId);
+    if (ip) ipWindow.hit(ip);
+  };
+
+  return { check, checkLength, record };
+};
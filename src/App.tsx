@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Flame, 
   History, 
@@ -27,83 +27,159 @@ import {
   LogOut,
   Sun,
   Moon,
-  Languages
+  Languages,
+  Settings,
+  Download,
+  Upload,
+  Lock,
+  Clock,
+  Shield
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { GoogleGenAI } from "@google/genai";
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
 import { Language, TRANSLATIONS } from './translations';
+import { AppData, ExerciseSession, INITIAL_DATA, JournalEntry, Relapse, URGE_TRIGGERS, Urge, UrgeTrigger, loadAppData, mergeAppData } from './appData';
+import { URGE_POINTS, pointsFor, urgePoints } from './scoring';
+import { OFFLINE_QUOTES } from './quotes';
+import { EncryptionSettings, MIN_PASSPHRASE_LENGTH, SecretHash, createAppDataEncryptor, createEncryptionSettings, createSecretHash, decryptAppData, isEncrypted, unlockWithPassphrase, verifySecret } from './crypto';
+import LockScreen from './components/LockScreen';
+import DecoyScreen from './components/DecoyScreen';
+import Avatar from './components/Avatar';
+import ItemMenu from './components/ItemMenu';
+import ModerationPanel from './components/ModerationPanel';
+import PartnersPanel from './components/PartnersPanel';
+import GroupsPanel, { Group } from './components/GroupsPanel';
+import Leaderboard from './components/Leaderboard';
+import ReflectionPanel from './components/ReflectionPanel';
+import PanicChat from './components/PanicChat';
+import ExerciseEngine from './components/ExerciseEngine';
+import PanicAlert from './components/PanicAlert';
+import ReportModal, { ReportReason } from './components/ReportModal';
+import ReactionBar, { ReactionKind, Reactions, toggleReaction } from './components/ReactionBar';
+import { ImportDiff, diffAppData, downloadFile, exportAppData, journalToCsv, parseImportFile, relapsesToCsv } from './dataTransfer';
 
 // --- Types ---
 interface User {
   id: string;
   name: string;
-  email: string;
-  picture: string;
+  email: string | null;
+  picture: string | null;
+  role: 'member' | 'admin';
+  // Set when moderators suspended the account from the community.
+  bannedAt: string | null;
 }
 
+interface AuthProviderInfo {
+  id: string;
+  kind: 'oauth' | 'local';
+  label: string;
+}
+
+// The pseudonymous community profile; real names and accounts are never sent with posts.
+interface Profile {
+  handle: string;
+  avatarSeed: string;
+}
+
+// Deleted posts and comments come back as tombstones with the author and content cleared.
+// `author` is also null on posts published anonymously.
 interface Comment {
   id: number;
   postId: number;
-  userId: string;
-  userName: string;
-  userPicture: string;
-  content: string;
+  author: Profile | null;
+  mine: boolean;
+  content: string | null;
   createdAt: string;
+  editedAt: string | null;
+  deleted: boolean;
+  reactions: Reactions;
+  // Hidden pending moderation; only its author sees the content.
+  hidden: boolean;
+}
+
+interface PostImage {
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
 }
 
 interface Post {
   id: number;
-  userId: string;
-  userName: string;
-  userPicture: string;
-  content: string;
-  image: string | null;
+  // Null for posts in the public feed.
+  groupId: number | null;
+  author: Profile | null;
+  mine: boolean;
+  content: string | null;
+  image: PostImage | null;
   createdAt: string;
+  editedAt: string | null;
+  deleted: boolean;
+  reactions: Reactions;
+  hidden: boolean;
+  commentCount: number;
+  // Only the latest few; older ones are fetched page by page on demand.
   comments: Comment[];
 }
 
-interface Relapse {
-  date: string;
-  note: string;
-}
-
-interface JournalEntry {
-  date: string;
-  content: string;
-}
-
-interface AppData {
-  startDate: string | null;
-  bestStreakSeconds: number;
-  relapses: Relapse[];
-  journal: JournalEntry[];
-  points: number;
-  unlockedBadges: string[];
+interface AppLockSettings {
+  secret: SecretHash;
+  numeric: boolean;
+  autoLockMinutes: number;
+  lockOnHide: boolean;
 }
 
 // --- Constants ---
 
-const INITIAL_DATA: AppData = {
-  startDate: null,
-  bestStreakSeconds: 0,
-  relapses: [],
-  journal: [],
-  points: 0,
-  unlockedBadges: [],
+// Idle minutes before the app lock engages; 0 means never.
+const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30];
+
+// Everything except the ticking best streak, so a running clock doesn't trigger a sync every second.
+const syncKeyOf = (data: AppData) => JSON.stringify({ ...data, bestStreakSeconds: 0 });
+
+// Keeps the unparseable original around so nothing is lost when stored data has to be repaired.
+const backupRawData = (raw: string) => {
+  const key = `nofap_data_backup_${Date.now()}`;
+  try {
+    localStorage.setItem(key, raw);
+  } catch (err) {
+    console.error("Backing up stored data failed", err);
+  }
+  return key;
 };
 
 // --- Components ---
 
 export default function App() {
-  const [data, setData] = useState<AppData>(() => {
-    const saved = localStorage.getItem('nofap_data');
-    if (saved) {
-      const parsed = JSON.parse(saved);
-      return { ...INITIAL_DATA, ...parsed };
-    }
-    return INITIAL_DATA;
+  const [initialLoad] = useState(() => loadAppData(localStorage.getItem('nofap_data'), backupRawData));
+  const [data, setData] = useState<AppData>(initialLoad.data);
+  const [recoveryBackupKey, setRecoveryBackupKey] = useState<string | null>(initialLoad.backupKey);
+  // The account the local copy was last synced with; null while it has only been used logged out.
+  const [dataOwner, setDataOwner] = useState<string | null>(() => localStorage.getItem('nofap_data_owner'));
+
+  // Passphrase lock: while a passphrase is set but no key is in memory, `data` holds ciphertext.
+  const [encryptionSettings, setEncryptionSettings] = useState<EncryptionSettings | null>(() => {
+    const saved = localStorage.getItem('ascend_encryption');
+    return saved ? JSON.parse(saved) : null;
   });
+  const [encryptionKey, setEncryptionKey] = useState<CryptoKey | null>(null);
+  const isDataLocked = !!encryptionSettings && !encryptionKey;
+  const encryptor = useMemo(() => encryptionKey ? createAppDataEncryptor(encryptionKey) : null, [encryptionKey]);
+  const [passphraseForm, setPassphraseForm] = useState({ current: '', next: '', confirm: '' });
+  const [encryptionError, setEncryptionError] = useState<string | null>(null);
+  const [isUpdatingEncryption, setIsUpdatingEncryption] = useState(false);
+
+  // App lock
+  const [lockSettings, setLockSettings] = useState<AppLockSettings | null>(() => {
+    const saved = localStorage.getItem('ascend_lock');
+    return saved ? JSON.parse(saved) : null;
+  });
+  const [isAppLocked, setIsAppLocked] = useState(() => !!localStorage.getItem('ascend_lock'));
+  const [showDecoy, setShowDecoy] = useState(false);
+  const [pinForm, setPinForm] = useState({ current: '', next: '', confirm: '' });
+  const [pinError, setPinError] = useState<string | null>(null);
+  const lastActivity = useRef(Date.now());
+  const lastPanicTap = useRef(0);
 
   const [now, setNow] = useState(new Date());
   const [showRelapseModal, setShowRelapseModal] = useState(false);
@@ -113,6 +189,16 @@ export default function App() {
   const [activeTab, setActiveTab] = useState<'dashboard' | 'journal' | 'history' | 'badges' | 'community' | 'analytics'>('dashboard');
   const [journalText, setJournalText] = useState('');
   const [showPanicModal, setShowPanicModal] = useState(false);
+  // The urge just logged from the dashboard, while its optional details are being filled in.
+  const [urgeDraft, setUrgeDraft] = useState<Urge | null>(null);
+  const [panicView, setPanicView] = useState<'advice' | 'exercises' | 'chat'>('advice');
+  // Trigger names from the last journal reflection; kept in memory only and given to the panic coach.
+  const [knownTriggers, setKnownTriggers] = useState<string[]>([]);
+  // Timestamp of the panic event logged when the modal was opened.
+  const [panicDate, setPanicDate] = useState<string | null>(null);
+  const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [importPreview, setImportPreview] = useState<{ data: AppData; diff: ImportDiff } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     if (typeof window !== 'undefined') {
       const saved = localStorage.getItem('ascend_theme');
@@ -133,6 +219,19 @@ export default function App() {
   });
 
   const t = TRANSLATIONS[language];
+  const reactionLabels = { support: t.reactionSupport, respect: t.reactionRespect, same_here: t.reactionSameHere };
+  // Content the filter refused comes back with a code, so the reason can be shown in the app language.
+  const filterMessages: Record<string, string> = {
+    blocked_term: t.filterBlockedTerm,
+    blocked_domain: t.filterBlockedDomain,
+    explicit_image: t.filterExplicitImage,
+    rate_limited: t.writeRateLimited,
+    new_account: t.writeNewAccount,
+    duplicate: t.writeDuplicate,
+  };
+  const errorMessage = (body: { error?: string; code?: string; maxLength?: number }) => body.code === 'too_long'
+    ? `${t.writeTooLong} ${body.maxLength}`
+    : (body.code && filterMessages[body.code]) || body.error || t.requestFailed;
 
   const RANKS = useMemo(() => [
     { minDays: 0, name: t.ranks.recruit, color: "text-stone-400 dark:text-stone-500", bg: "bg-stone-50 dark:bg-stone-800/50" },
@@ -178,10 +277,38 @@ export default function App() {
   const [user, setUser] = useState<User | null>(null);
   const [posts, setPosts] = useState<Post[]>([]);
   const [newPostContent, setNewPostContent] = useState('');
-  const [newPostImage, setNewPostImage] = useState<string | null>(null);
+  const [newPostImage, setNewPostImage] = useState<(PostImage & { id: string }) | null>(null);
+  const [isUploadingImage, setIsUploadingImage] = useState(false);
+  const [composerError, setComposerError] = useState<string | null>(null);
   const [isPosting, setIsPosting] = useState(false);
   const [isLoadingPosts, setIsLoadingPosts] = useState(false);
+  const [postsCursor, setPostsCursor] = useState<number | null>(null);
+  const [isLoadingMorePosts, setIsLoadingMorePosts] = useState(false);
+  const [commentCursors, setCommentCursors] = useState<Record<number, number | null>>({});
+  const feedEndRef = useRef<HTMLDivElement>(null);
   const [commentTexts, setCommentTexts] = useState<Record<number, string>>({});
+  const [commentErrors, setCommentErrors] = useState<Record<number, string | null>>({});
+  // When the server's spam limits allow the next post or comment (ms timestamps).
+  const [writeCooldowns, setWriteCooldowns] = useState<Partial<Record<'post' | 'comment', number>>>({});
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [postIdentity, setPostIdentity] = useState<'handle' | 'anonymous'>('handle');
+  const [handleDraft, setHandleDraft] = useState('');
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [reporting, setReporting] = useState<{ kind: 'post' | 'comment'; id: number } | null>(null);
+  const [showModeration, setShowModeration] = useState(false);
+  // The group whose feed the Community tab shows; null is the public feed.
+  const [activeGroup, setActiveGroup] = useState<Group | null>(null);
+  // Read by the live-update handlers, which outlive renders.
+  const feedGroupRef = useRef<number | null>(null);
+  // Pushed by the server over /api/events; drives the badge on the Community tab.
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
+  // Set when the app is opened through a partner invite link (?partner=CODE).
+  const [partnerInviteCode, setPartnerInviteCode] = useState(() => new URLSearchParams(window.location.search).get('partner'));
+  const [editing, setEditing] = useState<{ kind: 'post' | 'comment'; id: number; text: string; error?: string } | null>(null);
+  const [authProviders, setAuthProviders] = useState<AuthProviderInfo[]>([]);
+  const [localAuthMode, setLocalAuthMode] = useState<'login' | 'register'>('login');
+  const [localAuthForm, setLocalAuthForm] = useState({ email: '', password: '', name: '' });
+  const [localAuthError, setLocalAuthError] = useState<string | null>(null);
 
   // Auth Check
   useEffect(() => {
@@ -191,13 +318,57 @@ export default function App() {
       .catch(err => console.error("Auth check failed", err));
   }, []);
 
+  useEffect(() => {
+    fetch("/api/auth/providers")
+      .then(res => res.json())
+      .then(setAuthProviders)
+      .catch(err => console.error("Loading login providers failed", err));
+  }, []);
+
+  useEffect(() => {
+    if (!user) return setProfile(null);
+    fetch("/api/profile")
+      .then(res => res.json())
+      .then((data: Profile) => {
+        setProfile(data);
+        setHandleDraft(data.handle);
+      })
+      .catch(err => console.error("Loading profile failed", err));
+  }, [user?.id]);
+
+  const updateProfile = async (changes: { handle?: string; regenerateAvatar?: boolean }) => {
+    setProfileError(null);
+    try {
+      const res = await fetch("/api/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const body = await res.json();
+      if (!res.ok) return setProfileError(errorMessage(body));
+      setProfile(body);
+      setHandleDraft(body.handle);
+      // Existing posts show the new handle and avatar after a refresh.
+      if (activeTab === 'community') fetchPosts();
+    } catch (err) {
+      console.error("Updating profile failed", err);
+    }
+  };
+
   // Fetch Posts
+  const feedQuery = (separator: '?' | '&') => activeGroup ? `${separator}group=${activeGroup.id}` : '';
+
   const fetchPosts = async () => {
+    const groupId = activeGroup?.id ?? null;
     setIsLoadingPosts(true);
     try {
-      const res = await fetch("/api/posts");
+      const res = await fetch(`/api/posts${feedQuery('?')}`);
       const data = await res.json();
-      setPosts(data);
+      // The user switched feeds while this was loading.
+      if (groupId !== feedGroupRef.current) return;
+      setPosts(data.posts);
+      setPostsCursor(data.nextCursor);
+      setCommentCursors({});
     } catch (err) {
       console.error("Fetch posts failed", err);
     } finally {
@@ -205,11 +376,109 @@ export default function App() {
     }
   };
 
+  const fetchMorePosts = async () => {
+    if (postsCursor === null || isLoadingMorePosts) return;
+    const groupId = activeGroup?.id ?? null;
+    setIsLoadingMorePosts(true);
+    try {
+      const res = await fetch(`/api/posts?before=${postsCursor}${feedQuery('&')}`);
+      const data = await res.json();
+      // The page belongs to the feed that was open when it was requested.
+      if (groupId !== feedGroupRef.current) return;
+      setPosts(prev => [...prev, ...data.posts.filter((p: Post) => !prev.some(existing => existing.id === p.id))]);
+      setPostsCursor(data.nextCursor);
+    } catch (err) {
+      console.error("Fetch more posts failed", err);
+    } finally {
+      setIsLoadingMorePosts(false);
+    }
+  };
+
+  // Comments already shown are only the newest ones, so paging starts before the oldest of them.
+  const fetchEarlierComments = async (post: Post) => {
+    const before = post.id in commentCursors ? commentCursors[post.id] : post.comments[0]?.id;
+    if (before == null) return;
+    try {
+      const res = await fetch(`/api/posts/${post.id}/comments?before=${before}`);
+      const data = await res.json();
+      setPosts(prev => prev.map(p => p.id === post.id ? { ...p, comments: [...data.comments, ...p.comments] } : p));
+      setCommentCursors(prev => ({ ...prev, [post.id]: data.nextCursor }));
+    } catch (err) {
+      console.error("Fetch comments failed", err);
+    }
+  };
+
   useEffect(() => {
+    feedGroupRef.current = activeGroup?.id ?? null;
     if (activeTab === 'community') {
       fetchPosts();
     }
-  }, [activeTab]);
+  }, [activeTab, activeGroup?.id]);
+
+  // Group memberships belong to the account.
+  useEffect(() => setActiveGroup(null), [user?.id]);
+
+  // Partner invites are accepted in the Community tab; the code stays in state until used.
+  useEffect(() => {
+    if (!partnerInviteCode) return;
+    setActiveTab('community');
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
+  // Pushed posts and comments may arrive before or after the response to our own request, so both paths dedupe.
+  const mergePost = (post: Post) => {
+    if (post.groupId !== feedGroupRef.current) return;
+    setPosts(prev => prev.some(p => p.id === post.id) ? prev : [post, ...prev]);
+  };
+
+  const mergeComment = (comment: Comment) => {
+    setPosts(prev => prev.map(p => p.id === comment.postId && !p.comments.some(c => c.id === comment.id)
+      ? { ...p, commentCount: p.commentCount + 1, comments: [...p.comments, comment] }
+      : p));
+  };
+
+  // Live updates. EventSource gives up for good on some errors, so reconnecting is
+  // done by hand with exponential backoff. The session cookie decides which
+  // notifications arrive, so the stream is reopened when the user changes.
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = 1000;
+    const connect = () => {
+      source = new EventSource("/api/events");
+      source.onopen = () => { retryDelay = 1000; };
+      source.onerror = () => {
+        source?.close();
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, 30000);
+      };
+      source.addEventListener('post', (e) => mergePost(JSON.parse(e.data)));
+      source.addEventListener('comment', (e) => mergeComment(JSON.parse(e.data)));
+      source.addEventListener('reactions', (e) => {
+        const { targetType, targetId, reactions } = JSON.parse(e.data);
+        if (targetType === 'post') updatePost(targetId, p => ({ ...p, reactions }));
+        else updateComment(targetId, c => ({ ...c, reactions }));
+      });
+      source.addEventListener('notification', (e) => setUnreadNotifications(JSON.parse(e.data).unread));
+    };
+    connect();
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+      setUnreadNotifications(0);
+    };
+  }, [user?.id]);
+
+  // Infinite scroll: load the next page once the end of the feed comes into view.
+  useEffect(() => {
+    const sentinel = feedEndRef.current;
+    if (!sentinel || postsCursor === null) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) fetchMorePosts();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [postsCursor, isLoadingMorePosts, posts.length]);
 
   // OAuth Listener
   useEffect(() => {
@@ -227,46 +496,107 @@ export default function App() {
     return () => window.removeEventListener('message', handleMessage);
   }, []);
 
-  const handleGoogleLogin = async () => {
+  const handleOAuthLogin = async (providerId: string) => {
     try {
-      const res = await fetch("/api/auth/google/url");
+      const res = await fetch(`/api/auth/${providerId}/url`);
       const { url } = await res.json();
-      window.open(url, 'google_login', 'width=500,height=600');
+      window.open(url, `${providerId}_login`, 'width=500,height=600');
+    } catch (err) {
+      console.error("Login failed", err);
+    }
+  };
+
+  const handleLocalAuth = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLocalAuthError(null);
+    try {
+      const res = await fetch(`/api/auth/local/${localAuthMode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(localAuthForm),
+      });
+      const body = await res.json();
+      if (!res.ok) return setLocalAuthError(body.error);
+      setUser(body.user);
+      setLocalAuthForm({ email: '', password: '', name: '' });
+      fetchPosts();
     } catch (err) {
       console.error("Login failed", err);
     }
   };
 
+  // The tracker lives on in the account, so the device keeps no copy of it after logging out.
+  const clearLocalData = () => {
+    setData(INITIAL_DATA);
+    setDataOwner(null);
+    setEncryptionSettings(null);
+    setEncryptionKey(null);
+    setUrgeDraft(null);
+    setKnownTriggers([]);
+  };
+
   const handleLogout = async () => {
     await fetch("/api/auth/logout", { method: "POST" });
     setUser(null);
+    clearLocalData();
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleLogoutAllDevices = async () => {
+    await fetch("/api/auth/logout-all", { method: "POST" });
+    setUser(null);
+    clearLocalData();
+  };
+
+  // Uploads as soon as an image is picked; the server strips its metadata and returns the stored copy.
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setNewPostImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+    e.target.value = '';
+    if (!file) return;
+    setComposerError(null);
+    setIsUploadingImage(true);
+    try {
+      const form = new FormData();
+      form.append('image', file);
+      const res = await fetch("/api/media", { method: "POST", body: form });
+      const body = await res.json();
+      if (!res.ok) return setComposerError(errorMessage(body));
+      setNewPostImage(body);
+    } catch (err) {
+      console.error("Image upload failed", err);
+      setComposerError(t.uploadFailed);
+    } finally {
+      setIsUploadingImage(false);
     }
   };
 
+  const startWriteCooldown = (kind: 'post' | 'comment', body: { retryAfter?: number }) => {
+    if (body.retryAfter) setWriteCooldowns(prev => ({ ...prev, [kind]: Date.now() + body.retryAfter! * 1000 }));
+  };
+
+  // "m:ss" until the server accepts this kind of write again, or null when it already does.
+  const cooldownLeft = (kind: 'post' | 'comment') => {
+    const seconds = Math.ceil(((writeCooldowns[kind] || 0) - now.getTime()) / 1000);
+    return seconds > 0 ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}` : null;
+  };
+
   const createPost = async () => {
     if (!newPostContent.trim() && !newPostImage) return;
     setIsPosting(true);
+    setComposerError(null);
     try {
       const res = await fetch("/api/posts", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content: newPostContent, image: newPostImage }),
+        body: JSON.stringify({ content: newPostContent, mediaId: newPostImage?.id, identity: postIdentity, groupId: activeGroup?.id }),
       });
-      if (res.ok) {
-        setNewPostContent('');
-        setNewPostImage(null);
-        fetchPosts();
+      const body = await res.json();
+      if (!res.ok) {
+        startWriteCooldown('post', body);
+        return setComposerError(errorMessage(body));
       }
+      setNewPostContent('');
+      setNewPostImage(null);
+      mergePost(body);
     } catch (err) {
       console.error("Create post failed", err);
     } finally {
@@ -277,21 +607,158 @@ export default function App() {
   const addComment = async (postId: number) => {
     const content = commentTexts[postId];
     if (!content?.trim()) return;
+    setCommentErrors(prev => ({ ...prev, [postId]: null }));
     try {
       const res = await fetch(`/api/posts/${postId}/comments`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ content }),
       });
-      if (res.ok) {
-        setCommentTexts(prev => ({ ...prev, [postId]: '' }));
-        fetchPosts();
+      const body = await res.json();
+      if (!res.ok) {
+        startWriteCooldown('comment', body);
+        return setCommentErrors(prev => ({ ...prev, [postId]: errorMessage(body) }));
       }
+      setCommentTexts(prev => ({ ...prev, [postId]: '' }));
+      mergeComment(body);
     } catch (err) {
       console.error("Add comment failed", err);
     }
   };
 
+  const updateComment = (commentId: number, update: (comment: Comment) => Comment) => {
+    setPosts(prev => prev.map(p => p.comments.some(c => c.id === commentId)
+      ? { ...p, comments: p.comments.map(c => c.id === commentId ? update(c) : c) }
+      : p));
+  };
+
+  const saveEdit = async () => {
+    if (!editing?.text.trim()) return;
+    const url = editing.kind === 'post' ? `/api/posts/${editing.id}` : `/api/comments/${editing.id}`;
+    try {
+      const res = await fetch(url, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: editing.text }),
+      });
+      const updated = await res.json();
+      if (!res.ok) return setEditing({ ...editing, error: errorMessage(updated) });
+      if (editing.kind === 'post') {
+        setPosts(prev => prev.map(p => p.id === updated.id ? { ...updated, comments: p.comments } : p));
+      } else {
+        updateComment(updated.id, () => updated);
+      }
+      setEditing(null);
+    } catch (err) {
+      console.error("Edit failed", err);
+    }
+  };
+
+  const deletePost = async (postId: number) => {
+    try {
+      const res = await fetch(`/api/posts/${postId}`, { method: "DELETE" });
+      if (!res.ok) return;
+      setPosts(prev => prev.flatMap(p => {
+        if (p.id !== postId) return [p];
+        // Like the server, keep a tombstone only while there are comments to hold in place.
+        if (!p.comments.some(c => !c.deleted)) return [];
+        return [{ ...p, author: null, mine: false, content: null, image: null, editedAt: null, deleted: true }];
+      }));
+    } catch (err) {
+      console.error("Delete post failed", err);
+    }
+  };
+
+  const deleteComment = async (commentId: number) => {
+    try {
+      const res = await fetch(`/api/comments/${commentId}`, { method: "DELETE" });
+      if (!res.ok) return;
+      updateComment(commentId, c => ({ ...c, author: null, mine: false, content: null, editedAt: null, deleted: true }));
+    } catch (err) {
+      console.error("Delete comment failed", err);
+    }
+  };
+
+  const updatePost = (postId: number, update: (post: Post) => Post) => {
+    setPosts(prev => prev.map(p => p.id === postId ? update(p) : p));
+  };
+
+  // Optimistic: the bar changes immediately and is corrected by the server's counts, or rolled back on failure.
+  const react = async (targetType: 'post' | 'comment', target: Post | Comment, kind: ReactionKind) => {
+    const apply = (reactions: (current: Reactions) => Reactions) => targetType === 'post'
+      ? updatePost(target.id, p => ({ ...p, reactions: reactions(p.reactions) }))
+      : updateComment(target.id, c => ({ ...c, reactions: reactions(c.reactions) }));
+    const active = target.reactions.mine.includes(kind);
+    apply(current => toggleReaction(current, kind));
+    try {
+      const res = await fetch(`/api/${targetType}s/${target.id}/reactions/${kind}`, { method: active ? "DELETE" : "PUT" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const reactions: Reactions = await res.json();
+      apply(() => reactions);
+    } catch (err) {
+      console.error("Reaction failed", err);
+      apply(current => toggleReaction(current, kind));
+    }
+  };
+
+  // Group owners and moderators can hide items in their group's feed.
+  const hideInGroup = async (kind: 'post' | 'comment', id: number) => {
+    if (!activeGroup) return;
+    try {
+      const res = await fetch(`/api/groups/${activeGroup.id}/hide/${kind}/${id}`, { method: "POST" });
+      if (res.ok) fetchPosts();
+    } catch (err) {
+      console.error("Hiding failed", err);
+    }
+  };
+
+  const itemActions = (kind: 'post' | 'comment', item: Post | Comment, onDelete: () => void) => item.mine
+    ? [
+      { label: t.edit, onSelect: () => setEditing({ kind, id: item.id, text: item.content || '' }) },
+      { label: t.delete, confirmLabel: t.confirmDelete, danger: true, onSelect: onDelete },
+    ]
+    : [
+      ...(activeGroup?.role === 'owner' || activeGroup?.role === 'mod'
+        ? [{ label: t.groupHide, confirmLabel: t.groupConfirmHide, onSelect: () => hideInGroup(kind, item.id) }]
+        : []),
+      { label: t.report, danger: true, onSelect: () => setReporting({ kind, id: item.id }) },
+    ];
+
+  const submitReport = async (reason: ReportReason, details: string) => {
+    if (!reporting) return null;
+    try {
+      const res = await fetch(`/api/${reporting.kind}s/${reporting.id}/report`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason, details }),
+      });
+      return res.ok ? null : (await res.json()).error;
+    } catch (err) {
+      console.error("Report failed", err);
+      return t.reportFailed;
+    }
+  };
+
+  const editForm = (rows: number) => editing && (
+    <div className="mb-4">
+      <textarea
+        value={editing.text}
+        onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+        rows={rows}
+        className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-2xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 resize-none text-stone-900 dark:text-stone-100"
+      />
+      {editing.error && <p className="text-xs text-red-500 mt-2">{editing.error}</p>}
+      <div className="flex justify-end gap-2 mt-2">
+        <button onClick={() => setEditing(null)} className="px-4 py-1.5 rounded-xl text-xs font-bold text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800">
+          {t.cancel}
+        </button>
+        <button onClick={saveEdit} disabled={!editing.text.trim()} className="px-4 py-1.5 rounded-xl text-xs font-bold bg-emerald-500 text-white hover:bg-emerald-600 disabled:opacity-50">
+          {t.save}
+        </button>
+      </div>
+    </div>
+  );
+
   // Update clock every second
   useEffect(() => {
     const timer = setInterval(() => setNow(new Date()), 1000);
@@ -299,9 +766,217 @@ export default function App() {
   }, []);
 
   // Persist data
+  const persistSeq = useRef(0);
+  useEffect(() => {
+    if (isDataLocked) return;
+    const seq = ++persistSeq.current;
+    if (!encryptor) {
+      localStorage.setItem('nofap_data', JSON.stringify(data));
+      return;
+    }
+    encryptor(data).then(encrypted => {
+      // Skip if a newer write started while this one was encrypting.
+      if (seq === persistSeq.current) localStorage.setItem('nofap_data', JSON.stringify(encrypted));
+    });
+  }, [data, encryptor, isDataLocked]);
+
+  useEffect(() => {
+    if (encryptionSettings) {
+      localStorage.setItem('ascend_encryption', JSON.stringify(encryptionSettings));
+    } else {
+      localStorage.removeItem('ascend_encryption');
+    }
+  }, [encryptionSettings]);
+
+  useEffect(() => {
+    if (dataOwner) {
+      localStorage.setItem('nofap_data_owner', dataOwner);
+    } else {
+      localStorage.removeItem('nofap_data_owner');
+    }
+  }, [dataOwner]);
+
+  // Data left behind by another account is never merged into this one without asking.
+  const isForeignData = !!user && !!dataOwner && dataOwner !== user.id;
+
+  const resolveForeignData = (choice: 'merge' | 'discard') => {
+    if (!user) return;
+    if (choice === 'discard') {
+      setData(INITIAL_DATA);
+      setEncryptionSettings(null);
+      setEncryptionKey(null);
+    }
+    setDataOwner(user.id);
+  };
+
+  // Sync tracker data with the server while logged in
+  const lastSyncedKey = useRef<string | null>(null);
+  // A sync that finishes after its account logged out must not bring that account's data back.
+  const syncUserId = useRef<string | null>(null);
+  syncUserId.current = user?.id ?? null;
+  // Set after an import replaced the local data, so the server drops its copy instead of merging it back in.
+  const pendingReplace = useRef(false);
+  const syncKey = useMemo(() => syncKeyOf(data), [data]);
+
+  useEffect(() => {
+    if (!user) {
+      lastSyncedKey.current = null;
+      return;
+    }
+    if (isDataLocked || isForeignData) return;
+    if (syncKey === lastSyncedKey.current && !pendingReplace.current) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const replace = pendingReplace.current;
+        const res = await fetch("/api/tracker", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ data: encryptor ? await encryptor(data) : data, replace, encryption: encryptionSettings }),
+        });
+        if (!res.ok || syncUserId.current !== user.id) return;
+        if (replace) pendingReplace.current = false;
+        setDataOwner(user.id);
+        const { data: stored, encryption } = await res.json();
+        const merged = encryptionKey ? await decryptAppData(stored, encryptionKey) : stored;
+        lastSyncedKey.current = syncKeyOf(merged);
+        // Merge rather than replace so edits made while the request was in flight survive.
+        setData(prev => mergeAppData(prev, merged));
+        // Another device turned on the passphrase lock: adopt it and ask for the passphrase.
+        if (encryption && !encryptionSettings) setEncryptionSettings(encryption);
+      } catch (err) {
+        console.error("Tracker sync failed", err);
+      }
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [user, syncKey, encryptionSettings, isDataLocked, isForeignData]);
+
+  // App lock
+  useEffect(() => {
+    if (lockSettings) {
+      localStorage.setItem('ascend_lock', JSON.stringify(lockSettings));
+    } else {
+      localStorage.removeItem('ascend_lock');
+    }
+  }, [lockSettings]);
+
   useEffect(() => {
-    localStorage.setItem('nofap_data', JSON.stringify(data));
-  }, [data]);
+    if (!lockSettings) return;
+    const markActive = () => { lastActivity.current = Date.now(); };
+    const onVisibilityChange = () => {
+      if (document.hidden && lockSettings.lockOnHide) setIsAppLocked(true);
+    };
+    const activityEvents = ['pointerdown', 'keydown', 'scroll', 'touchstart'];
+    activityEvents.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    const timer = setInterval(() => {
+      const idleMs = Date.now() - lastActivity.current;
+      if (lockSettings.autoLockMinutes > 0 && idleMs > lockSettings.autoLockMinutes * 60 * 1000) setIsAppLocked(true);
+    }, 10000);
+    return () => {
+      activityEvents.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      clearInterval(timer);
+    };
+  }, [lockSettings]);
+
+  // Panic hide: two quick taps on the title (or Esc twice) swap to the decoy screen.
+  const registerPanicTap = () => {
+    if (!lockSettings) return;
+    const tapAt = Date.now();
+    if (tapAt - lastPanicTap.current < 400) {
+      setShowDecoy(true);
+      setIsAppLocked(true);
+    }
+    lastPanicTap.current = tapAt;
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') registerPanicTap();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [lockSettings]);
+
+  const unlockApp = async (secret: string) => {
+    if (!lockSettings || !(await verifySecret(secret, lockSettings.secret))) return false;
+    lastActivity.current = Date.now();
+    setIsAppLocked(false);
+    setShowDecoy(false);
+    return true;
+  };
+
+  const submitPinForm = async (mode: 'enable' | 'remove') => {
+    setPinError(null);
+    if (mode === 'remove') {
+      if (!lockSettings || !(await verifySecret(pinForm.current, lockSettings.secret))) return setPinError(t.wrongPin);
+      setLockSettings(null);
+    } else {
+      if (pinForm.next.length < 4) return setPinError(t.pinTooShort);
+      if (pinForm.next !== pinForm.confirm) return setPinError(t.pinMismatch);
+      setLockSettings({
+        secret: await createSecretHash(pinForm.next),
+        numeric: /^\d+$/.test(pinForm.next),
+        autoLockMinutes: 5,
+        lockOnHide: true,
+      });
+    }
+    setPinForm({ current: '', next: '', confirm: '' });
+  };
+
+  // Passphrase lock
+  const unlockData = async (passphrase: string) => {
+    if (!encryptionSettings) return true;
+    const key = await unlockWithPassphrase(passphrase, encryptionSettings);
+    if (!key) return false;
+    setData(await decryptAppData(data, key));
+    setEncryptionKey(key);
+    return true;
+  };
+
+  const lockData = async () => {
+    if (!encryptor) return;
+    setData(await encryptor(data));
+    setEncryptionKey(null);
+    setShowSettingsModal(false);
+  };
+
+  // Changing the key rewrites every stored value, so the server copy is pulled in
+  // first and then replaced wholesale by the re-encrypted local copy.
+  const changeEncryption = async (next: { settings: EncryptionSettings; key: CryptoKey } | null) => {
+    if (user) {
+      const res = await fetch("/api/tracker");
+      const { data: stored } = res.ok ? await res.json() : { data: null };
+      if (stored) {
+        const serverData = encryptionKey ? await decryptAppData(stored, encryptionKey) : stored;
+        setData(prev => mergeAppData(prev, serverData));
+      }
+      pendingReplace.current = true;
+    }
+    setEncryptionSettings(next?.settings ?? null);
+    setEncryptionKey(next?.key ?? null);
+  };
+
+  const submitPassphraseForm = async (mode: 'enable' | 'change' | 'disable') => {
+    setEncryptionError(null);
+    if (mode !== 'enable' && (!encryptionSettings || !(await unlockWithPassphrase(passphraseForm.current, encryptionSettings)))) {
+      return setEncryptionError(t.wrongPassphrase);
+    }
+    if (mode !== 'disable') {
+      if (passphraseForm.next.length < MIN_PASSPHRASE_LENGTH) return setEncryptionError(t.passphraseTooShort);
+      if (passphraseForm.next !== passphraseForm.confirm) return setEncryptionError(t.passphraseMismatch);
+    }
+    setIsUpdatingEncryption(true);
+    try {
+      await changeEncryption(mode === 'disable' ? null : await createEncryptionSettings(passphraseForm.next));
+      setPassphraseForm({ current: '', next: '', confirm: '' });
+    } catch (err) {
+      console.error("Updating passphrase failed", err);
+    } finally {
+      setIsUpdatingEncryption(false);
+    }
+  };
 
   // Theme effect
   useEffect(() => {
@@ -329,20 +1004,14 @@ export default function App() {
     return { days: d, hours: h, minutes: m, seconds: s };
   }, [streakSeconds]);
 
-  const currentRank = useMemo(() => {
-    return [...RANKS].reverse().find(r => days >= r.minDays) || RANKS[0];
-  }, [days]);
-
-  const totalPoints = useMemo(() => {
-    // 1 point per hour clean
-    const hourlyPoints = Math.floor(streakSeconds / 3600);
-    // Bonus points for milestones
-    const milestonePoints = BADGES.reduce((acc, badge) => {
-      if (days >= badge.days) return acc + (badge.days * 10);
-      return acc;
-    }, 0);
-    return hourlyPoints + milestonePoints;
-  }, [streakSeconds, days]);
+  const rankFor = (streakDays: number) => [...RANKS].reverse().find(r => streakDays >= r.minDays) || RANKS[0];
+
+  const currentRank = useMemo(() => rankFor(days), [days]);
+
+  const totalPoints = useMemo(
+    () => pointsFor(streakSeconds) + urgePoints(data.urges.map(u => u.date), data.startDate),
+    [streakSeconds, data.urges, data.startDate]
+  );
 
   useEffect(() => {
     if (streakSeconds > data.bestStreakSeconds) {
@@ -373,16 +1042,20 @@ export default function App() {
   };
 
   // Handlers
-  const addJournalEntry = () => {
-    if (!journalText.trim()) return;
+  const saveJournalEntry = (content: string) => {
     const newEntry: JournalEntry = {
       date: new Date().toISOString(),
-      content: journalText
+      content
     };
     setData(prev => ({
       ...prev,
       journal: [newEntry, ...prev.journal]
     }));
+  };
+
+  const addJournalEntry = () => {
+    if (!journalText.trim()) return;
+    saveJournalEntry(journalText);
     setJournalText('');
   };
 
@@ -404,7 +1077,94 @@ export default function App() {
     setShowRelapseModal(false);
   };
 
+  // One tap logs the urge right away; the details sheet that opens is optional.
+  const logUrge = () => {
+    const now = new Date().toISOString();
+    const urge: Urge = { date: now, intensity: 5, trigger: null, context: '', whatWorked: '', updatedAt: now };
+    setData(prev => ({ ...prev, urges: [urge, ...prev.urges] }));
+    setUrgeDraft(urge);
+  };
+
+  const urgeTriggerLabels: Record<UrgeTrigger, string> = {
+    stress: t.triggerStress,
+    boredom: t.triggerBoredom,
+    loneliness: t.triggerLoneliness,
+    fatigue: t.triggerFatigue,
+    social_media: t.triggerSocialMedia,
+    late_night: t.triggerLateNight,
+    other: t.triggerOther,
+  };
+
+  // What the panic coach is told about past triggers: the last reflection's findings
+  // plus the urge triggers logged most often.
+  const coachTriggers = useMemo(() => {
+    const counts = new Map<UrgeTrigger, number>();
+    for (const urge of data.urges) {
+      if (urge.trigger && urge.trigger !== 'other') counts.set(urge.trigger, (counts.get(urge.trigger) ?? 0) + 1);
+    }
+    const frequent = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([trigger]) => urgeTriggerLabels[trigger]);
+    return [...knownTriggers, ...frequent];
+  }, [knownTriggers, data.urges, language]);
+
+  const saveUrgeDetails = () => {
+    if (!urgeDraft) return;
+    const urge = { ...urgeDraft, updatedAt: new Date().toISOString() };
+    setData(prev => ({ ...prev, urges: prev.urges.map(u => u.date === urge.date ? urge : u) }));
+    setUrgeDraft(null);
+  };
+
+  // Data export / import
+  const exportData = (kind: 'json' | 'relapses' | 'journal') => {
+    const stamp = new Date().toISOString().split('T')[0];
+    if (kind === 'json') downloadFile(`ascend-backup-${stamp}.json`, exportAppData(data), 'application/json');
+    if (kind === 'relapses') downloadFile(`ascend-relapses-${stamp}.csv`, relapsesToCsv(data.relapses), 'text/csv');
+    if (kind === 'journal') downloadFile(`ascend-journal-${stamp}.csv`, journalToCsv(data.journal), 'text/csv');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      const incoming = parseImportFile(await file.text());
+      setImportPreview({ data: incoming, diff: diffAppData(data, incoming) });
+    } catch (err) {
+      console.error("Import failed", err);
+      setImportPreview(null);
+      setImportError(t.importInvalid);
+    }
+  };
+
+  const applyImport = (mode: 'merge' | 'replace') => {
+    if (!importPreview) return;
+    if (mode === 'replace') {
+      pendingReplace.current = true;
+      setData(importPreview.data);
+    } else {
+      setData(prev => mergeAppData(prev, importPreview.data));
+    }
+    setImportPreview(null);
+  };
+
   // Analytics Calculations
+  // Every press is logged so the Analysis tab can show how often panic led to a relapse.
+  const openPanic = () => {
+    const date = new Date().toISOString();
+    setPanicDate(date);
+    setData(prev => ({ ...prev, panicEvents: [{ date, alerted: false }, ...prev.panicEvents] }));
+    setPanicView('advice');
+    setShowPanicModal(true);
+  };
+
+  const logExerciseSession = (session: ExerciseSession) => {
+    setData(prev => ({ ...prev, exerciseSessions: [session, ...prev.exerciseSessions] }));
+  };
+
+  const markPanicAlerted = () => {
+    setData(prev => ({ ...prev, panicEvents: prev.panicEvents.map(e => e.date === panicDate ? { ...e, alerted: true } : e) }));
+  };
+
   const analyticsData = useMemo(() => {
     const relapseDates = data.relapses.map(r => new Date(r.date).toISOString().split('T')[0]);
     const relapseSet = new Set(relapseDates);
@@ -417,7 +1177,8 @@ export default function App() {
       const monthName = d.toLocaleString('default', { month: 'short' });
       const monthYear = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
       const count = data.relapses.filter(r => r.date.startsWith(monthYear)).length;
-      months.push({ name: monthName, count });
+      const urges = data.urges.filter(u => u.date.startsWith(monthYear)).length;
+      months.push({ name: monthName, count, urges });
     }
 
     // Average streak
@@ -434,8 +1195,22 @@ export default function App() {
       avgStreakDays = days;
     }
 
-    return { relapseSet, months, avgStreakDays };
-  }, [data.relapses, days]);
+    // A panic counts as "relapsed after" when a relapse followed within a day.
+    const relapseTimes = data.relapses.map(r => new Date(r.date).getTime());
+    const panicsFollowedByRelapse = data.panicEvents.filter(e => {
+      const time = new Date(e.date).getTime();
+      return relapseTimes.some(r => r >= time && r - time <= 24 * 3600 * 1000);
+    }).length;
+    const panicsLast30Days = data.panicEvents.filter(e => Date.now() - new Date(e.date).getTime() <= 30 * 24 * 3600 * 1000).length;
+
+    // An exercise session "defeated" the urge when it ended weaker than it started.
+    const urgesDefeated = data.exerciseSessions.filter(s => s.intensityAfter < s.intensityBefore).length;
+    const avgIntensityDrop = data.exerciseSessions.length > 0
+      ? data.exerciseSessions.reduce((acc, s) => acc + s.intensityBefore - s.intensityAfter, 0) / data.exerciseSessions.length
+      : 0;
+
+    return { relapseSet, months, avgStreakDays, panicsFollowedByRelapse, panicsLast30Days, urgesDefeated, avgIntensityDrop };
+  }, [data.relapses, data.panicEvents, data.exerciseSessions, data.urges, days]);
 
   const calendarDays = useMemo(() => {
     const year = calendarDate.getFullYear();
@@ -463,18 +1238,26 @@ export default function App() {
     });
   };
 
+  // Never repeats the quote currently on screen.
+  const offlineQuote = () => {
+    const quotes = OFFLINE_QUOTES[language].filter(quote => quote !== aiMotivation);
+    return quotes[Math.floor(Math.random() * quotes.length)];
+  };
+
+  // The AI proxy needs an account; without one, or when it is off or out of quota, a curated quote is shown.
   const getAiMotivation = async () => {
+    if (!user) return setAiMotivation(offlineQuote());
     setIsLoadingAi(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Give me a short, powerful, and stoic motivational quote for someone struggling with a NoFap journey. Current streak: ${days} days. Rank: ${currentRank.name}. Be supportive but firm.`,
+      const res = await fetch("/api/ai/motivation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days, language }),
       });
-      setAiMotivation(response.text || "Stay strong. The pain of discipline is better than the pain of regret.");
+      setAiMotivation(res.ok ? (await res.json()).text : offlineQuote());
     } catch (error) {
       console.error("AI Error:", error);
-      setAiMotivation("Stay strong. Your future self will thank you.");
+      setAiMotivation(offlineQuote());
     } finally {
       setIsLoadingAi(false);
     }
@@ -533,12 +1316,44 @@ export default function App() {
     }
   }, [language]);
 
+  if (showDecoy) {
+    return <DecoyScreen onExit={unlockApp} />;
+  }
+
+  if (isAppLocked && lockSettings) {
+    return (
+      <LockScreen 
+        title={t.appLockedTitle}
+        description={t.appLockedNote}
+        placeholder={t.pinOrPassphrase}
+        submitLabel={t.unlock}
+        errorLabel={t.wrongPin}
+        inputMode={lockSettings.numeric ? 'numeric' : 'text'}
+        onUnlock={unlockApp}
+      />
+    );
+  }
+
+  if (isDataLocked) {
+    return (
+      <LockScreen 
+        title={t.unlockTitle}
+        description={t.unlockNote}
+        placeholder={t.passphrase}
+        submitLabel={t.unlock}
+        errorLabel={t.wrongPassphrase}
+        onUnlock={unlockData}
+        footer={<p className="text-[10px] text-stone-400 dark:text-stone-500 leading-snug mt-4">{t.encryptionWarning}</p>}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-[#F5F5F5] dark:bg-stone-950 text-[#1A1A1A] dark:text-stone-100 font-sans selection:bg-emerald-100 pb-24 transition-colors duration-300">
       {/* Header */}
       <header className="max-w-md mx-auto pt-8 px-6 flex justify-between items-center">
         <div>
-          <h1 className="text-2xl font-bold tracking-tight">{t.appName}</h1>
+          <h1 onClick={registerPanicTap} className="text-2xl font-bold tracking-tight select-none">{t.appName}</h1>
           <p className="text-xs text-stone-500 dark:text-stone-400 uppercase tracking-widest font-semibold">{t.freedomTracker}</p>
         </div>
         <div className="flex gap-2">
@@ -573,7 +1388,14 @@ export default function App() {
             {theme === 'light' ? <Moon className="w-5 h-5" /> : <Sun className="w-5 h-5" />}
           </button>
           <button 
-            onClick={() => setShowPanicModal(true)}
+            onClick={() => setShowSettingsModal(true)}
+            className="p-2 rounded-full hover:bg-stone-100 dark:hover:bg-stone-800 text-stone-500 dark:text-stone-400 transition-colors"
+            title={t.settings}
+          >
+            <Settings className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={openPanic}
             className="p-2 rounded-full bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
             title="Panic Button"
           >
@@ -590,6 +1412,34 @@ export default function App() {
       </header>
 
       <main className="max-w-md mx-auto px-6 pt-8">
+        {recoveryBackupKey && (
+          <div className="mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-900/30 rounded-2xl flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+            <p className="flex-1 text-xs text-amber-800 dark:text-amber-200 leading-snug">{t.dataRecovered}</p>
+            <button
+              onClick={() => setRecoveryBackupKey(null)}
+              className="text-[10px] font-bold uppercase tracking-widest text-amber-600 dark:text-amber-400"
+            >
+              {t.dismiss}
+            </button>
+          </div>
+        )}
+        {isForeignData && (
+          <div className="mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-900/30 rounded-2xl">
+            <div className="flex items-start gap-3 mb-3">
+              <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+              <p className="flex-1 text-xs text-amber-800 dark:text-amber-200 leading-snug">{t.foreignData}</p>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => resolveForeignData('merge')} className="flex-1 py-2 rounded-xl text-xs font-bold bg-emerald-500 text-white hover:bg-emerald-600 transition-colors">
+                {t.foreignDataMerge}
+              </button>
+              <button onClick={() => resolveForeignData('discard')} className="flex-1 py-2 rounded-xl text-xs font-bold bg-red-500 text-white hover:bg-red-600 transition-colors">
+                {t.foreignDataDiscard}
+              </button>
+            </div>
+          </div>
+        )}
         <AnimatePresence mode="wait">
           {activeTab === 'dashboard' && (
             <motion.div 
@@ -675,6 +1525,20 @@ export default function App() {
                 </div>
               </section>
 
+              {/* Urge Log */}
+              <section className="mb-8">
+                <button
+                  onClick={logUrge}
+                  className="w-full flex items-center justify-between bg-white dark:bg-stone-900 p-5 rounded-[24px] shadow-sm border border-stone-100 dark:border-stone-800 hover:border-emerald-200 dark:hover:border-emerald-900/50 transition-all active:scale-95"
+                >
+                  <span className="flex items-center gap-3">
+                    <Shield className="w-5 h-5 text-emerald-500" />
+                    <span className="text-sm font-bold text-stone-900 dark:text-stone-100">{t.beatAnUrge}</span>
+                  </span>
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-stone-400">{data.urges.length} {t.urgesResisted}</span>
+                </button>
+              </section>
+
               {/* AI Motivation */}
               <section className="mb-8">
                 <div className="bg-white dark:bg-stone-900 p-6 rounded-[24px] shadow-sm border border-stone-100 dark:border-stone-800 relative overflow-hidden transition-colors">
@@ -767,7 +1631,7 @@ export default function App() {
                       <div className="text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest mb-2">
                         {new Date(entry.date).toLocaleDateString(language === 'id' ? 'id-ID' : 'en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
                       </div>
-                      <p className="text-sm text-stone-800 dark:text-stone-200 leading-relaxed">{entry.content}</p>
+                      <p className="text-sm text-stone-800 dark:text-stone-200 leading-relaxed">{isEncrypted(entry.content) ? t.encryptedEntry : entry.content}</p>
                     </div>
                   ))
                 )}
@@ -799,7 +1663,7 @@ export default function App() {
                         <div className="text-sm font-bold text-stone-900 dark:text-stone-100">
                           {new Date(relapse.date).toLocaleDateString(language === 'id' ? 'id-ID' : 'en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
                         </div>
-                        <div className="text-xs text-stone-500 dark:text-stone-400 mt-1 italic">"{relapse.note}"</div>
+                        <div className="text-xs text-stone-500 dark:text-stone-400 mt-1 italic">"{isEncrypted(relapse.note) ? t.encryptedEntry : relapse.note}"</div>
                       </div>
                     </div>
                   ))}
@@ -865,6 +1729,28 @@ export default function App() {
                     <span className="text-xs font-normal text-stone-400"> /mo</span>
                   </div>
                 </div>
+                <div className="bg-white dark:bg-stone-900 p-5 rounded-[24px] border border-stone-100 dark:border-stone-800 shadow-sm transition-colors">
+                  <div className="text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest mb-1">{t.panicPresses}</div>
+                  <div className="text-2xl font-bold text-stone-900 dark:text-stone-100">
+                    {data.panicEvents.length} <span className="text-xs font-normal text-stone-400">{analyticsData.panicsLast30Days} {t.last30Days}</span>
+                  </div>
+                </div>
+                <div className="bg-white dark:bg-stone-900 p-5 rounded-[24px] border border-stone-100 dark:border-stone-800 shadow-sm transition-colors">
+                  <div className="text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest mb-1">{t.panicHeld}</div>
+                  <div className="text-2xl font-bold text-stone-900 dark:text-stone-100">
+                    {data.panicEvents.length > 0
+                      ? `${Math.round(100 * (data.panicEvents.length - analyticsData.panicsFollowedByRelapse) / data.panicEvents.length)}%`
+                      : '–'}
+                    <span className="text-xs font-normal text-stone-400"> {t.panicNoRelapse24h}</span>
+                  </div>
+                </div>
+                <div className="col-span-2 bg-white dark:bg-stone-900 p-5 rounded-[24px] border border-stone-100 dark:border-stone-800 shadow-sm transition-colors">
+                  <div className="text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest mb-1">{t.urgesDefeated}</div>
+                  <div className="text-2xl font-bold text-stone-900 dark:text-stone-100">
+                    {analyticsData.urgesDefeated}
+                    <span className="text-xs font-normal text-stone-400"> / {data.exerciseSessions.length} · {t.avgIntensityDrop} {analyticsData.avgIntensityDrop.toFixed(1)}</span>
+                  </div>
+                </div>
               </div>
 
               {/* Chart */}
@@ -894,6 +1780,31 @@ export default function App() {
                 </div>
               </div>
 
+              {/* Urges vs Relapses */}
+              <div className="bg-white dark:bg-stone-900 p-6 rounded-[32px] border border-stone-100 dark:border-stone-800 shadow-sm mb-8 transition-colors">
+                <h3 className="text-sm font-bold text-stone-900 dark:text-stone-100 mb-6">{t.urgesVsRelapses}</h3>
+                <div className="h-48 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={analyticsData.months}>
+                      <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 10, fill: theme === 'dark' ? '#57534E' : '#A8A29E'}} />
+                      <Tooltip 
+                        cursor={{fill: theme === 'dark' ? '#1C1917' : '#F5F5F4'}} 
+                        contentStyle={{
+                          borderRadius: '12px', 
+                          border: 'none', 
+                          boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                          backgroundColor: theme === 'dark' ? '#1C1917' : '#FFFFFF',
+                          color: theme === 'dark' ? '#F5F5F4' : '#1A1A1A'
+                        }}
+                      />
+                      <Legend iconType="circle" iconSize={8} wrapperStyle={{ fontSize: 10 }} />
+                      <Bar dataKey="urges" name={t.urgesResisted} fill="#10B981" radius={[4, 4, 0, 0]} />
+                      <Bar dataKey="count" name={t.relapses} fill="#EF4444" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
               {/* Calendar */}
               <div className="bg-white dark:bg-stone-900 p-6 rounded-[32px] border border-stone-100 dark:border-stone-800 shadow-sm mb-8 transition-colors">
                 <div className="flex justify-between items-center mb-6">
@@ -951,6 +1862,15 @@ export default function App() {
                   </div>
                 </div>
               </div>
+
+              <ReflectionPanel
+                t={t}
+                language={language}
+                journal={data.journal}
+                relapses={data.relapses}
+                loggedIn={!!user}
+                onTriggers={setKnownTriggers}
+              />
             </motion.div>
           )}
 
@@ -975,53 +1895,124 @@ export default function App() {
                   <Users className="w-16 h-16 text-emerald-500 mx-auto mb-6" />
                   <h3 className="text-xl font-bold mb-2">{t.joinBrotherhood}</h3>
                   <p className="text-stone-500 dark:text-stone-400 text-sm mb-8">{t.connectOthers}</p>
-                  <button 
-                    onClick={handleGoogleLogin}
-                    className="w-full bg-[#1A1A1A] dark:bg-emerald-600 text-white py-4 rounded-2xl font-bold hover:bg-stone-800 dark:hover:bg-emerald-700 transition-all flex items-center justify-center gap-3"
-                  >
-                    <img src="https://www.google.com/favicon.ico" className="w-5 h-5" alt="Google" />
-                    {t.loginWithGoogle}
-                  </button>
+                  {authProviders.some(p => p.id === 'google') && (
+                    <button 
+                      onClick={() => handleOAuthLogin('google')}
+                      className="w-full bg-[#1A1A1A] dark:bg-emerald-600 text-white py-4 rounded-2xl font-bold hover:bg-stone-800 dark:hover:bg-emerald-700 transition-all flex items-center justify-center gap-3"
+                    >
+                      <img src="https://www.google.com/favicon.ico" className="w-5 h-5" alt="Google" />
+                      {t.loginGoogle}
+                    </button>
+                  )}
+                  {authProviders.some(p => p.id === 'google') && authProviders.some(p => p.kind === 'local') && (
+                    <div className="my-4 text-[10px] font-bold uppercase tracking-widest text-stone-400">{t.or}</div>
+                  )}
+                  {authProviders.some(p => p.kind === 'local') && (
+                    <form onSubmit={handleLocalAuth} className="space-y-2 text-left">
+                      <input type="email" required value={localAuthForm.email} onChange={(e) => setLocalAuthForm(prev => ({ ...prev, email: e.target.value }))} placeholder={t.email} className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100" />
+                      <input type="password" required value={localAuthForm.password} onChange={(e) => setLocalAuthForm(prev => ({ ...prev, password: e.target.value }))} placeholder={t.password} className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100" />
+                      {localAuthMode === 'register' && (
+                        <input value={localAuthForm.name} onChange={(e) => setLocalAuthForm(prev => ({ ...prev, name: e.target.value }))} placeholder={t.displayName} className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100" />
+                      )}
+                      {localAuthError && <p className="text-xs text-red-500">{localAuthError}</p>}
+                      <button type="submit" className="w-full bg-emerald-500 text-white py-3 rounded-xl font-bold hover:bg-emerald-600 transition-all">
+                        {localAuthMode === 'login' ? t.loginAction : t.registerAction}
+                      </button>
+                      <button 
+                        type="button"
+                        onClick={() => { setLocalAuthMode(localAuthMode === 'login' ? 'register' : 'login'); setLocalAuthError(null); }}
+                        className="w-full text-xs font-bold text-stone-500 dark:text-stone-400 py-2"
+                      >
+                        {localAuthMode === 'login' ? t.switchToRegister : t.switchToLogin}
+                      </button>
+                    </form>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-8">
+                  {user.role === 'admin' && (
+                    <button
+                      onClick={() => setShowModeration(true)}
+                      className="w-full flex items-center justify-center gap-2 bg-stone-900 dark:bg-stone-800 text-white py-3 rounded-2xl font-bold text-sm hover:bg-stone-800 dark:hover:bg-stone-700 transition-colors"
+                    >
+                      <ShieldCheck className="w-4 h-4" /> {t.moderation}
+                    </button>
+                  )}
+
+                  <PartnersPanel
+                    t={t}
+                    rankFor={rankFor}
+                    badges={BADGES}
+                    inviteCode={partnerInviteCode}
+                    onInviteCodeUsed={() => setPartnerInviteCode(null)}
+                    unread={unreadNotifications}
+                    onRead={() => setUnreadNotifications(0)}
+                  />
+
+                  <Leaderboard t={t} rankFor={rankFor} activeGroup={activeGroup} />
+
+                  <GroupsPanel t={t} activeGroup={activeGroup} onSelect={setActiveGroup} />
+
                   {/* Create Post */}
-                  <div className="bg-white dark:bg-stone-900 p-6 rounded-[24px] shadow-sm border border-stone-100 dark:border-stone-800 transition-colors">
-                    <div className="flex items-center gap-3 mb-4">
-                      <img src={user.picture} className="w-10 h-10 rounded-full" alt={user.name} />
-                      <span className="font-bold text-sm">{user.name}</span>
+                  {user.bannedAt ? (
+                    <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 p-6 rounded-[24px] text-sm">
+                      {t.communityBanned}
                     </div>
-                    <textarea 
-                      value={newPostContent}
-                      onChange={(e) => setNewPostContent(e.target.value)}
-                      placeholder={t.shareThoughts}
-                      className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-2xl p-4 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 transition-all resize-none h-24 mb-4 text-stone-900 dark:text-stone-100"
-                    />
-                    {newPostImage && (
-                      <div className="relative mb-4">
-                        <img src={newPostImage} className="w-full h-48 object-cover rounded-2xl" alt="Preview" />
+                  ) : (
+                    <div className="bg-white dark:bg-stone-900 p-6 rounded-[24px] shadow-sm border border-stone-100 dark:border-stone-800 transition-colors">
+                      <div className="flex items-center gap-3 mb-4">
+                        {postIdentity === 'anonymous' ? <Avatar name="?" /> : <Avatar seed={profile?.avatarSeed} name={profile?.handle || ''} />}
+                        <span className="font-bold text-sm flex-1">{postIdentity === 'anonymous' ? t.anonymous : profile && `@${profile.handle}`}</span>
+                        <div className="flex bg-stone-100 dark:bg-stone-800 rounded-xl p-1">
+                          {(['handle', 'anonymous'] as const).map(identity => (
+                            <button
+                              key={identity}
+                              onClick={() => setPostIdentity(identity)}
+                              className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase transition-colors ${postIdentity === identity ? 'bg-white dark:bg-stone-700 text-stone-900 dark:text-stone-100 shadow-sm' : 'text-stone-400 dark:text-stone-500'}`}
+                            >
+                              {identity === 'handle' ? t.postAsHandle : t.postAnonymously}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <textarea 
+                        value={newPostContent}
+                        onChange={(e) => setNewPostContent(e.target.value)}
+                        placeholder={t.shareThoughts}
+                        className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-2xl p-4 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 transition-all resize-none h-24 mb-4 text-stone-900 dark:text-stone-100"
+                      />
+                      {newPostImage && (
+                        <div className="relative mb-4">
+                          <img src={newPostImage.thumbnailUrl} className="w-full h-48 object-cover rounded-2xl" alt="Preview" />
+                          <button 
+                            onClick={() => setNewPostImage(null)}
+                            className="absolute top-2 right-2 bg-black/50 text-white p-1 rounded-full"
+                          >
+                            ×
+                          </button>
+                        </div>
+                      )}
+                      {composerError && (
+                        <p className={`text-xs mb-4 ${cooldownLeft('post') ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 rounded-xl px-3 py-2' : 'text-red-500'}`}>{composerError}</p>
+                      )}
+                      <div className="flex justify-between items-center">
+                        <label className={`cursor-pointer p-2 rounded-xl hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors text-stone-500 dark:text-stone-400 flex items-center gap-2 ${isUploadingImage ? 'pointer-events-none opacity-50' : ''}`}>
+                          <ImageIcon className="w-5 h-5" />
+                          {isUploadingImage && <span className="text-xs">{t.uploadingImage}</span>}
+                          <input type="file" accept="image/jpeg,image/png,image/webp,image/gif" className="hidden" onChange={handleImageUpload} />
+                        </label>
                         <button 
-                          onClick={() => setNewPostImage(null)}
-                          className="absolute top-2 right-2 bg-black/50 text-white p-1 rounded-full"
+                          onClick={createPost}
+                          disabled={isPosting || isUploadingImage || !!cooldownLeft('post') || (!newPostContent.trim() && !newPostImage)}
+                          className="bg-emerald-500 text-white px-6 py-2 rounded-xl font-bold hover:bg-emerald-600 transition-all disabled:opacity-50 flex items-center gap-2"
                         >
-                          ×
+                          {isPosting ? t.posting : cooldownLeft('post')
+                            ? <><Clock className="w-4 h-4" /> {cooldownLeft('post')}</>
+                            : <><Send className="w-4 h-4" /> {t.post}</>}
                         </button>
                       </div>
-                    )}
-                    <div className="flex justify-between items-center">
-                      <label className="cursor-pointer p-2 rounded-xl hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors text-stone-500 dark:text-stone-400">
-                        <ImageIcon className="w-5 h-5" />
-                        <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
-                      </label>
-                      <button 
-                        onClick={createPost}
-                        disabled={isPosting || (!newPostContent.trim() && !newPostImage)}
-                        className="bg-emerald-500 text-white px-6 py-2 rounded-xl font-bold hover:bg-emerald-600 transition-all disabled:opacity-50 flex items-center gap-2"
-                      >
-                        {isPosting ? t.posting : <><Send className="w-4 h-4" /> {t.post}</>}
-                      </button>
                     </div>
-                  </div>
+                  )}
 
                   {/* Posts Feed */}
                   <div className="space-y-6">
@@ -1033,50 +2024,113 @@ export default function App() {
                       posts.map((post) => (
                         <div key={post.id} className="bg-white dark:bg-stone-900 rounded-[24px] shadow-sm border border-stone-100 dark:border-stone-800 overflow-hidden transition-colors">
                           <div className="p-5">
-                            <div className="flex items-center gap-3 mb-4">
-                              <img src={post.userPicture} className="w-10 h-10 rounded-full" alt={post.userName} />
-                              <div>
-                                <div className="font-bold text-sm">{post.userName}</div>
-                                <div className="text-[10px] text-stone-400 dark:text-stone-500 uppercase font-bold">
-                                  {new Date(post.createdAt).toLocaleDateString(language === 'id' ? 'id-ID' : 'en-US')}
+                            {post.deleted ? (
+                              <p className="text-sm italic text-stone-400 dark:text-stone-500 mb-4">{t.postDeleted}</p>
+                            ) : (
+                              <div className="flex items-center gap-3 mb-4">
+                                {post.author ? <Avatar seed={post.author.avatarSeed} name={post.author.handle} /> : <Avatar name="?" />}
+                                <div className="flex-1">
+                                  <div className="font-bold text-sm">
+                                    {post.author ? `@${post.author.handle}` : t.anonymous}
+                                    {!post.author && post.mine && <span className="font-normal text-stone-400 dark:text-stone-500"> ({t.you})</span>}
+                                  </div>
+                                  <div className="text-[10px] text-stone-400 dark:text-stone-500 uppercase font-bold">
+                                    {new Date(post.createdAt).toLocaleDateString(language === 'id' ? 'id-ID' : 'en-US')}
+                                    {post.editedAt && <span className="normal-case font-normal"> · {t.edited}</span>}
+                                  </div>
                                 </div>
+                                <ItemMenu actions={itemActions('post', post, () => deletePost(post.id))} />
                               </div>
-                            </div>
-                            {post.content && <p className="text-sm text-stone-800 dark:text-stone-200 leading-relaxed mb-4">{post.content}</p>}
-                            {post.image && <img src={post.image} className="w-full h-64 object-cover rounded-2xl mb-4" alt="Post" />}
+                            )}
+                            {post.hidden && (
+                              <p className="text-xs bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 rounded-xl px-3 py-2 mb-4">{t.hiddenPendingReview}</p>
+                            )}
+                            {editing?.kind === 'post' && editing.id === post.id
+                              ? editForm(4)
+                              : post.content && <p className="text-sm text-stone-800 dark:text-stone-200 leading-relaxed mb-4">{post.content}</p>}
+                            {post.image && (
+                              <a href={post.image.url} target="_blank" rel="noreferrer">
+                                <img
+                                  src={post.image.thumbnailUrl}
+                                  width={post.image.width}
+                                  height={post.image.height}
+                                  loading="lazy"
+                                  className="w-full h-64 object-cover rounded-2xl mb-4"
+                                  alt="Post"
+                                />
+                              </a>
+                            )}
+                            {!post.deleted && (
+                              <div className="mb-4">
+                                <ReactionBar reactions={post.reactions} labels={reactionLabels} onToggle={kind => react('post', post, kind)} />
+                              </div>
+                            )}
                             
                             {/* Comments Section */}
                             <div className="border-t border-stone-50 dark:border-stone-800 pt-4">
                               <div className="space-y-3 mb-4">
-                                {post.comments.map((comment) => (
+                                {post.commentCount > post.comments.length && commentCursors[post.id] !== null && (
+                                  <button
+                                    onClick={() => fetchEarlierComments(post)}
+                                    className="text-[10px] font-bold uppercase text-stone-400 dark:text-stone-500 hover:text-emerald-600 dark:hover:text-emerald-400 transition-colors"
+                                  >
+                                    {t.loadEarlierComments} ({post.commentCount - post.comments.length})
+                                  </button>
+                                )}
+                                {post.comments.map((comment) => comment.deleted || (comment.hidden && !comment.mine) ? (
+                                  <p key={comment.id} className="text-xs italic text-stone-400 dark:text-stone-500 pl-9">
+                                    {comment.deleted ? t.commentDeleted : t.commentHidden}
+                                  </p>
+                                ) : (
                                   <div key={comment.id} className="flex gap-3">
-                                    <img src={comment.userPicture} className="w-6 h-6 rounded-full" alt={comment.userName} />
+                                    <Avatar seed={comment.author?.avatarSeed} name={comment.author?.handle || '?'} className="w-6 h-6" />
                                     <div className="bg-stone-50 dark:bg-stone-800 p-3 rounded-2xl flex-1">
-                                      <div className="font-bold text-[10px] mb-1">{comment.userName}</div>
-                                      <p className="text-xs text-stone-700 dark:text-stone-300">{comment.content}</p>
+                                      <div className="flex items-start justify-between gap-2">
+                                        <div className="font-bold text-[10px] mb-1">
+                                          {comment.author && `@${comment.author.handle}`}
+                                          {comment.editedAt && <span className="font-normal text-stone-400 dark:text-stone-500"> · {t.edited}</span>}
+                                        </div>
+                                        <ItemMenu actions={itemActions('comment', comment, () => deleteComment(comment.id))} className="-mt-1 -mr-1" />
+                                      </div>
+                                      {comment.hidden && <p className="text-[10px] text-amber-600 dark:text-amber-400 mb-1">{t.hiddenPendingReview}</p>}
+                                      {editing?.kind === 'comment' && editing.id === comment.id
+                                        ? editForm(2)
+                                        : <p className="text-xs text-stone-700 dark:text-stone-300">{comment.content}</p>}
+                                      <div className="mt-2">
+                                        <ReactionBar reactions={comment.reactions} labels={reactionLabels} onToggle={kind => react('comment', comment, kind)} compact />
+                                      </div>
                                     </div>
                                   </div>
                                 ))}
                               </div>
-                              <div className="flex gap-2">
-                                <input 
-                                  value={commentTexts[post.id] || ''}
-                                  onChange={(e) => setCommentTexts(prev => ({ ...prev, [post.id]: e.target.value }))}
-                                  placeholder={t.addComment}
-                                  className="flex-1 bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100"
-                                />
-                                <button 
-                                  onClick={() => addComment(post.id)}
-                                  className="p-2 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400 rounded-xl hover:bg-emerald-100 dark:hover:bg-emerald-900/30 transition-colors"
-                                >
-                                  <MessageCircle className="w-4 h-4" />
-                                </button>
-                              </div>
+                              {!post.deleted && (
+                                <div className="flex gap-2">
+                                  <input 
+                                    value={commentTexts[post.id] || ''}
+                                    onChange={(e) => setCommentTexts(prev => ({ ...prev, [post.id]: e.target.value }))}
+                                    placeholder={t.addComment}
+                                    className="flex-1 bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100"
+                                  />
+                                  <button 
+                                    onClick={() => addComment(post.id)}
+                                    disabled={!!cooldownLeft('comment')}
+                                    className="p-2 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400 rounded-xl hover:bg-emerald-100 dark:hover:bg-emerald-900/30 transition-colors disabled:opacity-50 flex items-center gap-1 text-xs font-bold"
+                                  >
+                                    {cooldownLeft('comment') ? <><Clock className="w-4 h-4" /> {cooldownLeft('comment')}</> : <MessageCircle className="w-4 h-4" />}
+                                  </button>
+                                </div>
+                              )}
+                              {commentErrors[post.id] && <p className="text-xs text-red-500 mt-2">{commentErrors[post.id]}</p>}
                             </div>
                           </div>
                         </div>
                       ))
                     )}
+                    {!isLoadingPosts && postsCursor !== null && (
+                      <div ref={feedEndRef} className="text-center py-6 text-xs text-stone-400 dark:text-stone-600">
+                        {isLoadingMorePosts ? t.loadingMore : ''}
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -1112,7 +2166,12 @@ export default function App() {
           onClick={() => setActiveTab('community')}
           className={`flex flex-col items-center gap-1 transition-colors ${activeTab === 'community' ? 'text-emerald-600 dark:text-emerald-400' : 'text-stone-400 dark:text-stone-600'}`}
         >
-          <Users className="w-6 h-6" />
+          <div className="relative">
+            <Users className="w-6 h-6" />
+            {unreadNotifications > 0 && (
+              <span className="absolute -top-1 -right-2 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">{unreadNotifications}</span>
+            )}
+          </div>
           <span className="text-[10px] font-bold uppercase tracking-tighter">{t.community}</span>
         </button>
         <button 
@@ -1152,19 +2211,48 @@ export default function App() {
                 <Zap className="w-10 h-10" />
               </div>
               <h2 className="text-2xl font-bold text-red-600 dark:text-red-400 mb-4">{t.emergencyProtocol}</h2>
-              <div className="space-y-4 mb-8">
-                {PANIC_ADVICE.map((advice, idx) => (
-                  <motion.div 
-                    key={idx}
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: idx * 0.1 }}
-                    className="p-3 bg-stone-50 dark:bg-stone-800 rounded-xl text-sm text-stone-700 dark:text-stone-300 font-medium"
+              <div className="flex bg-stone-100 dark:bg-stone-800 rounded-xl p-1 mb-4">
+                {[
+                  { id: 'advice' as const, label: t.panicAdvice },
+                  { id: 'exercises' as const, label: t.panicExercises },
+                  ...(user ? [{ id: 'chat' as const, label: t.panicTalkToCoach }] : []),
+                ].map(({ id, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => setPanicView(id)}
+                    className={`flex-1 px-3 py-1 rounded-lg text-xs font-bold transition-colors ${panicView === id ? 'bg-white dark:bg-stone-700 text-stone-900 dark:text-stone-100 shadow-sm' : 'text-stone-400 dark:text-stone-500'}`}
                   >
-                    {advice}
-                  </motion.div>
+                    {label}
+                  </button>
                 ))}
               </div>
+              {panicView === 'exercises' ? (
+                <ExerciseEngine t={t} onComplete={logExerciseSession} />
+              ) : user && panicView === 'chat' ? (
+                <PanicChat
+                  t={t}
+                  language={language}
+                  streakDays={days}
+                  rank={currentRank.name}
+                  triggers={coachTriggers}
+                  onSaveToJournal={saveJournalEntry}
+                />
+              ) : (
+                <div className="space-y-4 mb-6">
+                  {PANIC_ADVICE.map((advice, idx) => (
+                    <motion.div 
+                      key={idx}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: idx * 0.1 }}
+                      className="p-3 bg-stone-50 dark:bg-stone-800 rounded-xl text-sm text-stone-700 dark:text-stone-300 font-medium"
+                    >
+                      {advice}
+                    </motion.div>
+                  ))}
+                </div>
+              )}
+              {user && <PanicAlert t={t} onAlerted={markPanicAlerted} unread={unreadNotifications} />}
               <button 
                 onClick={() => setShowPanicModal(false)}
                 className="w-full bg-red-600 text-white py-4 rounded-2xl font-bold hover:bg-red-700 transition-all"
@@ -1229,6 +2317,356 @@ export default function App() {
           </div>
         )}
       </AnimatePresence>
+
+      {/* Urge Details Modal */}
+      <AnimatePresence>
+        {urgeDraft && (
+          <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center p-4">
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setUrgeDraft(null)}
+              className="absolute inset-0 bg-stone-900/40 backdrop-blur-sm"
+            />
+            <motion.div 
+              initial={{ y: 100, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              exit={{ y: 100, opacity: 0 }}
+              className="relative w-full max-w-md bg-white dark:bg-stone-900 rounded-[32px] p-8 shadow-2xl transition-colors max-h-[90vh] overflow-y-auto"
+            >
+              <div className="text-center mb-6">
+                <div className="w-16 h-16 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-500 dark:text-emerald-400 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <Shield className="w-8 h-8" />
+                </div>
+                <h2 className="text-2xl font-bold mb-2">{t.urgeLogged}</h2>
+                <p className="text-stone-500 dark:text-stone-400 text-sm">+{URGE_POINTS} pts · {t.urgeDetailsOptional}</p>
+              </div>
+
+              <div className="mb-4">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2 block">{t.urgeIntensity}</label>
+                <div className="grid grid-cols-10 gap-1">
+                  {Array.from({ length: 10 }, (_, i) => i + 1).map(level => (
+                    <button
+                      key={level}
+                      onClick={() => setUrgeDraft({ ...urgeDraft, intensity: level })}
+                      className={`py-2 rounded-lg text-xs font-bold transition-colors ${urgeDraft.intensity === level ? 'bg-emerald-600 text-white' : 'bg-stone-100 dark:bg-stone-800 text-stone-500 dark:text-stone-400'}`}
+                    >
+                      {level}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2 block">{t.urgeTrigger}</label>
+                <div className="flex flex-wrap gap-2">
+                  {URGE_TRIGGERS.map(trigger => (
+                    <button
+                      key={trigger}
+                      onClick={() => setUrgeDraft({ ...urgeDraft, trigger: urgeDraft.trigger === trigger ? null : trigger })}
+                      className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${urgeDraft.trigger === trigger ? 'bg-emerald-600 text-white' : 'bg-stone-100 dark:bg-stone-800 text-stone-500 dark:text-stone-400'}`}
+                    >
+                      {urgeTriggerLabels[trigger]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2 block">{t.urgeContext}</label>
+                <textarea 
+                  value={urgeDraft.context}
+                  onChange={(e) => setUrgeDraft({ ...urgeDraft, context: e.target.value })}
+                  placeholder={t.urgeContextPlaceholder}
+                  className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-2xl p-4 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 transition-all resize-none h-20 text-stone-900 dark:text-stone-100"
+                />
+              </div>
+
+              <div className="mb-6">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2 block">{t.urgeWhatWorked}</label>
+                <textarea 
+                  value={urgeDraft.whatWorked}
+                  onChange={(e) => setUrgeDraft({ ...urgeDraft, whatWorked: e.target.value })}
+                  placeholder={t.urgeWhatWorkedPlaceholder}
+                  className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-2xl p-4 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 transition-all resize-none h-20 text-stone-900 dark:text-stone-100"
+                />
+              </div>
+
+              <div className="flex gap-3">
+                <button 
+                  onClick={() => setUrgeDraft(null)}
+                  className="flex-1 py-4 rounded-2xl font-bold text-stone-500 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors"
+                >
+                  {t.skip}
+                </button>
+                <button 
+                  onClick={saveUrgeDetails}
+                  className="flex-1 bg-emerald-600 text-white py-4 rounded-2xl font-bold hover:bg-emerald-700 transition-all active:scale-95"
+                >
+                  {t.saveDetails}
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      {/* Settings Modal */}
+      <AnimatePresence>
+        {showSettingsModal && (
+          <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center p-4">
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setShowSettingsModal(false)}
+              className="absolute inset-0 bg-stone-900/40 backdrop-blur-sm"
+            />
+            <motion.div 
+              initial={{ y: 100, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              exit={{ y: 100, opacity: 0 }}
+              className="relative w-full max-w-md max-h-[85vh] overflow-y-auto bg-white dark:bg-stone-900 rounded-[32px] p-8 shadow-2xl transition-colors"
+            >
+              <h2 className="text-2xl font-bold mb-6">{t.settings}</h2>
+
+              {user && (
+                <section className="mb-6">
+                  <h3 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">{t.account}</h3>
+                  <div className="flex items-center gap-3 mb-4">
+                    <Avatar src={user.picture} name={user.name} className="w-8 h-8" />
+                    <span className="font-bold text-sm">{user.name}</span>
+                  </div>
+                  {profile && (
+                    <div className="bg-stone-50 dark:bg-stone-800 rounded-2xl p-4 mb-4">
+                      <div className="text-xs font-bold mb-1">{t.communityProfile}</div>
+                      <p className="text-xs text-stone-500 dark:text-stone-400 mb-3">{t.communityProfileNote}</p>
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => updateProfile({ regenerateAvatar: true })} title={t.newAvatar}>
+                          <Avatar seed={profile.avatarSeed} name={profile.handle} />
+                        </button>
+                        <input
+                          value={handleDraft}
+                          onChange={(e) => setHandleDraft(e.target.value)}
+                          maxLength={24}
+                          className="flex-1 min-w-0 bg-white dark:bg-stone-900 border border-stone-100 dark:border-stone-700 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100"
+                        />
+                        <button
+                          onClick={() => updateProfile({ handle: handleDraft })}
+                          disabled={!handleDraft.trim() || handleDraft === profile.handle}
+                          className="px-4 py-2 rounded-xl font-bold text-xs bg-emerald-500 text-white hover:bg-emerald-600 transition-colors disabled:opacity-50"
+                        >
+                          {t.save}
+                        </button>
+                      </div>
+                      <p className="text-[10px] text-stone-400 dark:text-stone-500 mt-2">{t.newAvatarHint}</p>
+                      {profileError && <p className="text-xs text-red-500 mt-2">{profileError}</p>}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={handleLogout} className="py-3 rounded-xl font-bold text-xs bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors flex items-center justify-center gap-2">
+                      <LogOut className="w-4 h-4" /> {t.logout}
+                    </button>
+                    <button onClick={handleLogoutAllDevices} className="py-3 rounded-xl font-bold text-xs text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
+                      {t.logoutAllDevices}
+                    </button>
+                  </div>
+                </section>
+              )}
+
+              {/* Data export / import */}
+              <section className="mb-6">
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">{t.yourData}</h3>
+                <p className="text-xs text-stone-500 dark:text-stone-400 mb-4">{t.yourDataNote}</p>
+                <div className="space-y-2">
+                  <button 
+                    onClick={() => exportData('json')}
+                    className="w-full flex items-center justify-center gap-2 bg-[#1A1A1A] dark:bg-emerald-600 text-white py-3 rounded-xl font-bold text-sm hover:bg-stone-800 dark:hover:bg-emerald-700 transition-all"
+                  >
+                    <Download className="w-4 h-4" /> {t.exportJson}
+                  </button>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button 
+                      onClick={() => exportData('relapses')}
+                      className="py-3 rounded-xl font-bold text-xs bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors"
+                    >
+                      {t.exportRelapsesCsv}
+                    </button>
+                    <button 
+                      onClick={() => exportData('journal')}
+                      className="py-3 rounded-xl font-bold text-xs bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors"
+                    >
+                      {t.exportJournalCsv}
+                    </button>
+                  </div>
+                  <label className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-300 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors cursor-pointer">
+                    <Upload className="w-4 h-4" /> {t.importData}
+                    <input type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+                  </label>
+                </div>
+
+                {importError && <p className="mt-3 text-xs text-red-500">{importError}</p>}
+
+                {importPreview && (
+                  <div className="mt-4 p-4 bg-stone-50 dark:bg-stone-800 rounded-2xl">
+                    <h4 className="text-sm font-bold mb-3">{t.importPreview}</h4>
+                    <div className="space-y-1 text-xs text-stone-600 dark:text-stone-300 mb-3">
+                      {([
+                        [t.relapses, importPreview.diff.relapses],
+                        [t.journal, importPreview.diff.journal],
+                        [t.badges, importPreview.diff.badges],
+                      ] as const).map(([label, change]) => (
+                        <div key={label} className="flex justify-between">
+                          <span>{label}</span>
+                          <span className="font-bold">
+                            <span className="text-emerald-600 dark:text-emerald-400">+{change.added}</span>
+                            {' / '}
+                            <span className="text-red-500">−{change.removed}</span>
+                          </span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between">
+                        <span>{t.streakStart}</span>
+                        <span className="font-bold">
+                          {importPreview.diff.startDate.incoming ? new Date(importPreview.diff.startDate.incoming).toLocaleDateString() : '—'}
+                        </span>
+                      </div>
+                    </div>
+                    <p className="text-[10px] text-stone-500 dark:text-stone-400 leading-snug mb-3">{t.importHint}</p>
+                    <div className="flex gap-2">
+                      <button onClick={() => setImportPreview(null)} className="flex-1 py-2 rounded-xl text-xs font-bold text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors">
+                        {t.cancel}
+                      </button>
+                      <button onClick={() => applyImport('merge')} className="flex-1 py-2 rounded-xl text-xs font-bold bg-emerald-500 text-white hover:bg-emerald-600 transition-colors">
+                        {t.mergeData}
+                      </button>
+                      <button onClick={() => applyImport('replace')} className="flex-1 py-2 rounded-xl text-xs font-bold bg-red-500 text-white hover:bg-red-600 transition-colors">
+                        {t.replaceData}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </section>
+
+              {/* App lock */}
+              <section className="mb-6">
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">{t.appLock}</h3>
+                <p className="text-xs text-stone-500 dark:text-stone-400 mb-4">{t.appLockNote}</p>
+                {!lockSettings ? (
+                  <>
+                    <div className="space-y-2">
+                      <input type="password" value={pinForm.next} onChange={(e) => setPinForm(prev => ({ ...prev, next: e.target.value }))} placeholder={t.pinOrPassphrase} className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100" />
+                      <input type="password" value={pinForm.confirm} onChange={(e) => setPinForm(prev => ({ ...prev, confirm: e.target.value }))} placeholder={t.confirmPin} className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100" />
+                    </div>
+                    {pinError && <p className="mt-2 text-xs text-red-500">{pinError}</p>}
+                    <button 
+                      onClick={() => submitPinForm('enable')}
+                      className="w-full mt-3 flex items-center justify-center gap-2 bg-[#1A1A1A] dark:bg-emerald-600 text-white py-3 rounded-xl font-bold text-sm hover:bg-stone-800 dark:hover:bg-emerald-700 transition-all"
+                    >
+                      <Lock className="w-4 h-4" /> {t.enableAppLock}
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="space-y-3 mb-4">
+                      <label className="flex justify-between items-center text-xs font-semibold text-stone-600 dark:text-stone-300">
+                        {t.autoLock}
+                        <select 
+                          value={lockSettings.autoLockMinutes}
+                          onChange={(e) => setLockSettings({ ...lockSettings, autoLockMinutes: Number(e.target.value) })}
+                          className="bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-lg px-2 py-1 text-xs"
+                        >
+                          {AUTO_LOCK_OPTIONS.map(minutes => (
+                            <option key={minutes} value={minutes}>{minutes === 0 ? t.autoLockNever : `${minutes} ${t.minutesShort}`}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex justify-between items-center text-xs font-semibold text-stone-600 dark:text-stone-300">
+                        {t.lockWhenHidden}
+                        <input 
+                          type="checkbox"
+                          checked={lockSettings.lockOnHide}
+                          onChange={(e) => setLockSettings({ ...lockSettings, lockOnHide: e.target.checked })}
+                          className="w-4 h-4 accent-emerald-500"
+                        />
+                      </label>
+                      <p className="text-[10px] text-stone-400 dark:text-stone-500 leading-snug">{t.panicHideHint}</p>
+                    </div>
+                    <input type="password" value={pinForm.current} onChange={(e) => setPinForm(prev => ({ ...prev, current: e.target.value }))} placeholder={t.pinOrPassphrase} className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100" />
+                    {pinError && <p className="mt-2 text-xs text-red-500">{pinError}</p>}
+                    <div className="grid grid-cols-2 gap-2 mt-3">
+                      <button 
+                        onClick={() => { setIsAppLocked(true); setShowSettingsModal(false); }}
+                        className="py-3 rounded-xl font-bold text-xs bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors"
+                      >
+                        {t.lockNow}
+                      </button>
+                      <button 
+                        onClick={() => submitPinForm('remove')}
+                        className="py-3 rounded-xl font-bold text-xs text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                      >
+                        {t.removeAppLock}
+                      </button>
+                    </div>
+                  </>
+                )}
+              </section>
+
+              {/* Passphrase lock */}
+              <section className="mb-6">
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">{t.encryption}</h3>
+                <p className="text-xs text-stone-500 dark:text-stone-400 mb-2">{encryptionSettings ? t.encryptionOn : t.encryptionNote}</p>
+                <p className="text-xs font-semibold text-amber-600 dark:text-amber-400 mb-4">{t.encryptionWarning}</p>
+                <div className="space-y-2">
+                  {encryptionSettings && (
+                    <input type="password" value={passphraseForm.current} onChange={(e) => setPassphraseForm(prev => ({ ...prev, current: e.target.value }))} placeholder={t.currentPassphrase} className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100" />
+                  )}
+                  <input type="password" value={passphraseForm.next} onChange={(e) => setPassphraseForm(prev => ({ ...prev, next: e.target.value }))} placeholder={encryptionSettings ? t.newPassphrase : t.passphrase} className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100" />
+                  <input type="password" value={passphraseForm.confirm} onChange={(e) => setPassphraseForm(prev => ({ ...prev, confirm: e.target.value }))} placeholder={t.confirmPassphrase} className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100" />
+                </div>
+                {encryptionError && <p className="mt-2 text-xs text-red-500">{encryptionError}</p>}
+                {!encryptionSettings ? (
+                  <button 
+                    onClick={() => submitPassphraseForm('enable')}
+                    disabled={isUpdatingEncryption}
+                    className="w-full mt-3 flex items-center justify-center gap-2 bg-[#1A1A1A] dark:bg-emerald-600 text-white py-3 rounded-xl font-bold text-sm hover:bg-stone-800 dark:hover:bg-emerald-700 transition-all disabled:opacity-50"
+                  >
+                    <Lock className="w-4 h-4" /> {t.enableEncryption}
+                  </button>
+                ) : (
+                  <div className="grid grid-cols-3 gap-2 mt-3">
+                    <button onClick={() => submitPassphraseForm('change')} disabled={isUpdatingEncryption} className="py-3 rounded-xl font-bold text-xs bg-emerald-500 text-white hover:bg-emerald-600 transition-colors disabled:opacity-50">
+                      {t.changePassphrase}
+                    </button>
+                    <button onClick={lockData} disabled={isUpdatingEncryption} className="py-3 rounded-xl font-bold text-xs bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors disabled:opacity-50">
+                      {t.lockNow}
+                    </button>
+                    <button onClick={() => submitPassphraseForm('disable')} disabled={isUpdatingEncryption} className="py-3 rounded-xl font-bold text-xs text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50">
+                      {t.disableEncryption}
+                    </button>
+                  </div>
+                )}
+              </section>
+
+              <button 
+                onClick={() => setShowSettingsModal(false)}
+                className="w-full py-4 rounded-2xl font-bold text-stone-500 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors"
+              >
+                {t.close}
+              </button>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {reporting && <ReportModal t={t} onSubmit={submitReport} onClose={() => setReporting(null)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showModeration && <ModerationPanel t={t} onClose={() => setShowModeration(false)} onChanged={fetchPosts} />}
+      </AnimatePresence>
     </div>
   );
 }
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AppData, INITIAL_DATA, InvalidAppDataError, SCHEMA_VERSION, Urge, loadAppData, mergeAppData, migrateAppData, salvageAppData, validateAppData } from './appData';
+
+const data = (overrides: Partial<AppData> = {}): AppData => ({ ...INITIAL_DATA, ...overrides });
+
+const urge = (overrides: Partial<Urge> = {}): Urge => ({
+  date: '2026-01-10T20:00:00.000Z',
+  intensity: 5,
+  trigger: null,
+  context: '',
+  whatWorked: '',
+  updatedAt: '2026-01-10T20:00:00.000Z',
+  ...overrides,
+});
+
+describe('mergeAppData', () => {
+  it('unions entries by timestamp, newest first', () => {
+    const merged = mergeAppData(
+      data({ relapses: [{ date: '2026-01-01T10:00:00.000Z', note: 'a' }] }),
+      data({ relapses: [{ date: '2026-01-05T10:00:00.000Z', note: 'b' }, { date: '2026-01-01T10:00:00Z', note: 'a' }] }),
+    );
+    expect(merged.relapses.map(r => r.note)).toEqual(['b', 'a']);
+  });
+
+  it('gives the same result whichever copy comes first', () => {
+    const a = data({ journal: [{ date: '2026-01-01T10:00:00.000Z', content: 'short' }], points: 3, unlockedBadges: ['b'] });
+    const b = data({ journal: [{ date: '2026-01-01T10:00:00.000Z', content: 'longer text' }], points: 7, unlockedBadges: ['a'] });
+    expect(mergeAppData(a, b)).toEqual(mergeAppData(b, a));
+    expect(mergeAppData(a, b).journal[0].content).toBe('longer text');
+    expect(mergeAppData(a, b).points).toBe(7);
+    expect(mergeAppData(a, b).unlockedBadges).toEqual(['a', 'b']);
+  });
+
+  it('keeps the earliest start date unless a later relapse reset the streak', () => {
+    expect(mergeAppData(data({ startDate: '2026-01-03T00:00:00.000Z' }), data({ startDate: '2026-01-01T00:00:00.000Z' })).startDate)
+      .toBe('2026-01-01T00:00:00.000Z');
+    const merged = mergeAppData(
+      data({ startDate: '2026-01-01T00:00:00.000Z' }),
+      data({ startDate: '2026-01-01T00:00:00.000Z', relapses: [{ date: '2026-01-04T00:00:00.000Z', note: '' }] }),
+    );
+    expect(merged.startDate).toBe('2026-01-04T00:00:00.000Z');
+  });
+
+  it('keeps the most recently edited copy of an urge whole', () => {
+    const edited = urge({ intensity: 2, context: 'x', updatedAt: '2026-01-11T08:00:00.000Z' });
+    const stale = urge({ intensity: 9, trigger: 'stress', context: 'a much longer context' });
+    expect(mergeAppData(data({ urges: [stale] }), data({ urges: [edited] })).urges).toEqual([edited]);
+    expect(mergeAppData(data({ urges: [edited] }), data({ urges: [stale] })).urges).toEqual([edited]);
+  });
+});
+
+describe('migrateAppData', () => {
+  it('upgrades an unversioned blob to the current schema', () => {
+    const migrated = migrateAppData({ startDate: null, relapses: [{ date: '2026-01-01T00:00:00.000Z', note: 'n' }] });
+    expect(migrated.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(migrated.relapses).toHaveLength(1);
+    expect(migrated.urges).toEqual([]);
+    expect(validateAppData(migrated)).toEqual([]);
+  });
+
+  it('dates urges from version 4 as last edited when they were logged', () => {
+    const { updatedAt: _, ...v4Urge } = urge();
+    const migrated = migrateAppData({ ...INITIAL_DATA, schemaVersion: 4, urges: [v4Urge] });
+    expect(migrated.urges[0].updatedAt).toBe(v4Urge.date);
+  });
+
+  it('rejects versions newer than this app and invalid payloads', () => {
+    expect(() => migrateAppData({ ...INITIAL_DATA, schemaVersion: SCHEMA_VERSION + 1 })).toThrow(InvalidAppDataError);
+    expect(() => migrateAppData({ ...INITIAL_DATA, points: -1 })).toThrow(InvalidAppDataError);
+  });
+});
+
+describe('salvageAppData', () => {
+  it('keeps the valid entries of a damaged payload', () => {
+    const salvaged = salvageAppData({
+      points: 'lots',
+      relapses: [{ date: '2026-01-01T00:00:00.000Z', note: 'ok' }, { date: 'not a date', note: 'bad' }],
+    });
+    expect(salvaged.points).toBe(0);
+    expect(salvaged.relapses.map(r => r.note)).toEqual(['ok']);
+  });
+});
+
+describe('loadAppData', () => {
+  it('backs up stored data that needed repairing', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const backups: string[] = [];
+    const loaded = loadAppData('{"points":"lots"}', raw => { backups.push(raw); return 'backup-key'; });
+    expect(loaded.backupKey).toBe('backup-key');
+    expect(backups).toEqual(['{"points":"lots"}']);
+    expect(loaded.data.points).toBe(0);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,338 @@
+// Shared between the client and server.ts so both sides agree on the shape of
+// the tracker data and on how two copies of it are reconciled.
+
+export interface Relapse {
+  date: string;
+  note: string;
+}
+
+export interface JournalEntry {
+  date: string;
+  content: string;
+}
+
+export interface PanicEvent {
+  date: string;
+  // Whether accountability partners were alerted from this panic.
+  alerted: boolean;
+}
+
+export const EXERCISE_KINDS = ['box_breathing', 'breathing_478', 'urge_surfing', 'cold_shower', 'pushups'] as const;
+export type ExerciseKind = typeof EXERCISE_KINDS[number];
+
+export interface ExerciseSession {
+  // When the session was completed.
+  date: string;
+  kind: ExerciseKind;
+  durationSeconds: number;
+  // Urge intensity from 1 to 10, asked before and after the exercise.
+  intensityBefore: number;
+  intensityAfter: number;
+}
+
+export const URGE_TRIGGERS = ['stress', 'boredom', 'loneliness', 'fatigue', 'social_media', 'late_night', 'other'] as const;
+export type UrgeTrigger = typeof URGE_TRIGGERS[number];
+
+// An urge that was felt and resisted.
+export interface Urge {
+  date: string;
+  // 1 to 10.
+  intensity: number;
+  trigger: UrgeTrigger | null;
+  // Free text, encrypted like journal entries.
+  context: string;
+  whatWorked: string;
+  // When the urge was logged or its details last edited; the newer copy wins a merge.
+  updatedAt: string;
+}
+
+export interface AppData {
+  schemaVersion: number;
+  startDate: string | null;
+  bestStreakSeconds: number;
+  relapses: Relapse[];
+  journal: JournalEntry[];
+  points: number;
+  unlockedBadges: string[];
+  panicEvents: PanicEvent[];
+  exerciseSessions: ExerciseSession[];
+  urges: Urge[];
+}
+
+// Bump this and append a step to MIGRATIONS whenever the shape of AppData changes.
+export const SCHEMA_VERSION = 5;
+
+export const INITIAL_DATA: AppData = {
+  schemaVersion: SCHEMA_VERSION,
+  startDate: null,
+  bestStreakSeconds: 0,
+  relapses: [],
+  journal: [],
+  points: 0,
+  unlockedBadges: [],
+  panicEvents: [],
+  exerciseSessions: [],
+  urges: [],
+};
+
+// Allow a little clock skew between devices before a start date counts as "in the future".
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const toTime = (date: string | null | undefined) => {
+  if (!date) return NaN;
+  return new Date(date).getTime();
+};
+
+const isValidStartDate = (date: string | null | undefined) => {
+  const time = toTime(date);
+  return !isNaN(time) && time <= Date.now() + MAX_CLOCK_SKEW_MS;
+};
+
+// Picks one of two texts recorded for the same timestamp. The result must not
+// depend on argument order, otherwise two devices would never converge.
+const pickText = (a: string, b: string, placeholder?: string) => {
+  if (a === b) return a;
+  if (placeholder !== undefined) {
+    if (a === placeholder) return b;
+    if (b === placeholder) return a;
+  }
+  if (a.length !== b.length) return a.length > b.length ? a : b;
+  return a > b ? a : b;
+};
+
+const unionByDate = <T extends { date: string }>(a: T[], b: T[], resolve: (x: T, y: T) => T): T[] => {
+  const byDate = new Map<string, T>();
+  for (const item of [...a, ...b]) {
+    const key = new Date(item.date).toISOString();
+    const existing = byDate.get(key);
+    byDate.set(key, existing ? resolve(existing, item) : item);
+  }
+  // Newest first, matching how the app prepends new entries.
+  return [...byDate.values()].sort((x, y) => toTime(y.date) - toTime(x.date));
+};
+
+/**
+ * Merges two copies of the tracker data (e.g. a device's local copy and the
+ * server copy) into one. The merge is deterministic and symmetric:
+ * - relapses, journal entries, panic events, exercise sessions and urges are unioned by timestamp,
+ * - the earliest valid startDate wins, unless a later relapse reset the streak,
+ * - best streak and points keep the maximum, badges are unioned.
+ */
+export function mergeAppData(a: AppData, b: AppData): AppData {
+  const relapses = unionByDate(a.relapses, b.relapses, (x, y) => ({
+    ...x,
+    note: pickText(x.note, y.note, 'No note provided'),
+  }));
+  const journal = unionByDate(a.journal, b.journal, (x, y) => ({
+    ...x,
+    content: pickText(x.content, y.content),
+  }));
+  const panicEvents = unionByDate(a.panicEvents, b.panicEvents, (x, y) => ({ ...x, alerted: x.alerted || y.alerted }));
+  // Sessions are never edited, so two copies with the same timestamp are the same session.
+  const exerciseSessions = unionByDate(a.exerciseSessions, b.exerciseSessions, (x) => x);
+  // Details can be edited after the one-tap log, so the most recently edited copy wins whole.
+  const urges = unionByDate(a.urges, b.urges, (x, y) => {
+    const byEdit = toTime(x.updatedAt) - toTime(y.updatedAt);
+    if (byEdit !== 0) return byEdit > 0 ? x : y;
+    return JSON.stringify(x) >= JSON.stringify(y) ? x : y;
+  });
+
+  const startCandidates = [a.startDate, b.startDate].filter(isValidStartDate) as string[];
+  let startDate = startCandidates.sort((x, y) => toTime(x) - toTime(y))[0] ?? null;
+  const latestRelapse = relapses[0];
+  if (startDate && latestRelapse && toTime(latestRelapse.date) > toTime(startDate)) {
+    startDate = latestRelapse.date;
+  }
+
+  return {
+    ...a,
+    ...b,
+    schemaVersion: SCHEMA_VERSION,
+    startDate,
+    bestStreakSeconds: Math.max(a.bestStreakSeconds, b.bestStreakSeconds),
+    relapses,
+    journal,
+    points: Math.max(a.points, b.points),
+    unlockedBadges: [...new Set([...a.unlockedBadges, ...b.unlockedBadges])].sort(),
+    panicEvents,
+    exerciseSessions,
+    urges,
+  };
+}
+
+// --- Validation ---
+
+export class InvalidAppDataError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid tracker data: ${issues.join('; ')}`);
+    this.name = 'InvalidAppDataError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+export function validateRelapse(value: unknown, path = 'relapse'): string[] {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: string[] = [];
+  if (!isDateString(value.date)) issues.push(`${path}.date must be a valid date`);
+  if (typeof value.note !== 'string') issues.push(`${path}.note must be a string`);
+  return issues;
+}
+
+export function validateJournalEntry(value: unknown, path = 'journal entry'): string[] {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: string[] = [];
+  if (!isDateString(value.date)) issues.push(`${path}.date must be a valid date`);
+  if (typeof value.content !== 'string') issues.push(`${path}.content must be a string`);
+  return issues;
+}
+
+export function validatePanicEvent(value: unknown, path = 'panic event'): string[] {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: string[] = [];
+  if (!isDateString(value.date)) issues.push(`${path}.date must be a valid date`);
+  if (typeof value.alerted !== 'boolean') issues.push(`${path}.alerted must be a boolean`);
+  return issues;
+}
+
+const isIntensity = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 10;
+
+export function validateExerciseSession(value: unknown, path = 'exercise session'): string[] {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: string[] = [];
+  if (!isDateString(value.date)) issues.push(`${path}.date must be a valid date`);
+  if (!EXERCISE_KINDS.includes(value.kind)) issues.push(`${path}.kind must be one of ${EXERCISE_KINDS.join(', ')}`);
+  if (!isCount(value.durationSeconds)) issues.push(`${path}.durationSeconds must be a non-negative number`);
+  if (!isIntensity(value.intensityBefore)) issues.push(`${path}.intensityBefore must be an integer from 1 to 10`);
+  if (!isIntensity(value.intensityAfter)) issues.push(`${path}.intensityAfter must be an integer from 1 to 10`);
+  return issues;
+}
+
+export function validateUrge(value: unknown, path = 'urge'): string[] {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const issues: string[] = [];
+  if (!isDateString(value.date)) issues.push(`${path}.date must be a valid date`);
+  if (!isIntensity(value.intensity)) issues.push(`${path}.intensity must be an integer from 1 to 10`);
+  if (value.trigger !== null && !URGE_TRIGGERS.includes(value.trigger)) issues.push(`${path}.trigger must be null or one of ${URGE_TRIGGERS.join(', ')}`);
+  if (typeof value.context !== 'string') issues.push(`${path}.context must be a string`);
+  if (typeof value.whatWorked !== 'string') issues.push(`${path}.whatWorked must be a string`);
+  if (!isDateString(value.updatedAt)) issues.push(`${path}.updatedAt must be a valid date`);
+  return issues;
+}
+
+/** Returns a list of problems with the given value; an empty list means it is a valid AppData. */
+export function validateAppData(value: unknown): string[] {
+  if (!isObject(value)) return ['data must be an object'];
+  const issues: string[] = [];
+  if (value.schemaVersion !== SCHEMA_VERSION) issues.push(`schemaVersion must be ${SCHEMA_VERSION}`);
+  if (value.startDate !== null && !isDateString(value.startDate)) issues.push('startDate must be null or a valid date');
+  if (!isCount(value.bestStreakSeconds)) issues.push('bestStreakSeconds must be a non-negative number');
+  if (!isCount(value.points)) issues.push('points must be a non-negative number');
+  if (!Array.isArray(value.unlockedBadges) || value.unlockedBadges.some((b: unknown) => typeof b !== 'string')) {
+    issues.push('unlockedBadges must be a list of strings');
+  }
+  if (!Array.isArray(value.relapses)) issues.push('relapses must be a list');
+  else value.relapses.forEach((r: unknown, i: number) => issues.push(...validateRelapse(r, `relapses[${i}]`)));
+  if (!Array.isArray(value.journal)) issues.push('journal must be a list');
+  else value.journal.forEach((e: unknown, i: number) => issues.push(...validateJournalEntry(e, `journal[${i}]`)));
+  if (!Array.isArray(value.panicEvents)) issues.push('panicEvents must be a list');
+  else value.panicEvents.forEach((e: unknown, i: number) => issues.push(...validatePanicEvent(e, `panicEvents[${i}]`)));
+  if (!Array.isArray(value.exerciseSessions)) issues.push('exerciseSessions must be a list');
+  else value.exerciseSessions.forEach((e: unknown, i: number) => issues.push(...validateExerciseSession(e, `exerciseSessions[${i}]`)));
+  if (!Array.isArray(value.urges)) issues.push('urges must be a list');
+  else value.urges.forEach((u: unknown, i: number) => issues.push(...validateUrge(u, `urges[${i}]`)));
+  return issues;
+}
+
+// --- Migrations ---
+
+// MIGRATIONS[n] upgrades a payload from schemaVersion n to n + 1.
+// Payloads written before versioning existed have no schemaVersion and count as version 0.
+const MIGRATIONS: ((data: Record<string, any>) => Record<string, any>)[] = [
+  // 0 -> 1: unversioned blob that was spread over INITIAL_DATA, so any field may be missing.
+  (data) => ({ ...INITIAL_DATA, ...data, schemaVersion: 1 }),
+  // 1 -> 2: panic button presses are logged.
+  (data) => ({ ...data, panicEvents: [], schemaVersion: 2 }),
+  // 2 -> 3: guided exercise sessions are logged.
+  (data) => ({ ...data, exerciseSessions: [], schemaVersion: 3 }),
+  // 3 -> 4: resisted urges are logged.
+  (data) => ({ ...data, urges: [], schemaVersion: 4 }),
+  // 4 -> 5: urges record when they were last edited; until then that was when they were logged.
+  (data) => ({
+    ...data,
+    urges: Array.isArray(data.urges) ? data.urges.map((u: any) => isObject(u) ? { ...u, updatedAt: u.date } : u) : data.urges,
+    schemaVersion: 5,
+  }),
+];
+
+/** Upgrades a parsed payload of any known version to the current schema and validates it. */
+export function migrateAppData(value: unknown): AppData {
+  if (!isObject(value)) throw new InvalidAppDataError(['data must be an object']);
+
+  let data: Record<string, any> = value;
+  let version = data.schemaVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new InvalidAppDataError(['schemaVersion must be a non-negative integer']);
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new InvalidAppDataError([`schemaVersion ${version} is newer than this app supports (${SCHEMA_VERSION})`]);
+  }
+  while (version < SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version = data.schemaVersion;
+  }
+
+  const issues = validateAppData(data);
+  if (issues.length > 0) throw new InvalidAppDataError(issues);
+  return data as AppData;
+}
+
+/**
+ * Best-effort recovery for payloads that fail validation: keeps every field and
+ * entry that is still valid and falls back to the defaults for the rest.
+ */
+export function salvageAppData(value: unknown): AppData {
+  if (!isObject(value)) return INITIAL_DATA;
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    startDate: isDateString(value.startDate) ? value.startDate : null,
+    bestStreakSeconds: isCount(value.bestStreakSeconds) ? value.bestStreakSeconds : 0,
+    points: isCount(value.points) ? value.points : 0,
+    unlockedBadges: Array.isArray(value.unlockedBadges) ? value.unlockedBadges.filter((b: unknown) => typeof b === 'string') : [],
+    relapses: Array.isArray(value.relapses) ? value.relapses.filter((r: unknown) => validateRelapse(r).length === 0) : [],
+    journal: Array.isArray(value.journal) ? value.journal.filter((e: unknown) => validateJournalEntry(e).length === 0) : [],
+    panicEvents: Array.isArray(value.panicEvents) ? value.panicEvents.filter((e: unknown) => validatePanicEvent(e).length === 0) : [],
+    exerciseSessions: Array.isArray(value.exerciseSessions) ? value.exerciseSessions.filter((e: unknown) => validateExerciseSession(e).length === 0) : [],
+    urges: Array.isArray(value.urges)
+      ? value.urges.map((u: any) => isObject(u) && u.updatedAt === undefined ? { ...u, updatedAt: u.date } : u).filter((u: unknown) => validateUrge(u).length === 0)
+      : [],
+  };
+}
+
+export interface LoadedAppData {
+  data: AppData;
+  // localStorage key holding the original raw string when the stored data had to be repaired.
+  backupKey: string | null;
+}
+
+/** Parses the raw string persisted in localStorage without ever throwing. */
+export function loadAppData(raw: string | null, backup: (raw: string) => string): LoadedAppData {
+  if (!raw) return { data: INITIAL_DATA, backupKey: null };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+    return { data: migrateAppData(parsed), backupKey: null };
+  } catch (err) {
+    console.error("Stored tracker data is invalid, recovering", err);
+    return { data: salvageAppData(parsed), backupKey: backup(raw) };
+  }
+}
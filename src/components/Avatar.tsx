@@ -0,0 +1,50 @@
+import React from 'react';
+
+interface AvatarProps {
+  src?: string | null;
+  // Draws a generated pattern instead of a picture, for pseudonymous community profiles.
+  seed?: string | null;
+  name: string;
+  className?: string;
+}
+
+// FNV-1a, so the same seed always draws the same avatar.
+const hashSeed = (seed: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// A 5×5 grid mirrored around the middle column: 15 cells taken from the hash bits.
+function GeneratedAvatar({ seed, className }: { seed: string; className: string }) {
+  const hash = hashSeed(seed);
+  const hue = hash % 360;
+  const cells: React.ReactNode[] = [];
+  for (let row = 0; row < 5; row++) {
+    for (let col = 0; col < 3; col++) {
+      if (!((hash >>> (row * 3 + col + 9)) & 1)) continue;
+      for (const x of new Set([col, 4 - col])) {
+        cells.push(<rect key={`${row}-${x}`} x={x + 1} y={row + 1} width={1} height={1} />);
+      }
+    }
+  }
+  return (
+    <svg viewBox="0 0 7 7" className={`${className} rounded-full`} style={{ backgroundColor: `hsl(${hue} 60% 90%)` }}>
+      <g fill={`hsl(${hue} 55% 45%)`}>{cells}</g>
+    </svg>
+  );
+}
+
+// Email/password accounts have no profile picture, so fall back to the first letter of the name.
+export default function Avatar({ src, seed, name, className = 'w-10 h-10' }: AvatarProps) {
+  if (seed) return <GeneratedAvatar seed={seed} className={className} />;
+  if (src) return <img src={src} className={`${className} rounded-full`} alt={name} />;
+  return (
+    <div className={`${className} rounded-full bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 flex items-center justify-center font-bold text-xs uppercase`}>
+      {name?.[0] || '?'}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+
+interface DecoyScreenProps {
+  // Called with the digits typed before "="; resolves to true when they are the app lock PIN.
+  onExit: (entry: string) => Promise<boolean>;
+}
+
+const KEYS = ['C', '÷', '×', '−', '7', '8', '9', '+', '4', '5', '6', '.', '1', '2', '3', '=', '0'];
+
+// Evaluates "a op b op c ..." left to right, like a basic pocket calculator.
+const evaluate = (expression: string) => {
+  const tokens = expression.match(/(\d+\.?\d*|[+−×÷])/g) || [];
+  let result = parseFloat(tokens[0] || '0');
+  for (let i = 1; i < tokens.length - 1; i += 2) {
+    const operand = parseFloat(tokens[i + 1]);
+    if (tokens[i] === '+') result += operand;
+    if (tokens[i] === '−') result -= operand;
+    if (tokens[i] === '×') result *= operand;
+    if (tokens[i] === '÷') result /= operand;
+  }
+  return Number.isFinite(result) ? String(Math.round(result * 1e8) / 1e8) : 'Error';
+};
+
+/**
+ * A neutral, working calculator shown by the panic hide gesture. Typing the app
+ * lock PIN followed by "=" returns to the app.
+ */
+export default function DecoyScreen({ onExit }: DecoyScreenProps) {
+  const [display, setDisplay] = useState('0');
+
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = 'Calculator';
+    return () => { document.title = previousTitle; };
+  }, []);
+
+  const press = async (key: string) => {
+    if (key === 'C') return setDisplay('0');
+    if (key === '=') {
+      if (/^\d+$/.test(display) && await onExit(display)) return;
+      return setDisplay(evaluate(display));
+    }
+    setDisplay(prev => (prev === '0' || prev === 'Error') && /[\d.]/.test(key) ? key : prev + key);
+  };
+
+  return (
+    <div className="min-h-screen bg-stone-900 text-white font-sans flex items-end justify-center p-4">
+      <div className="w-full max-w-sm">
+        <div className="text-right text-6xl font-light px-4 py-8 truncate">{display}</div>
+        <div className="grid grid-cols-4 gap-3">
+          {KEYS.map(key => (
+            <button 
+              key={key}
+              onClick={() => press(key)}
+              className={`h-20 rounded-full text-2xl font-medium transition-colors active:opacity-70 ${
+                key === '0' ? 'col-span-4' : ''
+              } ${
+                /[\d.]/.test(key) ? 'bg-stone-700' : key === 'C' ? 'bg-stone-400 text-stone-900' : 'bg-amber-500'
+              }`}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
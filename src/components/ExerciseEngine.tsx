@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ChevronLeft, Dumbbell, Snowflake, Square, Waves, Wind } from 'lucide-react';
+import { TRANSLATIONS } from '../translations';
+import { ExerciseKind, ExerciseSession } from '../appData';
+
+type Labels = typeof TRANSLATIONS['en'];
+
+type BreathPhase = 'inhale' | 'hold' | 'exhale';
+
+interface Exercise {
+  kind: ExerciseKind;
+  durationSeconds: number;
+  // Breathing exercises repeat these phases until the time is up.
+  pattern?: { phase: BreathPhase; seconds: number }[];
+}
+
+const EXERCISES: Exercise[] = [
+  { kind: 'box_breathing', durationSeconds: 64, pattern: [
+    { phase: 'inhale', seconds: 4 }, { phase: 'hold', seconds: 4 }, { phase: 'exhale', seconds: 4 }, { phase: 'hold', seconds: 4 },
+  ] },
+  { kind: 'breathing_478', durationSeconds: 76, pattern: [
+    { phase: 'inhale', seconds: 4 }, { phase: 'hold', seconds: 7 }, { phase: 'exhale', seconds: 8 },
+  ] },
+  { kind: 'urge_surfing', durationSeconds: 180 },
+  { kind: 'cold_shower', durationSeconds: 90 },
+  { kind: 'pushups', durationSeconds: 60 },
+];
+
+// Urge surfing moves to the next prompt every this many seconds.
+const SURF_PROMPT_SECONDS = 30;
+
+type Stage = 'pick' | 'before' | 'running' | 'after' | 'done';
+
+interface ExerciseEngineProps {
+  t: Labels;
+  onComplete: (session: ExerciseSession) => void;
+}
+
+/** Where in a repeating breathing pattern the given second falls. */
+const breathAt = (pattern: NonNullable<Exercise['pattern']>, elapsed: number) => {
+  const cycle = pattern.reduce((acc, step) => acc + step.seconds, 0);
+  let offset = elapsed % cycle;
+  for (const [index, step] of pattern.entries()) {
+    if (offset < step.seconds) return { index, step, remaining: step.seconds - offset };
+    offset -= step.seconds;
+  }
+  return { index: 0, step: pattern[0], remaining: pattern[0].seconds };
+};
+
+// The pacer circle grows while inhaling, shrinks while exhaling and holds its size in between.
+const MIN_SCALE = 0.5;
+
+const breathScale = (pattern: NonNullable<Exercise['pattern']>, elapsed: number) => {
+  const { index, step, remaining } = breathAt(pattern, elapsed);
+  const progress = 1 - remaining / step.seconds;
+  if (step.phase === 'inhale') return MIN_SCALE + (1 - MIN_SCALE) * progress;
+  if (step.phase === 'exhale') return 1 - (1 - MIN_SCALE) * progress;
+  const previous = pattern[(index + pattern.length - 1) % pattern.length];
+  return previous.phase === 'inhale' ? 1 : MIN_SCALE;
+};
+
+const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Guided exercises for the panic screen. Every run asks how strong the urge is
+ * before and after, and only runs that reach the second check-in are logged.
+ */
+export default function ExerciseEngine({ t, onComplete }: ExerciseEngineProps) {
+  const [exercise, setExercise] = useState<Exercise | null>(null);
+  const [stage, setStage] = useState<Stage>('pick');
+  const [intensityBefore, setIntensityBefore] = useState(5);
+  const [intensityAfter, setIntensityAfter] = useState(5);
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (stage !== 'running') return;
+    const timer = setInterval(() => setElapsed(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [stage]);
+
+  useEffect(() => {
+    if (stage === 'running' && exercise && elapsed >= exercise.durationSeconds) {
+      setIntensityAfter(intensityBefore);
+      setStage('after');
+    }
+  }, [elapsed]);
+
+  const labels: Record<ExerciseKind, { name: string; hint: string; icon: React.ReactNode }> = {
+    box_breathing: { name: t.exerciseBoxBreathing, hint: t.exerciseBoxBreathingHint, icon: <Square className="w-4 h-4" /> },
+    breathing_478: { name: t.exercise478, hint: t.exercise478Hint, icon: <Wind className="w-4 h-4" /> },
+    urge_surfing: { name: t.exerciseUrgeSurfing, hint: t.exerciseUrgeSurfingHint, icon: <Waves className="w-4 h-4" /> },
+    cold_shower: { name: t.exerciseColdShower, hint: t.exerciseColdShowerHint, icon: <Snowflake className="w-4 h-4" /> },
+    pushups: { name: t.exercisePushups, hint: t.exercisePushupsHint, icon: <Dumbbell className="w-4 h-4" /> },
+  };
+  const phaseLabels: Record<BreathPhase, string> = { inhale: t.breatheIn, hold: t.breatheHold, exhale: t.breatheOut };
+  const surfPrompts = [t.surfNotice, t.surfLocate, t.surfBreathe, t.surfWatch, t.surfCrest, t.surfPass];
+
+  const choose = (next: Exercise) => {
+    setExercise(next);
+    setIntensityBefore(5);
+    setElapsed(0);
+    setStage('before');
+  };
+
+  const finish = () => {
+    if (!exercise) return;
+    onComplete({
+      date: new Date().toISOString(),
+      kind: exercise.kind,
+      durationSeconds: Math.min(elapsed, exercise.durationSeconds),
+      intensityBefore,
+      intensityAfter,
+    });
+    setStage('done');
+  };
+
+  const reset = () => {
+    setExercise(null);
+    setStage('pick');
+  };
+
+  const intensityPicker = (value: number, onChange: (value: number) => void) => (
+    <div className="grid grid-cols-10 gap-1 my-3">
+      {Array.from({ length: 10 }, (_, i) => i + 1).map(level => (
+        <button
+          key={level}
+          onClick={() => onChange(level)}
+          className={`py-2 rounded-lg text-xs font-bold transition-colors ${value === level ? 'bg-red-600 text-white' : 'bg-stone-100 dark:bg-stone-800 text-stone-500 dark:text-stone-400'}`}
+        >
+          {level}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (stage === 'pick' || !exercise) {
+    return (
+      <div className="space-y-2 mb-6 text-left">
+        {EXERCISES.map(option => (
+          <button
+            key={option.kind}
+            onClick={() => choose(option)}
+            className="w-full p-3 bg-stone-50 dark:bg-stone-800 rounded-xl text-left hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors"
+          >
+            <span className="text-sm font-bold text-stone-800 dark:text-stone-200 flex items-center gap-2">
+              {labels[option.kind].icon} {labels[option.kind].name}
+              <span className="ml-auto text-[10px] font-normal text-stone-400">{formatClock(option.durationSeconds)}</span>
+            </span>
+            <span className="block text-xs text-stone-500 dark:text-stone-400 mt-1">{labels[option.kind].hint}</span>
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  const remaining = Math.max(0, exercise.durationSeconds - elapsed);
+  const breath = exercise.pattern && breathAt(exercise.pattern, elapsed);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        {stage !== 'done' && (
+          <button onClick={reset} className="p-1 rounded-lg hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors">
+            <ChevronLeft className="w-4 h-4 text-stone-400" />
+          </button>
+        )}
+        <span className="text-sm font-bold flex items-center gap-2">{labels[exercise.kind].icon} {labels[exercise.kind].name}</span>
+      </div>
+
+      {stage === 'before' && (
+        <>
+          <p className="text-sm text-stone-600 dark:text-stone-300">{t.intensityBefore}</p>
+          {intensityPicker(intensityBefore, setIntensityBefore)}
+          <button onClick={() => setStage('running')} className="w-full py-3 rounded-2xl bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 text-sm font-bold">
+            {t.exerciseStart}
+          </button>
+        </>
+      )}
+
+      {stage === 'running' && (
+        <>
+          {breath ? (
+            <div className="h-48 flex items-center justify-center">
+              <motion.div
+                // Each tick animates to where the circle should be one second later.
+                initial={{ scale: MIN_SCALE }}
+                animate={{ scale: breathScale(exercise.pattern!, elapsed + 1) }}
+                transition={{ duration: 1, ease: 'linear' }}
+                className="w-40 h-40 rounded-full bg-emerald-100 dark:bg-emerald-900/30 border-4 border-emerald-400 flex flex-col items-center justify-center"
+              >
+                <span className="text-sm font-bold text-emerald-700 dark:text-emerald-300">{phaseLabels[breath.step.phase]}</span>
+                <span className="text-2xl font-bold text-emerald-700 dark:text-emerald-300">{breath.remaining}</span>
+              </motion.div>
+            </div>
+          ) : (
+            <div className="py-6">
+              <div className="text-5xl font-bold font-mono text-stone-900 dark:text-stone-100 mb-4">{formatClock(remaining)}</div>
+              <p className="text-sm text-stone-600 dark:text-stone-300 min-h-[40px]">
+                {exercise.kind === 'urge_surfing'
+                  ? surfPrompts[Math.min(Math.floor(elapsed / SURF_PROMPT_SECONDS), surfPrompts.length - 1)]
+                  : labels[exercise.kind].hint}
+              </p>
+            </div>
+          )}
+          <div className="h-1 bg-stone-100 dark:bg-stone-800 rounded-full overflow-hidden mt-4">
+            <div className="h-full bg-emerald-500 transition-all duration-1000 ease-linear" style={{ width: `${100 * elapsed / exercise.durationSeconds}%` }} />
+          </div>
+          <div className="flex justify-between items-center mt-2 text-[10px] text-stone-400">
+            <span>{formatClock(remaining)}</span>
+            <button onClick={() => { setIntensityAfter(intensityBefore); setStage('after'); }} className="font-bold hover:text-stone-600 dark:hover:text-stone-300">
+              {t.exerciseFinishEarly}
+            </button>
+          </div>
+        </>
+      )}
+
+      {stage === 'after' && (
+        <>
+          <p className="text-sm text-stone-600 dark:text-stone-300">{t.intensityAfter}</p>
+          {intensityPicker(intensityAfter, setIntensityAfter)}
+          <button onClick={finish} className="w-full py-3 rounded-2xl bg-emerald-600 text-white text-sm font-bold">
+            {t.exerciseLog}
+          </button>
+        </>
+      )}
+
+      {stage === 'done' && (
+        <div className="p-4 rounded-2xl bg-emerald-50 dark:bg-emerald-900/20">
+          <div className="text-3xl font-bold text-emerald-600 dark:text-emerald-400">
+            {intensityBefore} → {intensityAfter}
+          </div>
+          <p className="text-sm text-stone-600 dark:text-stone-300 mt-1">
+            {intensityAfter < intensityBefore ? t.exerciseUrgeDefeated : t.exerciseKeepGoing}
+          </p>
+          <button onClick={reset} className="mt-3 text-xs font-bold text-emerald-700 dark:text-emerald-400">
+            {t.exerciseAnother}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { Globe, Lock, Plus, RefreshCw, Users } from 'lucide-react';
+import { TRANSLATIONS } from '../translations';
+import Avatar from './Avatar';
+import ItemMenu, { ItemMenuAction } from './ItemMenu';
+
+type Labels = typeof TRANSLATIONS['en'];
+
+export type GroupRole = 'owner' | 'mod' | 'member';
+
+export interface Group {
+  id: number;
+  name: string;
+  description: string;
+  visibility: 'open' | 'invite';
+  memberCount: number;
+  role: GroupRole | null;
+  // Only set for the group's owner and moderators.
+  inviteCode: string | null;
+}
+
+interface GroupMember {
+  id: number;
+  handle: string;
+  avatarSeed: string;
+  role: GroupRole;
+  joinedAt: string;
+}
+
+interface GroupsPanelProps {
+  t: Labels;
+  // The group whose feed is shown, or null for the public feed.
+  activeGroup: Group | null;
+  onSelect: (group: Group | null) => void;
+}
+
+// Codes are shown as ABCD-EFGH; the server ignores the dash.
+const formatCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
+
+export const groupRoleLabels = (t: Labels): Record<GroupRole, string> => ({
+  owner: t.groupRoleOwner,
+  mod: t.groupRoleMod,
+  member: t.groupRoleMember,
+});
+
+/** Feed switcher for the Community tab, plus creating, joining and running groups. */
+export default function GroupsPanel({ t, activeGroup, onSelect }: GroupsPanelProps) {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [discover, setDiscover] = useState<Group[]>([]);
+  const [members, setMembers] = useState<GroupMember[] | null>(null);
+  const [view, setView] = useState<'none' | 'browse' | 'create' | 'members'>('none');
+  const [draft, setDraft] = useState({ name: '', description: '', visibility: 'open' as Group['visibility'] });
+  const [joinCode, setJoinCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const roleLabels = groupRoleLabels(t);
+
+  // `selectId` switches the feed to that group once the fresh list (with the viewer's role) is in.
+  const load = async (selectId?: number) => {
+    try {
+      const res = await fetch("/api/groups");
+      const data = await res.json();
+      setGroups(data.groups);
+      setDiscover(data.discover);
+      if (selectId !== undefined) onSelect(data.groups.find((g: Group) => g.id === selectId) || null);
+    } catch (err) {
+      console.error("Loading groups failed", err);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  useEffect(() => {
+    setMembers(null);
+    if (view === 'members') setView('none');
+  }, [activeGroup?.id]);
+
+  const request = async (url: string, method: string, body?: object) => {
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body && JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error);
+        return null;
+      }
+      return data;
+    } catch (err) {
+      console.error("Group request failed", err);
+      setError(t.requestFailed);
+      return null;
+    }
+  };
+
+  // Joining or creating a group switches the feed to it.
+  const enter = async (group: Group | null) => {
+    if (!group) return;
+    setView('none');
+    await load(group.id);
+  };
+
+  const create = async () => {
+    const group = await request("/api/groups", "POST", draft);
+    if (group) setDraft({ name: '', description: '', visibility: 'open' });
+    await enter(group);
+  };
+
+  const joinWithCode = async () => {
+    const group = await request("/api/groups/join", "POST", { code: joinCode });
+    if (group) setJoinCode('');
+    await enter(group);
+  };
+
+  const leave = async (group: Group) => {
+    if (!await request(`/api/groups/${group.id}/leave`, "POST")) return;
+    onSelect(null);
+    await load();
+  };
+
+  const newInviteCode = async (group: Group) => {
+    if (await request(`/api/groups/${group.id}/invite`, "POST")) await load(group.id);
+  };
+
+  const toggleMembers = async (group: Group) => {
+    if (view === 'members') return setView('none');
+    setView('members');
+    const data = await request(`/api/groups/${group.id}/members`, "GET");
+    if (data) setMembers(data);
+  };
+
+  const setRole = async (group: Group, member: GroupMember, role: GroupRole) => {
+    const data = await request(`/api/groups/${group.id}/members/${member.id}`, "PATCH", { role });
+    if (!data) return;
+    setMembers(data);
+    // Handing over ownership changes what the viewer may do.
+    if (role === 'owner') await load(group.id);
+  };
+
+  const removeMember = async (group: Group, member: GroupMember) => {
+    const data = await request(`/api/groups/${group.id}/members/${member.id}`, "DELETE");
+    if (data) setMembers(data);
+  };
+
+  const memberActions = (group: Group, member: GroupMember): ItemMenuAction[] => {
+    if (member.role === 'owner' || group.role === 'member') return [];
+    if (group.role === 'mod') {
+      return member.role === 'member'
+        ? [{ label: t.groupRemoveMember, confirmLabel: t.confirmDelete, danger: true, onSelect: () => removeMember(group, member) }]
+        : [];
+    }
+    return [
+      member.role === 'member'
+        ? { label: t.groupMakeMod, onSelect: () => setRole(group, member, 'mod') }
+        : { label: t.groupMakeMember, onSelect: () => setRole(group, member, 'member') },
+      { label: t.groupMakeOwner, confirmLabel: t.groupConfirmOwner, onSelect: () => setRole(group, member, 'owner') },
+      { label: t.groupRemoveMember, confirmLabel: t.confirmDelete, danger: true, onSelect: () => removeMember(group, member) },
+    ];
+  };
+
+  const chipClass = (active: boolean) => `shrink-0 px-4 py-2 rounded-xl text-xs font-bold transition-colors ${active
+    ? 'bg-emerald-500 text-white'
+    : 'bg-white dark:bg-stone-900 border border-stone-100 dark:border-stone-800 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-100'}`;
+
+  return (
+    <div>
+      <div className="flex gap-2 overflow-x-auto pb-1 mb-3">
+        <button onClick={() => onSelect(null)} className={chipClass(activeGroup === null)}>
+          <Globe className="w-3 h-3 inline mr-1" />{t.groupEveryone}
+        </button>
+        {groups.map(group => (
+          <button key={group.id} onClick={() => onSelect(group)} className={chipClass(activeGroup?.id === group.id)}>
+            {group.visibility === 'invite' && <Lock className="w-3 h-3 inline mr-1" />}{group.name}
+          </button>
+        ))}
+        <button onClick={() => setView(view === 'browse' ? 'none' : 'browse')} className={chipClass(view === 'browse' || view === 'create')} title={t.groupFind}>
+          <Plus className="w-3 h-3" />
+        </button>
+      </div>
+
+      {activeGroup && (
+        <div className="bg-white dark:bg-stone-900 p-5 rounded-[24px] shadow-sm border border-stone-100 dark:border-stone-800 transition-colors">
+          <div className="flex items-start gap-3">
+            <div className="flex-1 min-w-0">
+              <h3 className="font-bold truncate">{activeGroup.name}</h3>
+              {activeGroup.description && <p className="text-xs text-stone-500 dark:text-stone-400 mt-1">{activeGroup.description}</p>}
+              <div className="flex flex-wrap items-center gap-2 text-[10px] font-bold uppercase text-stone-400 mt-2">
+                <span>{activeGroup.visibility === 'open' ? t.groupOpen : t.groupInviteOnly}</span>
+                <span>·</span>
+                <button onClick={() => toggleMembers(activeGroup)} className="flex items-center gap-1 uppercase hover:text-emerald-500">
+                  <Users className="w-3 h-3" /> {activeGroup.memberCount} {t.groupMembers}
+                </button>
+                {activeGroup.role && activeGroup.role !== 'member' && <span className="text-emerald-500">{roleLabels[activeGroup.role]}</span>}
+              </div>
+            </div>
+            {activeGroup.role !== 'owner' && (
+              <ItemMenu actions={[{ label: t.groupLeave, confirmLabel: t.groupConfirmLeave, danger: true, onSelect: () => leave(activeGroup) }]} />
+            )}
+          </div>
+
+          {activeGroup.inviteCode && (
+            <div className="flex items-center justify-between gap-2 bg-emerald-50 dark:bg-emerald-900/20 rounded-2xl px-4 py-3 mt-4">
+              <div>
+                <div className="text-[10px] font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400">{t.groupInviteCode}</div>
+                <span className="font-mono text-lg font-bold tracking-widest">{formatCode(activeGroup.inviteCode)}</span>
+              </div>
+              <button onClick={() => newInviteCode(activeGroup)} className="p-2 rounded-xl text-emerald-600 dark:text-emerald-400 hover:bg-emerald-100 dark:hover:bg-emerald-900/40" title={t.groupNewCode}>
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          <AnimatePresence>
+            {view === 'members' && members && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className="overflow-hidden"
+              >
+                <div className="space-y-2 mt-4 max-h-60 overflow-y-auto">
+                  {members.map(member => (
+                    <div key={member.id} className="flex items-center gap-3 text-sm">
+                      <Avatar seed={member.avatarSeed} name={member.handle} className="w-8 h-8" />
+                      <span className="flex-1 font-bold truncate">@{member.handle}</span>
+                      {member.role !== 'member' && <span className="text-[10px] font-bold uppercase text-emerald-500">{roleLabels[member.role]}</span>}
+                      {memberActions(activeGroup, member).length > 0 && <ItemMenu actions={memberActions(activeGroup, member)} />}
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {(view === 'browse' || view === 'create') && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="bg-white dark:bg-stone-900 p-5 rounded-[24px] shadow-sm border border-stone-100 dark:border-stone-800 mt-3 space-y-4 transition-colors">
+              {view === 'browse' ? (
+                <>
+                  <div>
+                    <div className="text-[10px] font-bold uppercase tracking-wider text-stone-400 mb-2">{t.groupDiscover}</div>
+                    {discover.length === 0 ? (
+                      <p className="text-xs text-stone-400">{t.groupNoneToDiscover}</p>
+                    ) : (
+                      <div className="space-y-2 max-h-60 overflow-y-auto">
+                        {discover.map(group => (
+                          <div key={group.id} className="flex items-center gap-3">
+                            <div className="flex-1 min-w-0">
+                              <div className="text-sm font-bold truncate">{group.name}</div>
+                              <div className="text-[10px] text-stone-400">{group.memberCount} {t.groupMembers}</div>
+                            </div>
+                            <button
+                              onClick={async () => enter(await request(`/api/groups/${group.id}/join`, "POST"))}
+                              className="px-3 py-1.5 rounded-xl text-xs font-bold bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400 hover:bg-emerald-100 dark:hover:bg-emerald-900/30"
+                            >
+                              {t.groupJoin}
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      value={joinCode}
+                      onChange={(e) => setJoinCode(e.target.value)}
+                      placeholder={t.groupEnterCode}
+                      className="flex-1 bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-2 text-sm font-mono uppercase focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100"
+                    />
+                    <button
+                      onClick={joinWithCode}
+                      disabled={!joinCode.trim()}
+                      className="px-4 py-2 rounded-xl text-sm font-bold bg-emerald-500 text-white hover:bg-emerald-600 disabled:opacity-50"
+                    >
+                      {t.groupJoin}
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setView('create')}
+                    className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm font-bold text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" /> {t.groupCreate}
+                  </button>
+                </>
+              ) : (
+                <>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder={t.groupName}
+                    maxLength={40}
+                    className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100"
+                  />
+                  <textarea
+                    value={draft.description}
+                    onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder={t.groupDescription}
+                    maxLength={200}
+                    className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-2 text-sm resize-none h-20 focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100"
+                  />
+                  <div className="flex bg-stone-100 dark:bg-stone-800 rounded-xl p-1">
+                    {(['open', 'invite'] as const).map(visibility => (
+                      <button
+                        key={visibility}
+                        onClick={() => setDraft(prev => ({ ...prev, visibility }))}
+                        className={`flex-1 px-3 py-1 rounded-lg text-[10px] font-bold uppercase transition-colors ${draft.visibility === visibility ? 'bg-white dark:bg-stone-700 text-stone-900 dark:text-stone-100 shadow-sm' : 'text-stone-400 dark:text-stone-500'}`}
+                      >
+                        {visibility === 'open' ? t.groupOpen : t.groupInviteOnly}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-stone-400">{draft.visibility === 'open' ? t.groupOpenNote : t.groupInviteOnlyNote}</p>
+                  <div className="flex gap-2">
+                    <button onClick={() => setView('browse')} className="flex-1 py-2 rounded-xl text-sm font-bold text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800">
+                      {t.cancel}
+                    </button>
+                    <button
+                      onClick={create}
+                      disabled={!draft.name.trim()}
+                      className="flex-1 py-2 rounded-xl text-sm font-bold bg-emerald-500 text-white hover:bg-emerald-600 disabled:opacity-50"
+                    >
+                      {t.groupCreate}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+    </div>
+  );
+}
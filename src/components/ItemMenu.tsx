@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MoreHorizontal } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+
+export interface ItemMenuAction {
+  label: string;
+  onSelect: () => void;
+  danger?: boolean;
+  // Shown in place of the label after the first click; the action only runs on the second.
+  confirmLabel?: string;
+}
+
+interface ItemMenuProps {
+  actions: ItemMenuAction[];
+  className?: string;
+}
+
+/** The "…" menu on posts and comments. */
+export default function ItemMenu({ actions, className = '' }: ItemMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const select = (action: ItemMenuAction) => {
+    if (action.confirmLabel && confirming !== action.label) return setConfirming(action.label);
+    setIsOpen(false);
+    action.onSelect();
+  };
+
+  if (actions.length === 0) return null;
+
+  return (
+    <div ref={ref} className={`relative ${className}`}>
+      <button
+        onClick={() => { setIsOpen(!isOpen); setConfirming(null); }}
+        className="p-1 rounded-lg text-stone-400 dark:text-stone-500 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+      >
+        <MoreHorizontal className="w-4 h-4" />
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="absolute right-0 top-8 z-20 min-w-40 bg-white dark:bg-stone-900 border border-stone-100 dark:border-stone-800 rounded-2xl shadow-lg p-1"
+          >
+            {actions.map(action => (
+              <button
+                key={action.label}
+                onClick={() => select(action)}
+                className={`w-full text-left px-3 py-2 rounded-xl text-xs font-bold transition-colors hover:bg-stone-50 dark:hover:bg-stone-800 ${action.danger ? 'text-red-500' : 'text-stone-700 dark:text-stone-300'}`}
+              >
+                {confirming === action.label ? action.confirmLabel : action.label}
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
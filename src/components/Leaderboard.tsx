@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { ChevronDown, Trophy } from 'lucide-react';
+import { TRANSLATIONS } from '../translations';
+import Avatar from './Avatar';
+import { Group } from './GroupsPanel';
+
+type Labels = typeof TRANSLATIONS['en'];
+
+interface LeaderboardEntry {
+  rank: number;
+  handle: string;
+  avatarSeed: string;
+  currentStreakSeconds: number;
+  bestStreakSeconds: number;
+  points: number;
+  monthSeconds: number;
+  mine: boolean;
+}
+
+interface LeaderboardProps {
+  t: Labels;
+  rankFor: (days: number) => { name: string; color: string; bg: string };
+  // When a group feed is open, its members get their own board.
+  activeGroup: Group | null;
+}
+
+type Board = 'all' | 'month' | 'group';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const toDays = (seconds: number) => Math.floor(seconds / DAY_SECONDS);
+
+/** Opt-in rankings by verified streaks and points, listed by handle only. */
+export default function Leaderboard({ t, rankFor, activeGroup }: LeaderboardProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [board, setBoard] = useState<Board>('all');
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [me, setMe] = useState<LeaderboardEntry | null>(null);
+  const [optedIn, setOptedIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (board === 'group' && !activeGroup) setBoard('all');
+  }, [activeGroup?.id]);
+
+  const load = async () => {
+    const query = board === 'group' && activeGroup ? `group=${activeGroup.id}` : `period=${board}`;
+    try {
+      const res = await fetch(`/api/leaderboard?${query}`);
+      const data = await res.json();
+      if (!res.ok) return setError(data.error);
+      setEntries(data.entries);
+      setMe(data.me);
+      setOptedIn(data.optedIn);
+    } catch (err) {
+      console.error("Loading leaderboard failed", err);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, board, activeGroup?.id]);
+
+  const setParticipation = async (join: boolean) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/leaderboard/${join ? 'join' : 'leave'}`, { method: "POST" });
+      if (!res.ok) return setError((await res.json()).error);
+      await load();
+    } catch (err) {
+      console.error("Updating leaderboard participation failed", err);
+      setError(t.requestFailed);
+    }
+  };
+
+  const boards: { id: Board; label: string }[] = [
+    { id: 'all', label: t.leaderboardAllTime },
+    { id: 'month', label: t.leaderboardMonth },
+    ...(activeGroup ? [{ id: 'group' as const, label: activeGroup.name }] : []),
+  ];
+
+  const row = (entry: LeaderboardEntry) => {
+    const rank = rankFor(toDays(entry.currentStreakSeconds));
+    return (
+      <div key={entry.handle} className={`flex items-center gap-3 rounded-2xl px-3 py-2 ${entry.mine ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''}`}>
+        <span className="w-6 text-center text-sm font-bold text-stone-400">{entry.rank}</span>
+        <Avatar seed={entry.avatarSeed} name={entry.handle} className="w-8 h-8" />
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-bold truncate">@{entry.handle}</div>
+          <div className="flex items-center gap-2 text-[10px] text-stone-400">
+            <span className={`px-2 py-0.5 rounded-full font-bold ${rank.color} ${rank.bg}`}>{rank.name}</span>
+            <span>{t.leaderboardBest} {toDays(entry.bestStreakSeconds)} {t.days}</span>
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-sm font-bold">
+            {board === 'month' ? `${toDays(entry.monthSeconds)} ${t.days}` : `${entry.points} pts`}
+          </div>
+          <div className="text-[10px] text-stone-400">{toDays(entry.currentStreakSeconds)} {t.days}</div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-stone-900 p-6 rounded-[32px] shadow-sm border border-stone-100 dark:border-stone-800 transition-colors">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center">
+        <h3 className="font-bold flex items-center gap-2">
+          <Trophy className="w-5 h-5 text-amber-500" /> {t.leaderboard}
+        </h3>
+        <ChevronDown className={`w-5 h-5 text-stone-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <label className="flex items-center justify-between gap-4 mt-4 text-xs text-stone-600 dark:text-stone-300 cursor-pointer">
+              <span>
+                <span className="font-bold block">{t.leaderboardOptIn}</span>
+                <span className="text-stone-400">{t.leaderboardOptInNote}</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={optedIn}
+                onChange={(e) => setParticipation(e.target.checked)}
+                className="w-4 h-4 accent-emerald-500 shrink-0"
+              />
+            </label>
+
+            <div className="flex bg-stone-100 dark:bg-stone-800 rounded-xl p-1 mt-4">
+              {boards.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setBoard(id)}
+                  className={`flex-1 px-3 py-1 rounded-lg text-[10px] font-bold uppercase truncate transition-colors ${board === id ? 'bg-white dark:bg-stone-700 text-stone-900 dark:text-stone-100 shadow-sm' : 'text-stone-400 dark:text-stone-500'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-1 mt-4 max-h-96 overflow-y-auto">
+              {entries === null ? null : entries.length === 0 ? (
+                <p className="text-xs text-stone-400 text-center py-4">{t.leaderboardEmpty}</p>
+              ) : entries.map(row)}
+            </div>
+            {me && !entries?.some(entry => entry.mine) && (
+              <div className="border-t border-stone-100 dark:border-stone-800 mt-2 pt-2">{row(me)}</div>
+            )}
+            {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { motion } from 'motion/react';
+
+interface LockScreenProps {
+  title: string;
+  description: string;
+  placeholder: string;
+  submitLabel: string;
+  errorLabel: string;
+  inputMode?: 'text' | 'numeric';
+  // Resolves to false when the secret is wrong.
+  onUnlock: (secret: string) => Promise<boolean>;
+  footer?: React.ReactNode;
+}
+
+export default function LockScreen({ title, description, placeholder, submitLabel, errorLabel, inputMode = 'text', onUnlock, footer }: LockScreenProps) {
+  const [secret, setSecret] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secret || isChecking) return;
+    setIsChecking(true);
+    setHasError(false);
+    try {
+      const ok = await onUnlock(secret);
+      if (!ok) {
+        setHasError(true);
+        setSecret('');
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F5] dark:bg-stone-950 text-[#1A1A1A] dark:text-stone-100 font-sans flex items-center justify-center p-6 transition-colors duration-300">
+      <motion.form 
+        onSubmit={submit}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-sm bg-white dark:bg-stone-900 p-8 rounded-[32px] shadow-sm border border-stone-100 dark:border-stone-800 text-center transition-colors"
+      >
+        <div className="w-16 h-16 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Lock className="w-8 h-8" />
+        </div>
+        <h2 className="text-xl font-bold mb-2">{title}</h2>
+        <p className="text-stone-500 dark:text-stone-400 text-sm mb-6">{description}</p>
+        <input 
+          type="password"
+          inputMode={inputMode}
+          autoFocus
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          placeholder={placeholder}
+          className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-2xl p-4 text-sm text-center focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 transition-all mb-2 text-stone-900 dark:text-stone-100"
+        />
+        <p className={`text-xs text-red-500 mb-4 h-4 ${hasError ? 'visible' : 'invisible'}`}>{errorLabel}</p>
+        <button 
+          type="submit"
+          disabled={!secret || isChecking}
+          className="w-full bg-[#1A1A1A] dark:bg-emerald-600 text-white py-4 rounded-2xl font-semibold hover:bg-stone-800 dark:hover:bg-emerald-700 transition-all active:scale-95 disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+        {footer}
+      </motion.form>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { TRANSLATIONS } from '../translations';
+import { ReportReason, reportReasonLabels } from './ReportModal';
+
+type Labels = typeof TRANSLATIONS['en'];
+type ModerationAction = 'keep' | 'hide' | 'delete' | 'ban' | 'unban';
+
+interface QueueItem {
+  targetType: 'post' | 'comment';
+  targetId: number;
+  reportCount: number;
+  // 'filter' marks items the automatic content filter held back.
+  reports: { reason: ReportReason | 'filter'; details: string | null; createdAt: string }[];
+  content: string | null;
+  image: { url: string; thumbnailUrl: string } | null;
+  hidden: boolean;
+  deleted: boolean;
+  authorHandle: string | null;
+  authorBanned: boolean;
+}
+
+interface LogEntry {
+  id: number;
+  action: string;
+  targetType: string | null;
+  targetId: number | null;
+  note: string | null;
+  createdAt: string;
+  moderatorHandle: string | null;
+  targetHandle: string | null;
+}
+
+interface ModerationPanelProps {
+  t: Labels;
+  onClose: () => void;
+  // Called after an action so the feed can drop or restore the item.
+  onChanged: () => void;
+}
+
+/** Admin-only review queue for reported posts and comments, plus the audit log. */
+export default function ModerationPanel({ t, onClose, onChanged }: ModerationPanelProps) {
+  const [view, setView] = useState<'queue' | 'log'>('queue');
+  const [queue, setQueue] = useState<QueueItem[] | null>(null);
+  const [log, setLog] = useState<LogEntry[] | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const [queueRes, logRes] = await Promise.all([fetch("/api/moderation/queue"), fetch("/api/moderation/log")]);
+      setQueue(await queueRes.json());
+      setLog(await logRes.json());
+    } catch (err) {
+      console.error("Loading moderation queue failed", err);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const act = async (item: QueueItem, action: ModerationAction) => {
+    const key = `${item.targetType}:${item.targetId}`;
+    setError(null);
+    const res = await fetch(`/api/moderation/${item.targetType}/${item.targetId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action, note: notes[key] }),
+    });
+    if (!res.ok) return setError((await res.json()).error);
+    await load();
+    onChanged();
+  };
+
+  const reasonLabels = { ...reportReasonLabels(t), filter: t.reasonFilter };
+
+  const actions: { action: ModerationAction; label: string; className: string }[] = [
+    { action: 'keep', label: t.modKeep, className: 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400' },
+    { action: 'hide', label: t.modHide, className: 'bg-stone-100 dark:bg-stone-800 text-stone-600 dark:text-stone-300' },
+    { action: 'delete', label: t.delete, className: 'bg-red-50 dark:bg-red-900/20 text-red-500' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-stone-900/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ y: 100, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: 100, opacity: 0 }}
+        className="relative w-full max-w-lg max-h-[85vh] overflow-y-auto bg-white dark:bg-stone-900 rounded-[32px] p-8 shadow-2xl transition-colors"
+      >
+        <h2 className="text-2xl font-bold mb-4">{t.moderation}</h2>
+        <div className="flex bg-stone-100 dark:bg-stone-800 rounded-xl p-1 mb-6">
+          {(['queue', 'log'] as const).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`flex-1 py-2 rounded-lg text-xs font-bold transition-colors ${view === v ? 'bg-white dark:bg-stone-700 shadow-sm' : 'text-stone-400 dark:text-stone-500'}`}
+            >
+              {v === 'queue' ? t.modQueue : t.modLog}
+            </button>
+          ))}
+        </div>
+        {error && <p className="text-xs text-red-500 mb-4">{error}</p>}
+
+        {view === 'queue' && (
+          queue === null ? (
+            <p className="text-sm text-stone-400 text-center py-8">{t.loadingFeed}</p>
+          ) : queue.length === 0 ? (
+            <p className="text-sm text-stone-400 text-center py-8">{t.modQueueEmpty}</p>
+          ) : (
+            <div className="space-y-4">
+              {queue.map(item => {
+                const key = `${item.targetType}:${item.targetId}`;
+                return (
+                  <div key={key} className="border border-stone-100 dark:border-stone-800 rounded-2xl p-4">
+                    <div className="flex justify-between text-[10px] font-bold uppercase text-stone-400 dark:text-stone-500 mb-2">
+                      <span>{item.targetType === 'post' ? t.modPost : t.modComment} · @{item.authorHandle}{item.authorBanned && ` · ${t.modBanned}`}</span>
+                      <span className="text-red-500">{item.reportCount} {t.modReports}{item.hidden && ` · ${t.modHidden}`}</span>
+                    </div>
+                    {item.deleted ? (
+                      <p className="text-sm italic text-stone-400 mb-3">{t.postDeleted}</p>
+                    ) : (
+                      <>
+                        {item.content && <p className="text-sm mb-3 whitespace-pre-wrap">{item.content}</p>}
+                        {item.image && <img src={item.image.thumbnailUrl} className="w-full h-40 object-cover rounded-xl mb-3" alt="" />}
+                      </>
+                    )}
+                    <ul className="text-xs text-stone-500 dark:text-stone-400 mb-3 space-y-1">
+                      {item.reports.map((report, i) => (
+                        <li key={i}>
+                          <span className="font-bold">{reasonLabels[report.reason] || report.reason}</span>
+                          {report.details && ` — ${report.details}`}
+                        </li>
+                      ))}
+                    </ul>
+                    <input
+                      value={notes[key] || ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [key]: e.target.value }))}
+                      placeholder={t.modNote}
+                      className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-3 py-2 text-xs mb-3 focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30"
+                    />
+                    <div className="grid grid-cols-4 gap-2">
+                      {actions.map(({ action, label, className }) => (
+                        <button key={action} onClick={() => act(item, action)} className={`py-2 rounded-xl text-xs font-bold ${className}`}>
+                          {label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => act(item, item.authorBanned ? 'unban' : 'ban')}
+                        className="py-2 rounded-xl text-xs font-bold bg-red-500 text-white"
+                      >
+                        {item.authorBanned ? t.modUnban : t.modBan}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )
+        )}
+
+        {view === 'log' && (
+          <div className="space-y-2">
+            {(log || []).map(entry => (
+              <div key={entry.id} className="text-xs border-b border-stone-50 dark:border-stone-800 pb-2">
+                <div className="flex justify-between">
+                  <span className="font-bold">{entry.moderatorHandle ? `@${entry.moderatorHandle}` : t.modAutomatic} · {entry.action}</span>
+                  <span className="text-stone-400">{new Date(entry.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="text-stone-500 dark:text-stone-400">
+                  {entry.targetType && `${entry.targetType} #${entry.targetId}`}
+                  {entry.targetHandle && ` · @${entry.targetHandle}`}
+                  {entry.note && ` — ${entry.note}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-6 py-3 rounded-xl font-bold text-sm bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors"
+        >
+          {t.close}
+        </button>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Send } from 'lucide-react';
+import { TRANSLATIONS } from '../translations';
+import Avatar from './Avatar';
+
+type Labels = typeof TRANSLATIONS['en'];
+
+export const CANNED_REPLIES = ['here_for_you', 'you_got_this', 'breathe', 'call_me', 'proud_of_you'] as const;
+export type CannedReply = typeof CANNED_REPLIES[number];
+
+export const cannedReplyLabels = (t: Labels): Record<CannedReply, string> => ({
+  here_for_you: t.replyHereForYou,
+  you_got_this: t.replyYouGotThis,
+  breathe: t.replyBreathe,
+  call_me: t.replyCallMe,
+  proud_of_you: t.replyProudOfYou,
+});
+
+interface PanicReply {
+  message: CannedReply;
+  createdAt: string;
+  partner: { handle: string; avatarSeed: string } | null;
+}
+
+interface PanicAlertProps {
+  t: Labels;
+  // Called once partners were alerted, so the logged panic event can be marked.
+  onAlerted: () => void;
+  // Unread notification count pushed by the server; replies arrive as notifications.
+  unread: number;
+}
+
+// Replies are fetched as soon as their notification is pushed; polling covers a dropped connection.
+const POLL_INTERVAL_MS = 15000;
+
+/** The "tell my partners" part of the panic screen, with their replies as they come in. */
+export default function PanicAlert({ t, onAlerted, unread }: PanicAlertProps) {
+  const [partners, setPartners] = useState<{ id: number; handle: string; avatarSeed: string }[] | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [alertId, setAlertId] = useState<number | null>(null);
+  const [replies, setReplies] = useState<PanicReply[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const labels = cannedReplyLabels(t);
+
+  useEffect(() => {
+    fetch("/api/partners")
+      .then(res => res.json())
+      .then(data => {
+        setPartners(data.partners);
+        setSelected(data.partners.map((p: { id: number }) => p.id));
+      })
+      .catch(err => console.error("Loading partners failed", err));
+  }, []);
+
+  useEffect(() => {
+    if (alertId === null) return;
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/panic/${alertId}`);
+        if (res.ok) setReplies((await res.json()).replies);
+      } catch (err) {
+        console.error("Polling panic replies failed", err);
+      }
+    };
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [alertId, unread]);
+
+  const send = async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/panic", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ partnerIds: selected }),
+      });
+      const body = await res.json();
+      if (!res.ok) return setError(body.error);
+      setAlertId(body.id);
+      onAlerted();
+    } catch (err) {
+      console.error("Sending panic alert failed", err);
+      setError(t.requestFailed);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Nothing to offer without partners; the advice above still stands on its own.
+  if (!partners || partners.length === 0) return null;
+
+  return (
+    <div className="mb-6 text-left">
+      {alertId === null ? (
+        <div className="bg-red-50 dark:bg-red-900/20 rounded-2xl p-4">
+          <div className="text-sm font-bold text-red-600 dark:text-red-400 mb-2">{t.panicAlertPartners}</div>
+          <div className="space-y-1 mb-3">
+            {partners.map(partner => (
+              <label key={partner.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(partner.id)}
+                  onChange={(e) => setSelected(prev => e.target.checked ? [...prev, partner.id] : prev.filter(id => id !== partner.id))}
+                  className="w-4 h-4 accent-red-500"
+                />
+                <Avatar seed={partner.avatarSeed} name={partner.handle} className="w-6 h-6" />
+                @{partner.handle}
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={send}
+            disabled={isSending || selected.length === 0}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-sm font-bold bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-900/60 disabled:opacity-50 transition-colors"
+          >
+            <Send className="w-4 h-4" /> {t.panicSendAlert}
+          </button>
+          {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+        </div>
+      ) : (
+        <div className="bg-emerald-50 dark:bg-emerald-900/20 rounded-2xl p-4">
+          <div className="text-sm font-bold text-emerald-700 dark:text-emerald-400 mb-2">{t.panicAlertSent}</div>
+          {replies.length === 0 ? (
+            <p className="text-xs text-stone-500 dark:text-stone-400">{t.panicWaitingReplies}</p>
+          ) : (
+            <div className="space-y-2">
+              {replies.map((reply, idx) => (
+                <motion.div
+                  key={idx}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="flex items-start gap-2 text-sm"
+                >
+                  <Avatar seed={reply.partner?.avatarSeed} name={reply.partner?.handle || '?'} className="w-6 h-6 shrink-0" />
+                  <div>
+                    <span className="font-bold">@{reply.partner?.handle}</span> {labels[reply.message]}
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
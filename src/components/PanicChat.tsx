@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookOpen, Loader2, LifeBuoy, Send } from 'lucide-react';
+import { Language, TRANSLATIONS } from '../translations';
+import { HELPLINES, HELPLINE_DIRECTORY_URL, detectCrisis } from '../safety';
+
+type Labels = typeof TRANSLATIONS['en'];
+
+interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+interface PanicChatProps {
+  t: Labels;
+  language: Language;
+  streakDays: number;
+  rank: string;
+  // Trigger names from the last journal reflection, if any.
+  triggers: string[];
+  onSaveToJournal: (content: string) => void;
+}
+
+/**
+ * Streaming chat with the recovery coach. The conversation lives only in this
+ * component and is gone when the panic screen closes, unless it is saved to the
+ * journal. Helplines are shown as soon as crisis language appears, whether or not
+ * the AI answers.
+ */
+export default function PanicChat({ t, language, streakDays, rank, triggers, onSaveToJournal }: PanicChatProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [crisis, setCrisis] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const bottom = useRef<HTMLDivElement>(null);
+
+  useEffect(() => () => abort.current?.abort(), []);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  // Replaces the text of the answer being streamed, the last message.
+  const setAnswer = (update: (text: string) => string) =>
+    setMessages(prev => [...prev.slice(0, -1), { role: 'model', text: update(prev[prev.length - 1].text) }]);
+
+  const send = async () => {
+    const text = draft.trim();
+    if (!text || isStreaming) return;
+    if (detectCrisis(text)) setCrisis(true);
+    const conversation: ChatMessage[] = [...messages, { role: 'user', text }];
+    setMessages([...conversation, { role: 'model', text: '' }]);
+    setDraft('');
+    setSaved(false);
+    setError(null);
+    setIsStreaming(true);
+    abort.current = new AbortController();
+
+    try {
+      const res = await fetch("/api/ai/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messages: conversation, language, context: { streakDays, rank, triggers } }),
+        signal: abort.current.signal,
+      });
+      if (!res.ok || !res.body) {
+        const body = await res.json().catch(() => ({}));
+        setMessages(conversation);
+        return setError(body.code === 'quota_exceeded' ? t.aiQuotaExceeded : body.code === 'unavailable' ? t.aiUnavailable : body.error || t.requestFailed);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        for (const line of lines.filter(Boolean)) {
+          const event = JSON.parse(line);
+          if (event.text) setAnswer(answer => answer + event.text);
+          if (event.refused) setAnswer(() => t.chatRefused);
+          if (event.error) setError(event.code === 'quota_exceeded' ? t.aiQuotaExceeded : t.requestFailed);
+        }
+      }
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') return;
+      console.error("Coach chat failed", err);
+      setError(t.requestFailed);
+    } finally {
+      setIsStreaming(false);
+      // An answer that never started is dropped so the member can simply resend.
+      setMessages(prev => prev[prev.length - 1]?.role === 'model' && !prev[prev.length - 1].text ? prev.slice(0, -1) : prev);
+    }
+  };
+
+  const saveToJournal = () => {
+    onSaveToJournal(messages.map(message => `${message.role === 'user' ? t.chatYou : t.chatCoach}: ${message.text}`).join('\n\n'));
+    setSaved(true);
+  };
+
+  return (
+    <div className="mb-6 text-left">
+      {crisis && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/40 rounded-2xl p-4 mb-3">
+          <div className="text-sm font-bold text-red-600 dark:text-red-400 flex items-center gap-2 mb-1">
+            <LifeBuoy className="w-4 h-4" /> {t.chatCrisisTitle}
+          </div>
+          <p className="text-xs text-stone-600 dark:text-stone-300 mb-2">{t.chatCrisisBody}</p>
+          <ul className="space-y-1 text-xs">
+            {HELPLINES[language].map(helpline => (
+              <li key={helpline.name}><span className="font-bold">{helpline.name}</span> · {helpline.contact}</li>
+            ))}
+            <li>
+              <a href={HELPLINE_DIRECTORY_URL} target="_blank" rel="noopener noreferrer" className="font-bold text-red-600 dark:text-red-400 underline">
+                {t.chatHelplineDirectory}
+              </a>
+            </li>
+          </ul>
+        </div>
+      )}
+
+      <p className="text-[10px] text-stone-400 mb-2">{t.chatPrivacy}</p>
+      <div className="max-h-64 overflow-y-auto space-y-2 mb-3">
+        {messages.length === 0 && (
+          <p className="text-sm text-stone-500 dark:text-stone-400 p-3 bg-stone-50 dark:bg-stone-800 rounded-xl">{t.chatGreeting}</p>
+        )}
+        {messages.map((message, idx) => (
+          <div
+            key={idx}
+            className={`p-3 rounded-xl text-sm whitespace-pre-wrap ${message.role === 'user' ? 'bg-emerald-50 dark:bg-emerald-900/20 text-stone-800 dark:text-stone-200 ml-8' : 'bg-stone-50 dark:bg-stone-800 text-stone-700 dark:text-stone-300 mr-8'}`}
+          >
+            {message.text || <Loader2 className="w-4 h-4 animate-spin text-stone-400" />}
+          </div>
+        ))}
+        <div ref={bottom} />
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && send()}
+          placeholder={t.chatPlaceholder}
+          maxLength={1000}
+          className="flex-1 min-w-0 px-4 py-2 rounded-xl bg-stone-100 dark:bg-stone-800 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+        <button
+          onClick={send}
+          disabled={!draft.trim() || isStreaming}
+          className="p-2 rounded-xl bg-emerald-600 text-white disabled:opacity-50 transition-opacity"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+      {messages.length > 0 && !isStreaming && (
+        <button
+          onClick={saveToJournal}
+          disabled={saved}
+          className="mt-2 flex items-center gap-1 text-xs font-bold text-stone-500 dark:text-stone-400 hover:text-emerald-600 disabled:text-emerald-600 transition-colors"
+        >
+          <BookOpen className="w-3 h-3" /> {saved ? t.chatSaved : t.chatSaveToJournal}
+        </button>
+      )}
+    </div>
+  );
+}
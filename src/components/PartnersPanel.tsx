@@ -0,0 +1,319 @@
+import React, { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { Bell, Copy, HeartHandshake, UserPlus } from 'lucide-react';
+import { TRANSLATIONS } from '../translations';
+import Avatar from './Avatar';
+import ItemMenu from './ItemMenu';
+import { CANNED_REPLIES, CannedReply, cannedReplyLabels } from './PanicAlert';
+
+type Labels = typeof TRANSLATIONS['en'];
+
+interface PartnerProgress {
+  streakStartedAt: string | null;
+  bestStreakSeconds: number;
+  unlockedBadges: string[];
+  recentRelapses: string[];
+}
+
+interface Partner {
+  id: number;
+  handle: string;
+  avatarSeed: string;
+  since: string;
+  sharing: boolean;
+  progress: PartnerProgress | null;
+}
+
+interface Invite {
+  code: string;
+  expiresAt: string;
+}
+
+interface PartnerNotification {
+  id: number;
+  kind: 'partner_joined' | 'partner_badge' | 'partner_relapse' | 'partner_panic' | 'panic_reply' | 'post_comment';
+  data: { badge?: string; date?: string; alertId?: number; message?: CannedReply; postId?: number };
+  createdAt: string;
+  read: boolean;
+  actor: { handle: string; avatarSeed: string } | null;
+}
+
+interface PartnersPanelProps {
+  t: Labels;
+  rankFor: (days: number) => { name: string; color: string; bg: string };
+  badges: { id: string; icon: string; name: string }[];
+  // Code from an invite link the app was opened with.
+  inviteCode: string | null;
+  onInviteCodeUsed: () => void;
+  // Unread count pushed by the server; a change means there is something new to load.
+  unread: number;
+  onRead: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Codes are shown as ABCD-EFGH; the server ignores the dash.
+const formatCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
+
+/** Accountability partners: invite, join, per-partner sharing and partner activity. */
+export default function PartnersPanel({ t, rankFor, badges, inviteCode, onInviteCodeUsed, unread, onRead }: PartnersPanelProps) {
+  const [partners, setPartners] = useState<Partner[]>([]);
+  const [invite, setInvite] = useState<Invite | null>(null);
+  const [notifications, setNotifications] = useState<PartnerNotification[]>([]);
+  // Panic alerts from partners that can still be answered.
+  const [openPanicAlerts, setOpenPanicAlerts] = useState<number[]>([]);
+  const [showActivity, setShowActivity] = useState(false);
+  const [joinCode, setJoinCode] = useState(inviteCode || '');
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const load = async () => {
+    try {
+      const [partnersRes, notificationsRes] = await Promise.all([fetch("/api/partners"), fetch("/api/notifications")]);
+      const partnersBody = await partnersRes.json();
+      const notificationsBody = await notificationsRes.json();
+      setPartners(partnersBody.partners);
+      setInvite(partnersBody.invite);
+      setNotifications(notificationsBody.notifications);
+      setOpenPanicAlerts(notificationsBody.openPanicAlerts);
+      // Someone reaching out right now shouldn't wait behind the bell.
+      if (notificationsBody.openPanicAlerts.length > 0) setShowActivity(true);
+    } catch (err) {
+      console.error("Loading partners failed", err);
+    }
+  };
+
+  useEffect(() => { load(); }, [unread]);
+
+  useEffect(() => {
+    if (inviteCode) setJoinCode(inviteCode);
+  }, [inviteCode]);
+
+  // Every partner endpoint answers with the full partner list, so one helper covers them all.
+  const request = async (url: string, method: string, body?: object) => {
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body && JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error);
+        return null;
+      }
+      return data;
+    } catch (err) {
+      console.error("Partner request failed", err);
+      setError(t.requestFailed);
+      return null;
+    }
+  };
+
+  const createInvite = async () => {
+    const data = await request("/api/partners/invite", "POST");
+    if (data) setInvite(data);
+  };
+
+  const join = async () => {
+    const data = await request("/api/partners/accept", "POST", { code: joinCode });
+    if (!data) return;
+    setPartners(data.partners);
+    setJoinCode('');
+    onInviteCodeUsed();
+  };
+
+  const setSharing = async (partner: Partner, sharing: boolean) => {
+    const data = await request(`/api/partners/${partner.id}`, "PATCH", { sharing });
+    if (data) setPartners(data.partners);
+  };
+
+  const remove = async (partner: Partner) => {
+    const data = await request(`/api/partners/${partner.id}`, "DELETE");
+    if (data) setPartners(data.partners);
+  };
+
+  const copyLink = async () => {
+    if (!invite) return;
+    await navigator.clipboard.writeText(`${window.location.origin}/?partner=${invite.code}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const toggleActivity = async () => {
+    setShowActivity(!showActivity);
+    if (!showActivity && unread > 0) {
+      onRead();
+      await fetch("/api/notifications/read", { method: "POST" });
+    }
+  };
+
+  const replyToPanic = async (alertId: number, message: CannedReply) => {
+    const data = await request(`/api/panic/${alertId}/reply`, "POST", { message });
+    if (data) setOpenPanicAlerts(prev => prev.filter(id => id !== alertId));
+  };
+
+  const badge = (id?: string) => badges.find(b => b.id === id);
+  const replyLabels = cannedReplyLabels(t);
+
+  const describe = (notification: PartnerNotification) => {
+    switch (notification.kind) {
+      case 'partner_joined':
+        return t.partnerJoined;
+      case 'partner_badge':
+        return `${t.partnerUnlocked} ${badge(notification.data.badge)?.icon || ''} ${badge(notification.data.badge)?.name || notification.data.badge}`;
+      case 'partner_relapse':
+        return `${t.partnerRelapsed} ${new Date(notification.data.date!).toLocaleDateString()}. ${t.partnerReachOut}`;
+      case 'partner_panic':
+        return t.partnerPanicked;
+      case 'panic_reply':
+        return `${t.partnerReplied} "${replyLabels[notification.data.message!]}"`;
+      case 'post_comment':
+        return t.commentedOnYourPost;
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-stone-900 p-6 rounded-[32px] shadow-sm border border-stone-100 dark:border-stone-800 transition-colors">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold flex items-center gap-2">
+          <HeartHandshake className="w-5 h-5 text-emerald-500" /> {t.partners}
+        </h3>
+        <button
+          onClick={toggleActivity}
+          className="relative p-2 rounded-xl text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+          title={t.partnerActivity}
+        >
+          <Bell className="w-5 h-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">{unread}</span>
+          )}
+        </button>
+      </div>
+      <p className="text-xs text-stone-500 dark:text-stone-400 mb-4">{t.partnersNote}</p>
+
+      <AnimatePresence>
+        {showActivity && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="bg-stone-50 dark:bg-stone-800/50 rounded-2xl p-3 mb-4 space-y-2 max-h-60 overflow-y-auto">
+              {notifications.length === 0 ? (
+                <p className="text-xs text-stone-400 text-center py-2">{t.partnerNoActivity}</p>
+              ) : notifications.map(notification => (
+                <div key={notification.id} className={`flex gap-2 items-start text-xs ${notification.read ? 'text-stone-500 dark:text-stone-400' : 'font-bold'}`}>
+                  <Avatar seed={notification.actor?.avatarSeed} name={notification.actor?.handle || '?'} className="w-6 h-6 shrink-0" />
+                  <div className="flex-1">
+                    <span className="font-bold">@{notification.actor?.handle}</span> {describe(notification)}
+                    <div className="text-[10px] font-normal text-stone-400">{new Date(notification.createdAt).toLocaleString()}</div>
+                    {notification.kind === 'partner_panic' && openPanicAlerts.includes(notification.data.alertId!) && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {CANNED_REPLIES.map(message => (
+                          <button
+                            key={message}
+                            onClick={() => replyToPanic(notification.data.alertId!, message)}
+                            className="px-2 py-1 rounded-full text-[10px] font-bold bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 hover:bg-emerald-200 dark:hover:bg-emerald-900/60"
+                          >
+                            {replyLabels[message]}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {partners.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {partners.map(partner => {
+            const days = partner.progress?.streakStartedAt
+              ? Math.max(0, Math.floor((Date.now() - new Date(partner.progress.streakStartedAt).getTime()) / DAY_MS))
+              : null;
+            const rank = days !== null ? rankFor(days) : null;
+            return (
+              <div key={partner.id} className="border border-stone-100 dark:border-stone-800 rounded-2xl p-4">
+                <div className="flex items-center gap-3">
+                  <Avatar seed={partner.avatarSeed} name={partner.handle} />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-bold text-sm truncate">@{partner.handle}</div>
+                    {partner.progress ? (
+                      <div className="flex flex-wrap items-center gap-2 text-xs mt-1">
+                        {days !== null && <span className="font-bold">{days} {t.days}</span>}
+                        {rank && <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${rank.color} ${rank.bg}`}>{rank.name}</span>}
+                        <span>{partner.progress.unlockedBadges.map(id => badge(id)?.icon).join('')}</span>
+                      </div>
+                    ) : (
+                      <div className="text-xs text-stone-400 mt-1">{t.partnerNotSharing}</div>
+                    )}
+                  </div>
+                  <ItemMenu actions={[{ label: t.partnerRemove, confirmLabel: t.confirmDelete, danger: true, onSelect: () => remove(partner) }]} />
+                </div>
+                {partner.progress && partner.progress.recentRelapses.length > 0 && (
+                  <p className="text-[10px] text-stone-400 mt-2">
+                    {t.partnerLastRelapse}: {new Date(partner.progress.recentRelapses[0]).toLocaleDateString()}
+                  </p>
+                )}
+                <label className="flex items-center justify-between mt-3 text-xs text-stone-600 dark:text-stone-300 cursor-pointer">
+                  {t.partnerShareMine}
+                  <input
+                    type="checkbox"
+                    checked={partner.sharing}
+                    onChange={(e) => setSharing(partner, e.target.checked)}
+                    className="w-4 h-4 accent-emerald-500"
+                  />
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {invite ? (
+        <div className="bg-emerald-50 dark:bg-emerald-900/20 rounded-2xl p-4 mb-3">
+          <div className="text-[10px] font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400 mb-1">{t.partnerYourCode}</div>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono text-xl font-bold tracking-widest">{formatCode(invite.code)}</span>
+            <button onClick={copyLink} className="flex items-center gap-1 px-3 py-1.5 rounded-xl text-xs font-bold bg-emerald-500 text-white hover:bg-emerald-600">
+              <Copy className="w-3 h-3" /> {copied ? t.partnerCopied : t.partnerCopyLink}
+            </button>
+          </div>
+          <div className="text-[10px] text-stone-500 dark:text-stone-400 mt-1">
+            {t.partnerCodeExpires} {new Date(invite.expiresAt).toLocaleDateString()}
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={createInvite}
+          className="w-full flex items-center justify-center gap-2 py-3 mb-3 rounded-xl text-sm font-bold bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400 hover:bg-emerald-100 dark:hover:bg-emerald-900/30 transition-colors"
+        >
+          <UserPlus className="w-4 h-4" /> {t.partnerInvite}
+        </button>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          value={joinCode}
+          onChange={(e) => setJoinCode(e.target.value)}
+          placeholder={t.partnerEnterCode}
+          className="flex-1 bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-xl px-4 py-2 text-sm font-mono uppercase focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 text-stone-900 dark:text-stone-100"
+        />
+        <button
+          onClick={join}
+          disabled={!joinCode.trim()}
+          className="px-4 py-2 rounded-xl text-sm font-bold bg-emerald-500 text-white hover:bg-emerald-600 disabled:opacity-50"
+        >
+          {t.partnerJoin}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Award, HandHeart, Handshake } from 'lucide-react';
+
+export const REACTION_KINDS = ['support', 'respect', 'same_here'] as const;
+export type ReactionKind = typeof REACTION_KINDS[number];
+
+export interface Reactions {
+  counts: Partial<Record<ReactionKind, number>>;
+  mine: ReactionKind[];
+}
+
+const ICONS: Record<ReactionKind, React.ComponentType<{ className?: string }>> = {
+  support: HandHeart,
+  respect: Award,
+  same_here: Handshake,
+};
+
+/** Applies one toggle locally, so the bar can update before the server answers. */
+export const toggleReaction = (reactions: Reactions, kind: ReactionKind): Reactions => {
+  const active = reactions.mine.includes(kind);
+  return {
+    counts: { ...reactions.counts, [kind]: Math.max((reactions.counts[kind] || 0) + (active ? -1 : 1), 0) },
+    mine: active ? reactions.mine.filter(k => k !== kind) : [...reactions.mine, kind],
+  };
+};
+
+interface ReactionBarProps {
+  reactions: Reactions;
+  labels: Record<ReactionKind, string>;
+  onToggle: (kind: ReactionKind) => void;
+  compact?: boolean;
+}
+
+export default function ReactionBar({ reactions, labels, onToggle, compact = false }: ReactionBarProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {REACTION_KINDS.map(kind => {
+        const Icon = ICONS[kind];
+        const active = reactions.mine.includes(kind);
+        const count = reactions.counts[kind] || 0;
+        return (
+          <button
+            key={kind}
+            onClick={() => onToggle(kind)}
+            title={labels[kind]}
+            className={`flex items-center gap-1 rounded-full font-bold transition-colors ${compact ? 'px-2 py-0.5 text-[10px]' : 'px-3 py-1 text-xs'} ${
+              active
+                ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300'
+                : 'bg-stone-50 dark:bg-stone-800 text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-700'
+            }`}
+          >
+            <Icon className={compact ? 'w-3 h-3' : 'w-4 h-4'} />
+            {!compact && <span>{labels[kind]}</span>}
+            {count > 0 && <span>{count}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { Clock, Heart, Loader2, ShieldAlert, Sparkles, Target, Zap } from 'lucide-react';
+import { Language, TRANSLATIONS } from '../translations';
+import { JournalEntry, Relapse } from '../appData';
+import { isEncrypted } from '../crypto';
+
+type Labels = typeof TRANSLATIONS['en'];
+
+interface Reflection {
+  triggers: { name: string; evidence: string }[];
+  patterns: string[];
+  riskTimes: { when: string; reason: string }[];
+  copingStrategies: { title: string; description: string }[];
+}
+
+interface ReflectionPanelProps {
+  t: Labels;
+  language: Language;
+  journal: JournalEntry[];
+  relapses: Relapse[];
+  loggedIn: boolean;
+  // Receives the trigger names found, so the panic coach can refer to them.
+  onTriggers: (triggers: string[]) => void;
+}
+
+interface Candidate {
+  key: string;
+  kind: 'journal' | 'relapse';
+  date: string;
+  text: string;
+}
+
+// Matches the server's limit per reflection.
+const MAX_SELECTED = 20;
+const CANDIDATE_LIMIT = 30;
+
+/**
+ * Sends the entries the member ticks to the AI proxy and shows what it found.
+ * Nothing is sent until they press the button, and the result lives only here.
+ */
+export default function ReflectionPanel({ t, language, journal, relapses, loggedIn, onTriggers }: ReflectionPanelProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reflection, setReflection] = useState<Reflection | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Entries that are still locked can't be read, so they can't be offered either.
+  const candidates = useMemo<Candidate[]>(() => [
+    ...journal.map(entry => ({ key: `journal-${entry.date}`, kind: 'journal' as const, date: entry.date, text: entry.content })),
+    ...relapses.map(relapse => ({ key: `relapse-${relapse.date}`, kind: 'relapse' as const, date: relapse.date, text: relapse.note })),
+  ]
+    .filter(candidate => candidate.text.trim() && !isEncrypted(candidate.text))
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, CANDIDATE_LIMIT), [journal, relapses]);
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else if (next.size < MAX_SELECTED) next.add(key);
+      return next;
+    });
+  };
+
+  const reflect = async () => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/ai/reflect", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          entries: candidates.filter(candidate => selected.has(candidate.key)).map(({ kind, date, text }) => ({ kind, date, text })),
+          language,
+          utcOffsetMinutes: -new Date().getTimezoneOffset(),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        return setError(body.code === 'quota_exceeded' ? t.aiQuotaExceeded : body.code === 'unavailable' ? t.aiUnavailable : body.error || t.requestFailed);
+      }
+      setReflection(body.reflection);
+      onTriggers(body.reflection.triggers.map((trigger: { name: string }) => trigger.name));
+    } catch (err) {
+      console.error("Reflection failed", err);
+      setError(t.requestFailed);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cards: { title: string; icon: React.ReactNode; items: { title?: string; text: string }[] }[] = reflection ? [
+    { title: t.reflectionTriggers, icon: <Zap className="w-4 h-4 text-amber-500" />, items: reflection.triggers.map(item => ({ title: item.name, text: item.evidence })) },
+    { title: t.reflectionPatterns, icon: <Heart className="w-4 h-4 text-rose-500" />, items: reflection.patterns.map(text => ({ text })) },
+    { title: t.reflectionRiskTimes, icon: <Clock className="w-4 h-4 text-indigo-500" />, items: reflection.riskTimes.map(item => ({ title: item.when, text: item.reason })) },
+    { title: t.reflectionCoping, icon: <Target className="w-4 h-4 text-emerald-500" />, items: reflection.copingStrategies.map(item => ({ title: item.title, text: item.description })) },
+  ] : [];
+
+  return (
+    <div className="bg-white dark:bg-stone-900 p-6 rounded-[32px] border border-stone-100 dark:border-stone-800 shadow-sm mb-8 transition-colors">
+      <h3 className="text-sm font-bold text-stone-900 dark:text-stone-100 flex items-center gap-2 mb-2">
+        <Sparkles className="w-4 h-4 text-emerald-500" /> {t.reflection}
+      </h3>
+      <div className="flex gap-2 p-3 rounded-2xl bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 text-xs mb-4">
+        <ShieldAlert className="w-4 h-4 shrink-0 mt-0.5" />
+        <p>{t.reflectionPrivacy}</p>
+      </div>
+
+      {!loggedIn ? (
+        <p className="text-xs text-stone-400 text-center py-4">{t.reflectionLogin}</p>
+      ) : candidates.length === 0 ? (
+        <p className="text-xs text-stone-400 text-center py-4">{t.reflectionNoEntries}</p>
+      ) : (
+        <>
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest">{t.reflectionChoose}</span>
+            <span className="text-[10px] text-stone-400">{selected.size}/{MAX_SELECTED}</span>
+          </div>
+          <div className="space-y-1 max-h-64 overflow-y-auto mb-4">
+            {candidates.map(candidate => (
+              <label key={candidate.key} className="flex items-start gap-3 p-2 rounded-xl hover:bg-stone-50 dark:hover:bg-stone-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(candidate.key)}
+                  onChange={() => toggle(candidate.key)}
+                  disabled={!selected.has(candidate.key) && selected.size >= MAX_SELECTED}
+                  className="w-4 h-4 mt-0.5 accent-emerald-500 shrink-0"
+                />
+                <span className="min-w-0">
+                  <span className={`text-[10px] font-bold uppercase ${candidate.kind === 'relapse' ? 'text-red-500' : 'text-stone-400'}`}>
+                    {candidate.kind === 'relapse' ? t.relapse : t.journal} · {new Date(candidate.date).toLocaleDateString()}
+                  </span>
+                  <span className="block text-xs text-stone-700 dark:text-stone-300 line-clamp-2">{candidate.text}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={reflect}
+            disabled={selected.size === 0 || isLoading}
+            className="w-full py-3 rounded-2xl bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-40 transition-opacity"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            {t.reflectionSend} ({selected.size})
+          </button>
+          {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+        </>
+      )}
+
+      <AnimatePresence>
+        {reflection && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="grid gap-3 mt-6"
+          >
+            {cards.map(card => (
+              <div key={card.title} className="p-4 rounded-2xl bg-stone-50 dark:bg-stone-800/50">
+                <h4 className="text-xs font-bold flex items-center gap-2 mb-2">{card.icon} {card.title}</h4>
+                {card.items.length === 0 ? (
+                  <p className="text-xs text-stone-400">{t.reflectionNothingFound}</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {card.items.map((item, index) => (
+                      <li key={index} className="text-xs text-stone-600 dark:text-stone-300">
+                        {item.title && <span className="font-bold text-stone-900 dark:text-stone-100 block">{item.title}</span>}
+                        {item.text}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+            <p className="text-[10px] text-stone-400 text-center">{t.reflectionDisclaimer}</p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { TRANSLATIONS } from '../translations';
+
+type Labels = typeof TRANSLATIONS['en'];
+
+export const REPORT_REASONS = ['harassment', 'explicit', 'triggering', 'spam', 'other'] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export const reportReasonLabels = (t: Labels): Record<ReportReason, string> => ({
+  harassment: t.reasonHarassment,
+  explicit: t.reasonExplicit,
+  triggering: t.reasonTriggering,
+  spam: t.reasonSpam,
+  other: t.reasonOther,
+});
+
+interface ReportModalProps {
+  t: Labels;
+  // Resolves to an error message, or null once the report was accepted.
+  onSubmit: (reason: ReportReason, details: string) => Promise<string | null>;
+  onClose: () => void;
+}
+
+export default function ReportModal({ t, onSubmit, onClose }: ReportModalProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const labels = reportReasonLabels(t);
+
+  const submit = async () => {
+    if (!reason) return;
+    setStatus('sending');
+    setError(null);
+    const failure = await onSubmit(reason, details);
+    setError(failure);
+    setStatus(failure ? 'idle' : 'sent');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-stone-900/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ y: 100, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: 100, opacity: 0 }}
+        className="relative w-full max-w-md bg-white dark:bg-stone-900 rounded-[32px] p-8 shadow-2xl transition-colors"
+      >
+        <h2 className="text-2xl font-bold mb-2">{t.report}</h2>
+        {status === 'sent' ? (
+          <p className="text-sm text-stone-500 dark:text-stone-400 mb-6">{t.reportThanks}</p>
+        ) : (
+          <>
+            <p className="text-sm text-stone-500 dark:text-stone-400 mb-6">{t.reportNote}</p>
+            <div className="space-y-2 mb-4">
+              {REPORT_REASONS.map(r => (
+                <button
+                  key={r}
+                  onClick={() => setReason(r)}
+                  className={`w-full text-left px-4 py-3 rounded-xl text-sm font-bold transition-colors ${reason === r ? 'bg-emerald-500 text-white' : 'bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700'}`}
+                >
+                  {labels[r]}
+                </button>
+              ))}
+            </div>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={500}
+              placeholder={t.reportDetails}
+              className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-2xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-100 dark:focus:ring-emerald-900/30 resize-none h-20 mb-4 text-stone-900 dark:text-stone-100"
+            />
+            {error && <p className="text-xs text-red-500 mb-4">{error}</p>}
+          </>
+        )}
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-bold text-sm bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors"
+          >
+            {status === 'sent' ? t.close : t.cancel}
+          </button>
+          {status !== 'sent' && (
+            <button
+              onClick={submit}
+              disabled={!reason || status === 'sending'}
+              className="flex-1 py-3 rounded-xl font-bold text-sm bg-red-500 text-white hover:bg-red-600 transition-colors disabled:opacity-50"
+            >
+              {t.sendReport}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_DATA } from './appData';
+import { createEncryptionSettings, decryptAppData, decryptString, deriveKey, encryptAppData, encryptString, isEncrypted, unlockWithPassphrase } from './crypto';
+
+// Few iterations keep the tests fast; the iteration count doesn't change the format.
+const testKey = (passphrase: string) => deriveKey(passphrase, btoa('0123456789abcdef'), 1000);
+
+describe('encryptString', () => {
+  it('round-trips text and never repeats a ciphertext', async () => {
+    const key = await testKey('correct horse');
+    const first = await encryptString(key, 'journal entry ✓');
+    const second = await encryptString(key, 'journal entry ✓');
+    expect(isEncrypted(first)).toBe(true);
+    expect(first).not.toBe(second);
+    expect(await decryptString(key, first)).toBe('journal entry ✓');
+  });
+
+  it('fails with another key', async () => {
+    const value = await encryptString(await testKey('correct horse'), 'secret');
+    await expect(decryptString(await testKey('wrong horse'), value)).rejects.toThrow();
+  });
+});
+
+describe('encryptAppData', () => {
+  it('encrypts only the free-text fields and decrypts them back', async () => {
+    const key = await testKey('correct horse');
+    const data = {
+      ...INITIAL_DATA,
+      relapses: [{ date: '2026-01-01T00:00:00.000Z', note: 'note' }],
+      journal: [{ date: '2026-01-02T00:00:00.000Z', content: 'entry' }],
+      urges: [{ date: '2026-01-03T00:00:00.000Z', intensity: 4, trigger: null, context: 'ctx', whatWorked: 'walk', updatedAt: '2026-01-03T00:00:00.000Z' }],
+    };
+    const encrypted = await encryptAppData(data, key);
+    expect(isEncrypted(encrypted.relapses[0].note)).toBe(true);
+    expect(isEncrypted(encrypted.urges[0].whatWorked)).toBe(true);
+    expect(encrypted.urges[0].intensity).toBe(4);
+    expect(await decryptAppData(encrypted, key)).toEqual(data);
+  });
+});
+
+describe('unlockWithPassphrase', () => {
+  it('returns a key only for the right passphrase', async () => {
+    const { settings } = await createEncryptionSettings('correct horse');
+    expect(await unlockWithPassphrase('correct horse', settings)).not.toBeNull();
+    expect(await unlockWithPassphrase('wrong horse', settings)).toBeNull();
+  });
+});
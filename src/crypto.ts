@@ -0,0 +1,152 @@
+import { AppData } from './appData';
+
+// Journal entries, relapse notes and the free text of urges are encrypted with AES-GCM using a key derived
+// from the user's passphrase via PBKDF2. Only the salt and a verifier ever leave
+// memory; the passphrase and key do not, so a lost passphrase cannot be recovered.
+
+const PBKDF2_ITERATIONS = 310_000;
+const ENCRYPTED_PREFIX = 'enc:v1:';
+// Encrypted with the derived key so a wrong passphrase can be detected before any data is touched.
+const VERIFIER_PLAINTEXT = 'ascend-passphrase-check';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptionSettings {
+  salt: string;
+  iterations: number;
+  verifier: string;
+}
+
+// Built byte by byte: spreading a long entry into String.fromCharCode overflows the call stack.
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export const isEncrypted = (value: string) => value.startsWith(ENCRYPTED_PREFIX);
+
+export async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/** Throws if the value was encrypted with a different key. */
+export async function decryptString(key: CryptoKey, value: string): Promise<string> {
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
+
+export async function createEncryptionSettings(passphrase: string): Promise<{ settings: EncryptionSettings; key: CryptoKey }> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await encryptString(key, VERIFIER_PLAINTEXT);
+  return { settings: { salt, iterations: PBKDF2_ITERATIONS, verifier }, key };
+}
+
+/** Returns the key for the given passphrase, or null if the passphrase is wrong. */
+export async function unlockWithPassphrase(passphrase: string, settings: EncryptionSettings): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, settings.salt, settings.iterations);
+  try {
+    return (await decryptString(key, settings.verifier)) === VERIFIER_PLAINTEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+const encryptField = (key: CryptoKey, value: string) =>
+  isEncrypted(value) ? Promise.resolve(value) : encryptString(key, value);
+
+// Values encrypted under another key (e.g. synced from a device with an older
+// passphrase) are left as ciphertext rather than dropped.
+const decryptField = async (key: CryptoKey, value: string) => {
+  if (!isEncrypted(value)) return value;
+  try {
+    return await decryptString(key, value);
+  } catch {
+    return value;
+  }
+};
+
+/** Encrypts the sensitive free-text fields; everything else stays readable for sync and analytics. */
+export async function encryptAppData(data: AppData, key: CryptoKey): Promise<AppData> {
+  return {
+    ...data,
+    relapses: await Promise.all(data.relapses.map(async r => ({ ...r, note: await encryptField(key, r.note) }))),
+    journal: await Promise.all(data.journal.map(async e => ({ ...e, content: await encryptField(key, e.content) }))),
+    urges: await Promise.all(data.urges.map(async u => ({
+      ...u,
+      context: await encryptField(key, u.context),
+      whatWorked: await encryptField(key, u.whatWorked),
+    }))),
+  };
+}
+
+export async function decryptAppData(data: AppData, key: CryptoKey): Promise<AppData> {
+  return {
+    ...data,
+    relapses: await Promise.all(data.relapses.map(async r => ({ ...r, note: await decryptField(key, r.note) }))),
+    journal: await Promise.all(data.journal.map(async e => ({ ...e, content: await decryptField(key, e.content) }))),
+    urges: await Promise.all(data.urges.map(async u => ({
+      ...u,
+      context: await decryptField(key, u.context),
+      whatWorked: await decryptField(key, u.whatWorked),
+    }))),
+  };
+}
+
+/**
+ * Returns an encryptAppData bound to one key that reuses the previous result
+ * while the relapse, journal and urge lists are unchanged, so the ticking best streak
+ * doesn't re-encrypt every entry once a second.
+ */
+export function createAppDataEncryptor(key: CryptoKey) {
+  let last: { source: AppData; encrypted: AppData } | null = null;
+  return async (data: AppData): Promise<AppData> => {
+    if (last && last.source.relapses === data.relapses && last.source.journal === data.journal && last.source.urges === data.urges) {
+      return { ...data, relapses: last.encrypted.relapses, journal: last.encrypted.journal, urges: last.encrypted.urges };
+    }
+    const encrypted = await encryptAppData(data, key);
+    last = { source: data, encrypted };
+    return encrypted;
+  };
+}
+
+// --- App lock PIN ---
+
+export interface SecretHash {
+  salt: string;
+  hash: string;
+}
+
+const PIN_ITERATIONS = 100_000;
+
+const hashSecret = async (secret: string, salt: string) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt: fromBase64(salt), iterations: PIN_ITERATIONS, hash: 'SHA-256' }, material, 256);
+  return toBase64(new Uint8Array(bits));
+};
+
+/** Hashes an app lock PIN or passphrase so it can be stored and verified without keeping it. */
+export async function createSecretHash(secret: string): Promise<SecretHash> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  return { salt, hash: await hashSecret(secret, salt) };
+}
+
+export async function verifySecret(secret: string, stored: SecretHash): Promise<boolean> {
+  return (await hashSecret(secret, stored.salt)) === stored.hash;
+}
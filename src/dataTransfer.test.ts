@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_DATA, InvalidAppDataError, SCHEMA_VERSION } from './appData';
+import { diffAppData, exportAppData, journalToCsv, parseImportFile } from './dataTransfer';
+
+describe('parseImportFile', () => {
+  it('reads its own export files', () => {
+    const data = { ...INITIAL_DATA, journal: [{ date: '2026-01-01T00:00:00.000Z', content: 'hi' }] };
+    expect(parseImportFile(exportAppData(data))).toEqual(data);
+  });
+
+  it('accepts and upgrades the raw stored blob', () => {
+    const imported = parseImportFile(JSON.stringify({ ...INITIAL_DATA, schemaVersion: 1 }));
+    expect(imported.schemaVersion).toBe(SCHEMA_VERSION);
+  });
+
+  it('rejects files that are not JSON or not tracker data', () => {
+    expect(() => parseImportFile('not json')).toThrow(InvalidAppDataError);
+    expect(() => parseImportFile('[1, 2]')).toThrow(InvalidAppDataError);
+  });
+});
+
+describe('diffAppData', () => {
+  it('counts what an import adds and removes', () => {
+    const current = { ...INITIAL_DATA, unlockedBadges: ['a', 'b'] };
+    const incoming = { ...INITIAL_DATA, unlockedBadges: ['b', 'c', 'd'] };
+    expect(diffAppData(current, incoming).badges).toEqual({ added: 2, removed: 1 });
+  });
+});
+
+describe('journalToCsv', () => {
+  it('quotes cells with separators', () => {
+    expect(journalToCsv([{ date: 'd', content: 'a, "b"' }])).toBe('date,content\r\nd,"a, ""b"""');
+  });
+
+  it('keeps spreadsheets from running cells as formulas', () => {
+    const csv = journalToCsv(['=1+1', '+1', '-1', '@SUM(A1)'].map(content => ({ date: 'd', content })));
+    expect(csv.split('\r\n').slice(1)).toEqual(['d,"\'=1+1"', 'd,"\'+1"', 'd,"\'-1"', 'd,"\'@SUM(A1)"']);
+  });
+});
@@ -0,0 +1,84 @@
+import { AppData, InvalidAppDataError, JournalEntry, Relapse, migrateAppData } from './appData';
+
+// Identifies files written by exportAppData, so other JSON files are rejected with a clear message.
+const EXPORT_FORMAT = 'ascend-export';
+
+export interface AppDataExport {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+  data: AppData;
+}
+
+export const exportAppData = (data: AppData): string => {
+  const payload: AppDataExport = { format: EXPORT_FORMAT, exportedAt: new Date().toISOString(), data };
+  return JSON.stringify(payload, null, 2);
+};
+
+// Spreadsheets run a cell starting with one of these as a formula, so such cells get a leading
+// apostrophe, which they show as plain text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string) => {
+  const isFormula = FORMULA_PREFIX.test(value);
+  const text = isFormula ? `'${value}` : value;
+  return isFormula || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: string[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const relapsesToCsv = (relapses: Relapse[]) =>
+  toCsv(['date', 'note'], relapses.map(r => [r.date, r.note]));
+
+export const journalToCsv = (journal: JournalEntry[]) =>
+  toCsv(['date', 'content'], journal.map(e => [e.date, e.content]));
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Parses an imported file. Accepts both exportAppData files and the raw blob
+ * stored under `nofap_data`, upgrading either to the current schema.
+ */
+export const parseImportFile = (text: string): AppData => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new InvalidAppDataError(['file is not valid JSON']);
+  }
+  if (parsed?.format === EXPORT_FORMAT) return migrateAppData(parsed.data);
+  return migrateAppData(parsed);
+};
+
+export interface ImportDiff {
+  relapses: { added: number; removed: number };
+  journal: { added: number; removed: number };
+  badges: { added: number; removed: number };
+  startDate: { current: string | null; incoming: string | null };
+}
+
+const countDifference = <T>(current: T[], incoming: T[], keyOf: (item: T) => string) => {
+  const currentKeys = new Set(current.map(keyOf));
+  const incomingKeys = new Set(incoming.map(keyOf));
+  return {
+    added: [...incomingKeys].filter(k => !currentKeys.has(k)).length,
+    removed: [...currentKeys].filter(k => !incomingKeys.has(k)).length,
+  };
+};
+
+const dateKey = (item: { date: string }) => new Date(item.date).toISOString();
+
+/** Summarises what an import would add to or remove from the current data. */
+export const diffAppData = (current: AppData, incoming: AppData): ImportDiff => ({
+  relapses: countDifference(current.relapses, incoming.relapses, dateKey),
+  journal: countDifference(current.journal, incoming.journal, dateKey),
+  badges: countDifference(current.unlockedBadges, incoming.unlockedBadges, b => b),
+  startDate: { current: current.startDate, incoming: incoming.startDate },
+});
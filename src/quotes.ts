@@ -0,0 +1,54 @@
+import { Language } from './translations';
+
+// Shown in the Daily Wisdom card when the AI proxy is off, out of quota or
+// unreachable, and for visitors who are not logged in.
+export const OFFLINE_QUOTES: Record<Language, string[]> = {
+  en: [
+    "The pain of discipline weighs ounces; the pain of regret weighs tons.",
+    "You do not rise to the level of your goals. You fall to the level of your habits.",
+    "The urge is a wave. Ride it out and watch it break.",
+    "Every day you stay the course is a promise kept to yourself.",
+    "He who conquers himself is the mightiest warrior.",
+    "Freedom is not the absence of temptation, but mastery over it.",
+  ],
+  id: [
+    "Rasa sakit disiplin itu ringan; rasa sakit penyesalan itu berat.",
+    "Anda tidak naik ke tingkat tujuan Anda. Anda jatuh ke tingkat kebiasaan Anda.",
+    "Dorongan itu seperti ombak. Bertahanlah dan lihat ia pecah.",
+    "Setiap hari Anda bertahan adalah janji yang ditepati pada diri sendiri.",
+    "Siapa yang menaklukkan dirinya sendiri adalah pejuang terkuat.",
+    "Kebebasan bukanlah ketiadaan godaan, melainkan penguasaan atasnya.",
+  ],
+  ja: [
+    "規律の痛みは軽く、後悔の痛みは重い。",
+    "人は目標の高さまで上がるのではない。習慣の高さまで落ちるのだ。",
+    "衝動は波のようなもの。乗り切れば必ず砕ける。",
+    "続けた一日一日が、自分との約束を守った証だ。",
+    "己に克つ者こそ、最も強い戦士である。",
+    "自由とは誘惑がないことではなく、それを制することだ。",
+  ],
+  zh: [
+    "自律的痛苦轻如鸿毛，后悔的痛苦重如泰山。",
+    "你不会上升到目标的高度，而是跌落到习惯的水平。",
+    "冲动就像海浪，坚持住，看它自己退去。",
+    "坚持的每一天，都是对自己信守的承诺。",
+    "胜人者有力，自胜者强。",
+    "自由不是没有诱惑，而是能够驾驭诱惑。",
+  ],
+  es: [
+    "El dolor de la disciplina pesa gramos; el del arrepentimiento pesa toneladas.",
+    "No te elevas al nivel de tus metas. Caes al nivel de tus hábitos.",
+    "El impulso es una ola. Aguanta y mírala romper.",
+    "Cada día que te mantienes firme es una promesa cumplida contigo mismo.",
+    "Quien se vence a sí mismo es el guerrero más poderoso.",
+    "La libertad no es la ausencia de tentación, sino el dominio sobre ella.",
+  ],
+  ru: [
+    "Боль дисциплины весит граммы, боль сожаления — тонны.",
+    "Мы не поднимаемся до уровня своих целей. Мы опускаемся до уровня своих привычек.",
+    "Желание — это волна. Переживи её и смотри, как она разбивается.",
+    "Каждый день, когда ты держишься, — это обещание, данное себе и сдержанное.",
+    "Кто победил себя, тот сильнейший из воинов.",
+    "Свобода — это не отсутствие соблазна, а власть над ним.",
+  ],
+};
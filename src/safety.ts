@@ -0,0 +1,55 @@
+import { Language } from './translations';
+
+// Shared by the panic chat and the server's coach prompt. Crisis language is
+// checked in every supported language whatever the app language is, the same way
+// the content filter treats posts.
+
+const CRISIS_PHRASES: Record<Language, string[]> = {
+  en: ["suicide", "suicidal", "kill myself", "end my life", "want to die", "better off dead", "no reason to live", "self harm", "self-harm", "hurt myself", "cut myself"],
+  id: ["bunuh diri", "ingin mati", "pengen mati", "mengakhiri hidup", "menyakiti diri", "melukai diri"],
+  ja: ["死にたい", "自殺", "消えたい", "自傷", "命を絶"],
+  zh: ["自杀", "想死", "轻生", "自残", "不想活"],
+  es: ["suicid", "matarme", "quiero morir", "quitarme la vida", "hacerme daño", "no quiero vivir"],
+  ru: ["суицид", "покончить с собой", "хочу умереть", "убить себя", "не хочу жить", "самоповрежд"],
+};
+
+const PHRASES = Object.values(CRISIS_PHRASES).flat();
+
+/** True when the text mentions suicide or self-harm, so helplines should be shown. */
+export const detectCrisis = (text: string) => {
+  const normalized = text.normalize('NFKC').toLowerCase();
+  return PHRASES.some(phrase => normalized.includes(phrase));
+};
+
+export interface Helpline {
+  name: string;
+  contact: string;
+}
+
+// Listed by app language; findahelpline.com covers every other country.
+export const HELPLINES: Record<Language, Helpline[]> = {
+  en: [
+    { name: "988 Suicide & Crisis Lifeline (US)", contact: "Call or text 988" },
+    { name: "Samaritans (UK & Ireland)", contact: "116 123" },
+  ],
+  id: [
+    { name: "Layanan SEJIWA", contact: "119 ext. 8" },
+  ],
+  ja: [
+    { name: "いのちの電話", contact: "0570-783-556" },
+    { name: "よりそいホットライン", contact: "0120-279-338" },
+  ],
+  zh: [
+    { name: "希望24热线", contact: "400-161-9995" },
+    { name: "香港撒玛利亚防止自杀会", contact: "2389 2222" },
+  ],
+  es: [
+    { name: "Línea 024 (España)", contact: "024" },
+    { name: "Línea de la Vida (México)", contact: "800 911 2000" },
+  ],
+  ru: [
+    { name: "Телефон доверия МЧС", contact: "+7 495 989-50-50" },
+  ],
+};
+
+export const HELPLINE_DIRECTORY_URL = "https://findahelpline.com";
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_REWARDED_URGES_PER_DAY, URGE_POINTS, pointsFor, urgePoints } from './scoring';
+
+describe('pointsFor', () => {
+  it('gives a point per hour plus milestone bonuses', () => {
+    expect(pointsFor(3 * 3600 + 59)).toBe(3);
+    expect(pointsFor(3 * 24 * 3600)).toBe(72 + 10 + 30);
+  });
+});
+
+describe('urgePoints', () => {
+  const start = '2026-01-01T00:00:00.000Z';
+  const now = Date.parse('2026-01-03T00:00:00.000Z');
+
+  it('counts urges during the current streak only', () => {
+    expect(urgePoints(['2025-12-31T23:00:00.000Z', '2026-01-01T12:00:00.000Z', '2026-01-04T00:00:00.000Z'], start, now)).toBe(URGE_POINTS);
+    expect(urgePoints(['2026-01-01T12:00:00.000Z'], null, now)).toBe(0);
+  });
+
+  it('caps the urges rewarded per day', () => {
+    const sameDay = Array.from({ length: 10 }, (_, i) => `2026-01-02T0${i}:00:00.000Z`);
+    expect(urgePoints(sameDay, start, now)).toBe(MAX_REWARDED_URGES_PER_DAY * URGE_POINTS);
+  });
+});
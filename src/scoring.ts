@@ -0,0 +1,34 @@
+// Shared between the dashboard and the server-side leaderboard, so the points a
+// member sees on their dashboard are the points the leaderboard ranks by.
+
+// The day counts of the badges in App.tsx; reaching one is worth ten points per day.
+export const MILESTONE_DAYS = [1, 3, 7, 14, 30, 60, 90, 180, 365];
+
+const HOUR_SECONDS = 3600;
+const DAY_SECONDS = 24 * HOUR_SECONDS;
+
+/** One point per clean hour, plus a bonus for every milestone the streak has reached. */
+export const pointsFor = (streakSeconds: number) => {
+  const days = Math.floor(streakSeconds / DAY_SECONDS);
+  const milestonePoints = MILESTONE_DAYS.reduce((acc, milestone) => days >= milestone ? acc + milestone * 10 : acc, 0);
+  return Math.floor(streakSeconds / HOUR_SECONDS) + milestonePoints;
+};
+
+// Each resisted urge is worth a few points. Only a few a day count, so logging
+// urges can't outscore staying clean.
+export const URGE_POINTS = 5;
+export const MAX_REWARDED_URGES_PER_DAY = 3;
+
+/** Points for urges logged during the current streak, i.e. at or after its start. */
+export const urgePoints = (urgeDates: string[], streakStart: string | null, now = Date.now()) => {
+  if (!streakStart) return 0;
+  const from = new Date(streakStart).getTime();
+  const perDay = new Map<string, number>();
+  for (const date of urgeDates) {
+    const time = new Date(date).getTime();
+    if (!(time >= from && time <= now)) continue;
+    const day = new Date(time).toISOString().slice(0, 10);
+    perDay.set(day, Math.min((perDay.get(day) ?? 0) + 1, MAX_REWARDED_URGES_PER_DAY));
+  }
+  return [...perDay.values()].reduce((acc, count) => acc + count * URGE_POINTS, 0);
+};
@@ -56,6 +56,278 @@ export const TRANSLATIONS = {
     saveEntry: "Save Entry",
     howFeeling: "How are you feeling today? Any triggers?",
     noRelapses: "No relapses recorded. Keep it up!",
+    dataRecovered: "Some of your saved data was damaged and has been repaired. A backup of the original was kept.",
+    dismiss: "Dismiss",
+    settings: "Settings",
+    close: "Close",
+    yourData: "Your Data",
+    yourDataNote: "Export a backup you control, or restore one from another browser.",
+    exportJson: "Export Backup (JSON)",
+    exportRelapsesCsv: "Relapses (CSV)",
+    exportJournalCsv: "Journal (CSV)",
+    importData: "Import Backup",
+    importInvalid: "This file is not a valid Ascend backup.",
+    importPreview: "Import Preview",
+    importHint: "Merge keeps everything on this device and adds what is new in the file. Replace overwrites this device with the file.",
+    relapses: "Relapses",
+    streakStart: "Streak Start",
+    mergeData: "Merge",
+    replaceData: "Replace",
+    encryption: "Passphrase Lock",
+    encryptionNote: "Encrypt your journal and relapse notes on this device and on the server with a passphrase only you know.",
+    encryptionWarning: "If you lose your passphrase, your encrypted entries cannot be recovered. Nobody can reset it for you.",
+    encryptionOn: "Your journal and relapse notes are encrypted.",
+    passphrase: "Passphrase",
+    confirmPassphrase: "Confirm passphrase",
+    currentPassphrase: "Current passphrase",
+    newPassphrase: "New passphrase",
+    enableEncryption: "Enable Encryption",
+    changePassphrase: "Change Passphrase",
+    disableEncryption: "Turn Off",
+    lockNow: "Lock Now",
+    unlock: "Unlock",
+    unlockTitle: "Your journal is locked",
+    unlockNote: "Enter your passphrase to decrypt your journal and relapse notes.",
+    wrongPassphrase: "Wrong passphrase.",
+    passphraseMismatch: "Passphrases do not match.",
+    passphraseTooShort: "Use at least 8 characters.",
+    encryptedEntry: "Encrypted with a different passphrase.",
+    appLock: "App Lock",
+    appLockNote: "Require a PIN or passphrase before anyone can open Ascend on this device.",
+    pinOrPassphrase: "PIN or passphrase",
+    confirmPin: "Confirm PIN or passphrase",
+    pinTooShort: "Use at least 4 characters.",
+    pinMismatch: "Entries do not match.",
+    wrongPin: "Wrong PIN or passphrase.",
+    enableAppLock: "Enable App Lock",
+    removeAppLock: "Remove Lock",
+    autoLock: "Auto-lock after",
+    autoLockNever: "Never",
+    minutesShort: "min",
+    lockWhenHidden: "Lock when the app is hidden",
+    panicHideHint: "Panic hide: double-tap the Ascend title or press Esc twice to switch to a calculator. Type your PIN and = to come back.",
+    appLockedTitle: "Ascend is locked",
+    appLockedNote: "Enter your PIN or passphrase to continue.",
+    account: "Account",
+    logoutAllDevices: "Sign Out of All Devices",
+    email: "Email",
+    password: "Password",
+    displayName: "Name (optional)",
+    loginAction: "Log In",
+    registerAction: "Create Account",
+    switchToRegister: "New here? Create an account",
+    switchToLogin: "Have an account? Log in",
+    or: "or",
+    loadEarlierComments: "View earlier comments",
+    loadingMore: "Loading more...",
+    uploadingImage: "Uploading...",
+    uploadFailed: "Image upload failed. Please try again.",
+    edit: "Edit",
+    delete: "Delete",
+    confirmDelete: "Tap again to delete",
+    save: "Save",
+    edited: "edited",
+    postDeleted: "This post was deleted.",
+    commentDeleted: "Comment deleted",
+    anonymous: "Anonymous",
+    you: "you",
+    postAsHandle: "Handle",
+    postAnonymously: "Anonymous",
+    communityProfile: "Community profile",
+    communityProfileNote: "Your posts and comments show this handle and avatar, never your real name, photo or email.",
+    newAvatar: "New avatar",
+    newAvatarHint: "Tap the avatar to generate a new one.",
+    reactionSupport: "Support",
+    reactionRespect: "Respect",
+    reactionSameHere: "Same here",
+    report: "Report",
+    reportNote: "Tell the moderators what's wrong. Reports are anonymous to the author.",
+    reportDetails: "Details (optional)",
+    sendReport: "Send report",
+    reportThanks: "Thanks. A moderator will review it.",
+    reportFailed: "Report could not be sent. Please try again.",
+    reasonHarassment: "Harassment or bullying",
+    reasonExplicit: "Explicit content",
+    reasonTriggering: "Triggering content",
+    reasonSpam: "Spam",
+    reasonOther: "Something else",
+    commentHidden: "Hidden pending review",
+    hiddenPendingReview: "Hidden from others until a moderator reviews it.",
+    communityBanned: "Your account has been suspended from posting in the community. Your tracker is unaffected.",
+    moderation: "Moderation",
+    modQueue: "Queue",
+    modLog: "Audit log",
+    modQueueEmpty: "Nothing to review.",
+    modPost: "Post",
+    modComment: "Comment",
+    modReports: "reports",
+    modHidden: "hidden",
+    modBanned: "banned",
+    modNote: "Note for the audit log (optional)",
+    modKeep: "Keep",
+    modHide: "Hide",
+    modBan: "Ban",
+    modUnban: "Unban",
+    modAutomatic: "Automatic",
+    requestFailed: "Something went wrong. Please try again.",
+    filterBlockedTerm: "This contains language that isn't allowed in the community. Please rephrase it.",
+    filterBlockedDomain: "Links to this site aren't allowed in the community.",
+    filterExplicitImage: "This image looks explicit and can't be posted.",
+    reasonFilter: "Automatic filter",
+    writeRateLimited: "You're posting faster than the community allows. Take a breath, you can post again when the timer runs out.",
+    writeNewAccount: "Welcome! New accounts can post after a short wait. Have a look around the community in the meantime.",
+    writeDuplicate: "You already posted this recently.",
+    writeTooLong: "That's too long. Maximum characters:",
+    partners: "Accountability partners",
+    partnersNote: "Invite one or two people you trust. You choose per partner whether they see your streak, rank, badges and relapse dates. Your journal and notes are never shared.",
+    partnerActivity: "Partner activity",
+    partnerNoActivity: "Nothing yet.",
+    partnerJoined: "is now your partner.",
+    partnerUnlocked: "unlocked",
+    partnerRelapsed: "relapsed on",
+    partnerReachOut: "A kind message could help right now.",
+    partnerNotSharing: "Not sharing progress with you",
+    partnerRemove: "Remove partner",
+    partnerLastRelapse: "Last relapse",
+    partnerShareMine: "Share my progress with this partner",
+    partnerYourCode: "Your invite code",
+    partnerCopyLink: "Copy link",
+    partnerCopied: "Copied",
+    partnerCodeExpires: "Valid until",
+    partnerInvite: "Invite a partner",
+    partnerEnterCode: "Partner's invite code",
+    partnerJoin: "Join",
+    panicAlertPartners: "Tell your partners you're struggling",
+    panicSendAlert: "I'm struggling right now",
+    panicAlertSent: "Your partners were alerted.",
+    panicWaitingReplies: "Their replies will appear here. Keep breathing.",
+    replyHereForYou: "I'm here for you.",
+    replyYouGotThis: "You've got this.",
+    replyBreathe: "Breathe. This urge will pass.",
+    replyCallMe: "Call me if you need to.",
+    replyProudOfYou: "Proud of you for reaching out.",
+    partnerPanicked: "pressed panic and is struggling right now.",
+    partnerReplied: "replied:",
+    panicPresses: "Panic Presses",
+    last30Days: "in 30 days",
+    panicHeld: "Held After Panic",
+    panicNoRelapse24h: "no relapse in 24h",
+    commentedOnYourPost: "commented on your post",
+    groupEveryone: "Everyone",
+    groupFind: "Find or create a group",
+    groupOpen: "Open",
+    groupInviteOnly: "Invite only",
+    groupOpenNote: "Anyone can find and join this group. Posts are visible to members only.",
+    groupInviteOnlyNote: "Hidden from the group list. People join with an invite code from you or a moderator.",
+    groupMembers: "members",
+    groupRoleOwner: "Owner",
+    groupRoleMod: "Moderator",
+    groupRoleMember: "Member",
+    groupLeave: "Leave group",
+    groupConfirmLeave: "Tap again to leave",
+    groupInviteCode: "Group invite code",
+    groupNewCode: "New code (the old one stops working)",
+    groupRemoveMember: "Remove from group",
+    groupMakeMod: "Make moderator",
+    groupMakeMember: "Remove moderator role",
+    groupMakeOwner: "Hand over ownership",
+    groupConfirmOwner: "Tap again: you become a moderator",
+    groupDiscover: "Open groups",
+    groupNoneToDiscover: "No open groups to join yet.",
+    groupJoin: "Join",
+    groupEnterCode: "Group invite code",
+    groupCreate: "Create group",
+    groupName: "Group name",
+    groupDescription: "What is this group about? (optional)",
+    groupHide: "Hide from group",
+    groupConfirmHide: "Tap again to hide",
+    leaderboard: "Leaderboard",
+    leaderboardAllTime: "All time",
+    leaderboardMonth: "This month",
+    leaderboardBest: "Best",
+    leaderboardOptIn: "Show me on the leaderboard",
+    leaderboardOptInNote: "Publishes your streaks and points under your handle, nothing else. Streaks count from when they were first synced, up to 48 hours earlier.",
+    leaderboardEmpty: "Nobody has joined this leaderboard yet.",
+    reflection: "Journal reflection",
+    reflectionPrivacy: "Only the entries you tick below leave this device. They are sent to our server and to Google Gemini for this one analysis and are not stored. Everything else stays on your device.",
+    reflectionLogin: "Log in to reflect on your entries.",
+    reflectionNoEntries: "Write journal entries or relapse notes to reflect on them here.",
+    reflectionChoose: "Entries to include",
+    reflectionSend: "Reflect on selected",
+    reflectionTriggers: "Recurring triggers",
+    reflectionPatterns: "Emotional patterns",
+    reflectionRiskTimes: "Times of risk",
+    reflectionCoping: "Coping strategies",
+    reflectionNothingFound: "Nothing clear in these entries.",
+    reflectionDisclaimer: "AI suggestions can be wrong and are not medical advice.",
+    aiQuotaExceeded: "You've used today's AI requests. Try again tomorrow.",
+    aiUnavailable: "AI features are not available on this server.",
+    panicAdvice: "Advice",
+    panicTalkToCoach: "Talk to coach",
+    chatGreeting: "I'm here. Tell me what's happening right now, and we'll get through the next few minutes together.",
+    chatPlaceholder: "What are you feeling?",
+    chatPrivacy: "Each message is sent with your streak, rank and known triggers to our server and Google Gemini to answer, and is not stored. The conversation stays on this screen unless you save it.",
+    chatRefused: "I can't help with that. Let's focus on getting through this urge: stand up, leave the room and take ten slow breaths.",
+    chatYou: "Me",
+    chatCoach: "Coach",
+    chatSaveToJournal: "Save conversation to journal",
+    chatSaved: "Saved to journal",
+    chatCrisisTitle: "You don't have to face this alone",
+    chatCrisisBody: "If you are thinking about hurting yourself, please reach out now. If you are in immediate danger, call your local emergency number.",
+    chatHelplineDirectory: "Find a helpline in your country",
+    panicExercises: "Exercises",
+    exerciseBoxBreathing: "Box breathing",
+    exerciseBoxBreathingHint: "In 4, hold 4, out 4, hold 4. Steadies your heart rate.",
+    exercise478: "4-7-8 breathing",
+    exercise478Hint: "In 4, hold 7, out 8. The long exhale calms the nervous system.",
+    exerciseUrgeSurfing: "Urge surfing",
+    exerciseUrgeSurfingHint: "Observe the urge without acting on it and watch it rise, peak and fade.",
+    exerciseColdShower: "Cold shower",
+    exerciseColdShowerHint: "Get under cold water and stay there until the timer ends.",
+    exercisePushups: "Pushups",
+    exercisePushupsHint: "As many pushups as you can before the timer ends. Rest, then go again.",
+    breatheIn: "Breathe in",
+    breatheHold: "Hold",
+    breatheOut: "Breathe out",
+    surfNotice: "Notice the urge. Don't fight it and don't feed it; just name it.",
+    surfLocate: "Where do you feel it in your body? Chest, stomach, hands?",
+    surfBreathe: "Breathe slowly into that spot. Let the sensation be there.",
+    surfWatch: "Watch it like a wave. Is it rising, holding or falling?",
+    surfCrest: "Urges peak and pass, usually within minutes. You are riding it.",
+    surfPass: "Notice how it has changed. You stayed with it and didn't act.",
+    intensityBefore: "How strong is the urge right now? (1–10)",
+    intensityAfter: "And now? (1–10)",
+    exerciseStart: "Start",
+    exerciseFinishEarly: "Finish now",
+    exerciseLog: "Log session",
+    exerciseUrgeDefeated: "Urge defeated. That's one more win on the board.",
+    exerciseKeepGoing: "Still strong? Try another exercise or talk to someone.",
+    exerciseAnother: "Do another exercise",
+    urgesDefeated: "Urges Defeated",
+    avgIntensityDrop: "avg. drop",
+    beatAnUrge: "I had an urge and beat it",
+    urgesResisted: "Urges resisted",
+    urgeLogged: "Urge beaten!",
+    urgeDetailsOptional: "Add details if you like; they help you spot patterns.",
+    urgeIntensity: "How strong was it? (1–10)",
+    urgeTrigger: "Trigger",
+    urgeContext: "Context",
+    urgeContextPlaceholder: "Where were you, what were you doing?",
+    urgeWhatWorked: "What worked",
+    urgeWhatWorkedPlaceholder: "A walk, a call, cold water…",
+    skip: "Skip",
+    saveDetails: "Save details",
+    urgesVsRelapses: "Urges Resisted vs Relapses",
+    triggerStress: "Stress",
+    triggerBoredom: "Boredom",
+    triggerLoneliness: "Loneliness",
+    triggerFatigue: "Tiredness",
+    triggerSocialMedia: "Social media",
+    triggerLateNight: "Late night",
+    triggerOther: "Other",
+    foreignData: "The tracker data on this device belongs to another account. Sync is paused until you choose what to do with it.",
+    foreignDataMerge: "Add to this account",
+    foreignDataDiscard: "Remove from device",
     ranks: {
       recruit: "Recruit",
       novice: "Novice",
@@ -122,6 +394,278 @@ export const TRANSLATIONS = {
     saveEntry: "Simpan Entri",
     howFeeling: "Bagaimana perasaan Anda hari ini? Ada pemicu?",
     noRelapses: "Tidak ada relapse yang tercatat. Pertahankan!",
+    dataRecovered: "Sebagian data tersimpan Anda rusak dan telah diperbaiki. Cadangan data asli telah disimpan.",
+    dismiss: "Tutup",
+    settings: "Pengaturan",
+    close: "Tutup",
+    yourData: "Data Anda",
+    yourDataNote: "Ekspor cadangan yang Anda kendalikan, atau pulihkan dari browser lain.",
+    exportJson: "Ekspor Cadangan (JSON)",
+    exportRelapsesCsv: "Kambuh (CSV)",
+    exportJournalCsv: "Jurnal (CSV)",
+    importData: "Impor Cadangan",
+    importInvalid: "File ini bukan cadangan Ascend yang valid.",
+    importPreview: "Pratinjau Impor",
+    importHint: "Gabung menyimpan semua data di perangkat ini dan menambahkan yang baru dari file. Ganti menimpa perangkat ini dengan isi file.",
+    relapses: "Kambuh",
+    streakStart: "Awal Streak",
+    mergeData: "Gabung",
+    replaceData: "Ganti",
+    encryption: "Kunci Frasa Sandi",
+    encryptionNote: "Enkripsi jurnal dan catatan kambuh Anda di perangkat ini dan di server dengan frasa sandi yang hanya Anda ketahui.",
+    encryptionWarning: "Jika Anda kehilangan frasa sandi, entri terenkripsi tidak dapat dipulihkan. Tidak ada yang bisa meresetnya untuk Anda.",
+    encryptionOn: "Jurnal dan catatan kambuh Anda terenkripsi.",
+    passphrase: "Frasa sandi",
+    confirmPassphrase: "Konfirmasi frasa sandi",
+    currentPassphrase: "Frasa sandi saat ini",
+    newPassphrase: "Frasa sandi baru",
+    enableEncryption: "Aktifkan Enkripsi",
+    changePassphrase: "Ubah Frasa Sandi",
+    disableEncryption: "Matikan",
+    lockNow: "Kunci Sekarang",
+    unlock: "Buka",
+    unlockTitle: "Jurnal Anda terkunci",
+    unlockNote: "Masukkan frasa sandi untuk mendekripsi jurnal dan catatan kambuh Anda.",
+    wrongPassphrase: "Frasa sandi salah.",
+    passphraseMismatch: "Frasa sandi tidak cocok.",
+    passphraseTooShort: "Gunakan minimal 8 karakter.",
+    encryptedEntry: "Dienkripsi dengan frasa sandi lain.",
+    appLock: "Kunci Aplikasi",
+    appLockNote: "Wajibkan PIN atau frasa sandi sebelum siapa pun bisa membuka Ascend di perangkat ini.",
+    pinOrPassphrase: "PIN atau frasa sandi",
+    confirmPin: "Konfirmasi PIN atau frasa sandi",
+    pinTooShort: "Gunakan minimal 4 karakter.",
+    pinMismatch: "Isian tidak cocok.",
+    wrongPin: "PIN atau frasa sandi salah.",
+    enableAppLock: "Aktifkan Kunci Aplikasi",
+    removeAppLock: "Hapus Kunci",
+    autoLock: "Kunci otomatis setelah",
+    autoLockNever: "Tidak pernah",
+    minutesShort: "mnt",
+    lockWhenHidden: "Kunci saat aplikasi disembunyikan",
+    panicHideHint: "Sembunyi darurat: ketuk dua kali judul Ascend atau tekan Esc dua kali untuk beralih ke kalkulator. Ketik PIN lalu = untuk kembali.",
+    appLockedTitle: "Ascend terkunci",
+    appLockedNote: "Masukkan PIN atau frasa sandi untuk melanjutkan.",
+    account: "Akun",
+    logoutAllDevices: "Keluar dari Semua Perangkat",
+    email: "Email",
+    password: "Kata sandi",
+    displayName: "Nama (opsional)",
+    loginAction: "Masuk",
+    registerAction: "Buat Akun",
+    switchToRegister: "Baru di sini? Buat akun",
+    switchToLogin: "Sudah punya akun? Masuk",
+    or: "atau",
+    loadEarlierComments: "Lihat komentar sebelumnya",
+    loadingMore: "Memuat lagi...",
+    uploadingImage: "Mengunggah...",
+    uploadFailed: "Gagal mengunggah gambar. Silakan coba lagi.",
+    edit: "Ubah",
+    delete: "Hapus",
+    confirmDelete: "Ketuk lagi untuk menghapus",
+    save: "Simpan",
+    edited: "diedit",
+    postDeleted: "Postingan ini telah dihapus.",
+    commentDeleted: "Komentar dihapus",
+    anonymous: "Anonim",
+    you: "Anda",
+    postAsHandle: "Nama samaran",
+    postAnonymously: "Anonim",
+    communityProfile: "Profil komunitas",
+    communityProfileNote: "Postingan dan komentar Anda menampilkan nama samaran dan avatar ini, tidak pernah nama asli, foto, atau email Anda.",
+    newAvatar: "Avatar baru",
+    newAvatarHint: "Ketuk avatar untuk membuat yang baru.",
+    reactionSupport: "Dukung",
+    reactionRespect: "Hormat",
+    reactionSameHere: "Sama",
+    report: "Laporkan",
+    reportNote: "Beri tahu moderator apa masalahnya. Laporan bersifat anonim bagi penulis.",
+    reportDetails: "Detail (opsional)",
+    sendReport: "Kirim laporan",
+    reportThanks: "Terima kasih. Moderator akan meninjaunya.",
+    reportFailed: "Laporan gagal dikirim. Silakan coba lagi.",
+    reasonHarassment: "Pelecehan atau perundungan",
+    reasonExplicit: "Konten eksplisit",
+    reasonTriggering: "Konten pemicu",
+    reasonSpam: "Spam",
+    reasonOther: "Lainnya",
+    commentHidden: "Disembunyikan menunggu peninjauan",
+    hiddenPendingReview: "Disembunyikan dari orang lain sampai moderator meninjaunya.",
+    communityBanned: "Akun Anda ditangguhkan dari memposting di komunitas. Pelacak Anda tidak terpengaruh.",
+    moderation: "Moderasi",
+    modQueue: "Antrean",
+    modLog: "Log audit",
+    modQueueEmpty: "Tidak ada yang perlu ditinjau.",
+    modPost: "Postingan",
+    modComment: "Komentar",
+    modReports: "laporan",
+    modHidden: "disembunyikan",
+    modBanned: "diblokir",
+    modNote: "Catatan untuk log audit (opsional)",
+    modKeep: "Biarkan",
+    modHide: "Sembunyikan",
+    modBan: "Blokir",
+    modUnban: "Buka blokir",
+    modAutomatic: "Otomatis",
+    requestFailed: "Terjadi kesalahan. Silakan coba lagi.",
+    filterBlockedTerm: "Ini berisi kata-kata yang tidak diizinkan di komunitas. Silakan ubah kalimatnya.",
+    filterBlockedDomain: "Tautan ke situs ini tidak diizinkan di komunitas.",
+    filterExplicitImage: "Gambar ini tampak eksplisit dan tidak dapat diunggah.",
+    reasonFilter: "Filter otomatis",
+    writeRateLimited: "Kamu mengirim lebih cepat dari yang diizinkan komunitas. Tarik napas, kamu bisa mengirim lagi setelah waktunya habis.",
+    writeNewAccount: "Selamat datang! Akun baru bisa mengirim setelah menunggu sebentar. Lihat-lihat komunitas dulu ya.",
+    writeDuplicate: "Kamu sudah mengirim ini baru-baru ini.",
+    writeTooLong: "Terlalu panjang. Maksimal karakter:",
+    partners: "Partner akuntabilitas",
+    partnersNote: "Undang satu atau dua orang yang kamu percaya. Kamu memilih untuk setiap partner apakah mereka melihat streak, peringkat, lencana, dan tanggal relapse-mu. Jurnal dan catatanmu tidak pernah dibagikan.",
+    partnerActivity: "Aktivitas partner",
+    partnerNoActivity: "Belum ada apa-apa.",
+    partnerJoined: "sekarang menjadi partnermu.",
+    partnerUnlocked: "membuka",
+    partnerRelapsed: "relapse pada",
+    partnerReachOut: "Pesan yang hangat bisa membantu sekarang.",
+    partnerNotSharing: "Tidak membagikan progres denganmu",
+    partnerRemove: "Hapus partner",
+    partnerLastRelapse: "Relapse terakhir",
+    partnerShareMine: "Bagikan progresku dengan partner ini",
+    partnerYourCode: "Kode undanganmu",
+    partnerCopyLink: "Salin tautan",
+    partnerCopied: "Tersalin",
+    partnerCodeExpires: "Berlaku sampai",
+    partnerInvite: "Undang partner",
+    partnerEnterCode: "Kode undangan partner",
+    partnerJoin: "Gabung",
+    panicAlertPartners: "Beri tahu partnermu bahwa kamu sedang berjuang",
+    panicSendAlert: "Aku sedang berjuang sekarang",
+    panicAlertSent: "Partnermu sudah diberi tahu.",
+    panicWaitingReplies: "Balasan mereka akan muncul di sini. Tetap bernapas.",
+    replyHereForYou: "Aku ada untukmu.",
+    replyYouGotThis: "Kamu pasti bisa.",
+    replyBreathe: "Tarik napas. Dorongan ini akan berlalu.",
+    replyCallMe: "Telepon aku kalau perlu.",
+    replyProudOfYou: "Bangga kamu mau menghubungi.",
+    partnerPanicked: "menekan tombol panik dan sedang berjuang sekarang.",
+    partnerReplied: "membalas:",
+    panicPresses: "Tombol Panik",
+    last30Days: "dalam 30 hari",
+    panicHeld: "Bertahan Setelah Panik",
+    panicNoRelapse24h: "tanpa relapse 24 jam",
+    commentedOnYourPost: "mengomentari postinganmu",
+    groupEveryone: "Semua",
+    groupFind: "Cari atau buat grup",
+    groupOpen: "Terbuka",
+    groupInviteOnly: "Khusus undangan",
+    groupOpenNote: "Siapa pun bisa menemukan dan bergabung. Postingan hanya terlihat oleh anggota.",
+    groupInviteOnlyNote: "Tidak muncul di daftar grup. Orang bergabung dengan kode undangan darimu atau moderator.",
+    groupMembers: "anggota",
+    groupRoleOwner: "Pemilik",
+    groupRoleMod: "Moderator",
+    groupRoleMember: "Anggota",
+    groupLeave: "Keluar dari grup",
+    groupConfirmLeave: "Ketuk lagi untuk keluar",
+    groupInviteCode: "Kode undangan grup",
+    groupNewCode: "Kode baru (kode lama tidak berlaku)",
+    groupRemoveMember: "Keluarkan dari grup",
+    groupMakeMod: "Jadikan moderator",
+    groupMakeMember: "Cabut peran moderator",
+    groupMakeOwner: "Serahkan kepemilikan",
+    groupConfirmOwner: "Ketuk lagi: kamu menjadi moderator",
+    groupDiscover: "Grup terbuka",
+    groupNoneToDiscover: "Belum ada grup terbuka untuk diikuti.",
+    groupJoin: "Gabung",
+    groupEnterCode: "Kode undangan grup",
+    groupCreate: "Buat grup",
+    groupName: "Nama grup",
+    groupDescription: "Grup ini tentang apa? (opsional)",
+    groupHide: "Sembunyikan dari grup",
+    groupConfirmHide: "Ketuk lagi untuk menyembunyikan",
+    leaderboard: "Papan peringkat",
+    leaderboardAllTime: "Sepanjang waktu",
+    leaderboardMonth: "Bulan ini",
+    leaderboardBest: "Terbaik",
+    leaderboardOptIn: "Tampilkan saya di papan peringkat",
+    leaderboardOptInNote: "Hanya menampilkan streak dan poinmu dengan nama pengguna. Streak dihitung sejak pertama kali disinkronkan, paling awal 48 jam sebelumnya.",
+    leaderboardEmpty: "Belum ada yang bergabung di papan peringkat ini.",
+    reflection: "Refleksi jurnal",
+    reflectionPrivacy: "Hanya entri yang Anda centang di bawah yang keluar dari perangkat ini. Entri dikirim ke server kami dan ke Google Gemini untuk satu analisis ini dan tidak disimpan. Semua yang lain tetap di perangkat Anda.",
+    reflectionLogin: "Masuk untuk merefleksikan entri Anda.",
+    reflectionNoEntries: "Tulis entri jurnal atau catatan relapse untuk merefleksikannya di sini.",
+    reflectionChoose: "Entri yang disertakan",
+    reflectionSend: "Refleksikan yang dipilih",
+    reflectionTriggers: "Pemicu berulang",
+    reflectionPatterns: "Pola emosional",
+    reflectionRiskTimes: "Waktu berisiko",
+    reflectionCoping: "Strategi mengatasi",
+    reflectionNothingFound: "Tidak ada yang jelas dalam entri ini.",
+    reflectionDisclaimer: "Saran AI bisa keliru dan bukan nasihat medis.",
+    aiQuotaExceeded: "Anda telah menggunakan permintaan AI hari ini. Coba lagi besok.",
+    aiUnavailable: "Fitur AI tidak tersedia di server ini.",
+    panicAdvice: "Saran",
+    panicTalkToCoach: "Bicara dengan pelatih",
+    chatGreeting: "Saya di sini. Ceritakan apa yang sedang terjadi, dan kita lewati beberapa menit ke depan bersama.",
+    chatPlaceholder: "Apa yang Anda rasakan?",
+    chatPrivacy: "Setiap pesan dikirim bersama streak, peringkat, dan pemicu yang diketahui ke server kami dan Google Gemini untuk dijawab, dan tidak disimpan. Percakapan tetap di layar ini kecuali Anda menyimpannya.",
+    chatRefused: "Saya tidak bisa membantu itu. Mari fokus melewati dorongan ini: berdiri, keluar ruangan, dan ambil sepuluh napas perlahan.",
+    chatYou: "Saya",
+    chatCoach: "Pelatih",
+    chatSaveToJournal: "Simpan percakapan ke jurnal",
+    chatSaved: "Tersimpan di jurnal",
+    chatCrisisTitle: "Anda tidak harus menghadapinya sendirian",
+    chatCrisisBody: "Jika Anda berpikir untuk menyakiti diri sendiri, segera hubungi bantuan. Jika dalam bahaya langsung, hubungi nomor darurat setempat.",
+    chatHelplineDirectory: "Cari layanan bantuan di negara Anda",
+    panicExercises: "Latihan",
+    exerciseBoxBreathing: "Pernapasan kotak",
+    exerciseBoxBreathingHint: "Tarik 4, tahan 4, buang 4, tahan 4. Menenangkan detak jantung.",
+    exercise478: "Pernapasan 4-7-8",
+    exercise478Hint: "Tarik 4, tahan 7, buang 8. Embusan panjang menenangkan saraf.",
+    exerciseUrgeSurfing: "Berselancar di atas dorongan",
+    exerciseUrgeSurfingHint: "Amati dorongan tanpa menurutinya dan lihat ia naik, memuncak, lalu surut.",
+    exerciseColdShower: "Mandi air dingin",
+    exerciseColdShowerHint: "Masuk ke air dingin dan bertahan sampai waktu habis.",
+    exercisePushups: "Push-up",
+    exercisePushupsHint: "Push-up sebanyak mungkin sebelum waktu habis. Istirahat, lalu lanjut lagi.",
+    breatheIn: "Tarik napas",
+    breatheHold: "Tahan",
+    breatheOut: "Buang napas",
+    surfNotice: "Sadari dorongan itu. Jangan melawan dan jangan menurutinya; cukup beri nama.",
+    surfLocate: "Di mana Anda merasakannya di tubuh? Dada, perut, tangan?",
+    surfBreathe: "Bernapaslah perlahan ke titik itu. Biarkan sensasinya ada.",
+    surfWatch: "Amati seperti ombak. Apakah naik, bertahan, atau turun?",
+    surfCrest: "Dorongan memuncak lalu berlalu, biasanya dalam hitungan menit. Anda sedang menungganginya.",
+    surfPass: "Perhatikan bagaimana ia berubah. Anda bertahan dan tidak menurutinya.",
+    intensityBefore: "Seberapa kuat dorongan saat ini? (1–10)",
+    intensityAfter: "Dan sekarang? (1–10)",
+    exerciseStart: "Mulai",
+    exerciseFinishEarly: "Selesai sekarang",
+    exerciseLog: "Catat sesi",
+    exerciseUrgeDefeated: "Dorongan dikalahkan. Satu kemenangan lagi.",
+    exerciseKeepGoing: "Masih kuat? Coba latihan lain atau bicara dengan seseorang.",
+    exerciseAnother: "Lakukan latihan lain",
+    urgesDefeated: "Dorongan Dikalahkan",
+    avgIntensityDrop: "rata-rata turun",
+    beatAnUrge: "Saya punya dorongan dan mengalahkannya",
+    urgesResisted: "Dorongan ditahan",
+    urgeLogged: "Dorongan dikalahkan!",
+    urgeDetailsOptional: "Tambahkan detail jika mau; ini membantu mengenali pola.",
+    urgeIntensity: "Seberapa kuat? (1–10)",
+    urgeTrigger: "Pemicu",
+    urgeContext: "Konteks",
+    urgeContextPlaceholder: "Di mana Anda, apa yang sedang dilakukan?",
+    urgeWhatWorked: "Apa yang berhasil",
+    urgeWhatWorkedPlaceholder: "Jalan kaki, menelepon, air dingin…",
+    skip: "Lewati",
+    saveDetails: "Simpan detail",
+    urgesVsRelapses: "Dorongan Ditahan vs Kambuh",
+    triggerStress: "Stres",
+    triggerBoredom: "Bosan",
+    triggerLoneliness: "Kesepian",
+    triggerFatigue: "Lelah",
+    triggerSocialMedia: "Media sosial",
+    triggerLateNight: "Larut malam",
+    triggerOther: "Lainnya",
+    foreignData: "Data pelacak di perangkat ini milik akun lain. Sinkronisasi dijeda sampai Anda memilih apa yang harus dilakukan.",
+    foreignDataMerge: "Tambahkan ke akun ini",
+    foreignDataDiscard: "Hapus dari perangkat",
     ranks: {
       recruit: "Rekrut",
       novice: "Pemula",
@@ -188,6 +732,278 @@ export const TRANSLATIONS = {
     saveEntry: "エントリーを保存",
     howFeeling: "今日の気分はどうですか？トリガーはありましたか？",
     noRelapses: "リラプスは記録されていません。その調子です！",
+    dataRecovered: "保存データの一部が破損していたため修復しました。元のデータのバックアップは保持されています。",
+    dismiss: "閉じる",
+    settings: "設定",
+    close: "閉じる",
+    yourData: "あなたのデータ",
+    yourDataNote: "自分で管理できるバックアップを書き出すか、別のブラウザから復元します。",
+    exportJson: "バックアップを書き出す (JSON)",
+    exportRelapsesCsv: "リラプス (CSV)",
+    exportJournalCsv: "日記 (CSV)",
+    importData: "バックアップを読み込む",
+    importInvalid: "このファイルは有効な Ascend のバックアップではありません。",
+    importPreview: "読み込みのプレビュー",
+    importHint: "統合はこの端末のデータをすべて残し、ファイルの新しい内容を追加します。置き換えはこの端末のデータをファイルで上書きします。",
+    relapses: "リラプス",
+    streakStart: "ストリーク開始",
+    mergeData: "統合",
+    replaceData: "置き換え",
+    encryption: "パスフレーズロック",
+    encryptionNote: "日記とリラプスのメモを、あなただけが知るパスフレーズでこの端末とサーバー上で暗号化します。",
+    encryptionWarning: "パスフレーズを忘れると、暗号化された記録は復元できません。誰もリセットできません。",
+    encryptionOn: "日記とリラプスのメモは暗号化されています。",
+    passphrase: "パスフレーズ",
+    confirmPassphrase: "パスフレーズの確認",
+    currentPassphrase: "現在のパスフレーズ",
+    newPassphrase: "新しいパスフレーズ",
+    enableEncryption: "暗号化を有効にする",
+    changePassphrase: "パスフレーズを変更",
+    disableEncryption: "オフにする",
+    lockNow: "今すぐロック",
+    unlock: "ロック解除",
+    unlockTitle: "日記はロックされています",
+    unlockNote: "パスフレーズを入力して日記とリラプスのメモを復号します。",
+    wrongPassphrase: "パスフレーズが違います。",
+    passphraseMismatch: "パスフレーズが一致しません。",
+    passphraseTooShort: "8文字以上にしてください。",
+    encryptedEntry: "別のパスフレーズで暗号化されています。",
+    appLock: "アプリロック",
+    appLockNote: "この端末で Ascend を開くときに PIN またはパスフレーズを要求します。",
+    pinOrPassphrase: "PIN またはパスフレーズ",
+    confirmPin: "PIN またはパスフレーズの確認",
+    pinTooShort: "4文字以上にしてください。",
+    pinMismatch: "入力が一致しません。",
+    wrongPin: "PIN またはパスフレーズが違います。",
+    enableAppLock: "アプリロックを有効にする",
+    removeAppLock: "ロックを解除",
+    autoLock: "自動ロックまでの時間",
+    autoLockNever: "しない",
+    minutesShort: "分",
+    lockWhenHidden: "アプリが非表示になったらロック",
+    panicHideHint: "緊急非表示: Ascend のタイトルをダブルタップするか Esc を2回押すと電卓に切り替わります。PIN と = を入力すると戻ります。",
+    appLockedTitle: "Ascend はロックされています",
+    appLockedNote: "続行するには PIN またはパスフレーズを入力してください。",
+    account: "アカウント",
+    logoutAllDevices: "すべての端末からサインアウト",
+    email: "メールアドレス",
+    password: "パスワード",
+    displayName: "名前（任意）",
+    loginAction: "ログイン",
+    registerAction: "アカウント作成",
+    switchToRegister: "初めての方はアカウントを作成",
+    switchToLogin: "アカウントをお持ちの方はログイン",
+    or: "または",
+    loadEarlierComments: "以前のコメントを表示",
+    loadingMore: "さらに読み込み中...",
+    uploadingImage: "アップロード中...",
+    uploadFailed: "画像のアップロードに失敗しました。もう一度お試しください。",
+    edit: "編集",
+    delete: "削除",
+    confirmDelete: "もう一度タップして削除",
+    save: "保存",
+    edited: "編集済み",
+    postDeleted: "この投稿は削除されました。",
+    commentDeleted: "コメントは削除されました",
+    anonymous: "匿名",
+    you: "あなた",
+    postAsHandle: "ハンドル",
+    postAnonymously: "匿名",
+    communityProfile: "コミュニティプロフィール",
+    communityProfileNote: "投稿やコメントにはこのハンドルとアバターが表示され、本名・写真・メールアドレスは表示されません。",
+    newAvatar: "新しいアバター",
+    newAvatarHint: "アバターをタップすると新しく生成されます。",
+    reactionSupport: "応援",
+    reactionRespect: "尊敬",
+    reactionSameHere: "私も",
+    report: "報告",
+    reportNote: "問題の内容をモデレーターに伝えてください。報告者は投稿者に知られません。",
+    reportDetails: "詳細（任意）",
+    sendReport: "報告を送信",
+    reportThanks: "ありがとうございます。モデレーターが確認します。",
+    reportFailed: "報告を送信できませんでした。もう一度お試しください。",
+    reasonHarassment: "嫌がらせ・いじめ",
+    reasonExplicit: "露骨なコンテンツ",
+    reasonTriggering: "引き金になる内容",
+    reasonSpam: "スパム",
+    reasonOther: "その他",
+    commentHidden: "確認待ちのため非表示",
+    hiddenPendingReview: "モデレーターが確認するまで他の人には表示されません。",
+    communityBanned: "あなたのアカウントはコミュニティへの投稿を停止されています。トラッカーには影響ありません。",
+    moderation: "モデレーション",
+    modQueue: "キュー",
+    modLog: "監査ログ",
+    modQueueEmpty: "確認するものはありません。",
+    modPost: "投稿",
+    modComment: "コメント",
+    modReports: "件の報告",
+    modHidden: "非表示",
+    modBanned: "停止中",
+    modNote: "監査ログ用メモ（任意）",
+    modKeep: "残す",
+    modHide: "非表示",
+    modBan: "停止",
+    modUnban: "停止解除",
+    modAutomatic: "自動",
+    requestFailed: "問題が発生しました。もう一度お試しください。",
+    filterBlockedTerm: "コミュニティで許可されていない表現が含まれています。言い換えてください。",
+    filterBlockedDomain: "このサイトへのリンクはコミュニティで許可されていません。",
+    filterExplicitImage: "この画像は露骨な内容と判断されたため投稿できません。",
+    reasonFilter: "自動フィルター",
+    writeRateLimited: "投稿のペースが速すぎます。ひと息ついて、タイマーが終わったらまた投稿できます。",
+    writeNewAccount: "ようこそ！新しいアカウントは少し待ってから投稿できます。それまでコミュニティを見てみましょう。",
+    writeDuplicate: "同じ内容を最近投稿しています。",
+    writeTooLong: "長すぎます。最大文字数:",
+    partners: "アカウンタビリティ・パートナー",
+    partnersNote: "信頼できる1〜2人を招待しましょう。連続記録、ランク、バッジ、リラプスの日付を見せるかはパートナーごとに選べます。日記やメモは共有されません。",
+    partnerActivity: "パートナーの活動",
+    partnerNoActivity: "まだ何もありません。",
+    partnerJoined: "があなたのパートナーになりました。",
+    partnerUnlocked: "がバッジを獲得:",
+    partnerRelapsed: "がリラプスしました:",
+    partnerReachOut: "今こそ優しい一言を。",
+    partnerNotSharing: "進捗は共有されていません",
+    partnerRemove: "パートナーを解除",
+    partnerLastRelapse: "最後のリラプス",
+    partnerShareMine: "このパートナーに自分の進捗を共有",
+    partnerYourCode: "あなたの招待コード",
+    partnerCopyLink: "リンクをコピー",
+    partnerCopied: "コピーしました",
+    partnerCodeExpires: "有効期限",
+    partnerInvite: "パートナーを招待",
+    partnerEnterCode: "パートナーの招待コード",
+    partnerJoin: "参加",
+    panicAlertPartners: "パートナーに今つらいことを伝える",
+    panicSendAlert: "今つらい",
+    panicAlertSent: "パートナーに通知しました。",
+    panicWaitingReplies: "返信はここに表示されます。呼吸を続けて。",
+    replyHereForYou: "そばにいるよ。",
+    replyYouGotThis: "君ならできる。",
+    replyBreathe: "深呼吸して。この衝動は過ぎ去る。",
+    replyCallMe: "必要なら電話して。",
+    replyProudOfYou: "連絡してくれてえらい。",
+    partnerPanicked: "がパニックボタンを押しました。今つらい状況です。",
+    partnerReplied: "が返信:",
+    panicPresses: "パニック回数",
+    last30Days: "過去30日",
+    panicHeld: "パニック後に耐えた",
+    panicNoRelapse24h: "24時間リラプスなし",
+    commentedOnYourPost: "があなたの投稿にコメントしました",
+    groupEveryone: "みんな",
+    groupFind: "グループを探す・作る",
+    groupOpen: "オープン",
+    groupInviteOnly: "招待制",
+    groupOpenNote: "誰でも見つけて参加できます。投稿はメンバーのみに表示されます。",
+    groupInviteOnlyNote: "グループ一覧に表示されません。あなたかモデレーターの招待コードで参加します。",
+    groupMembers: "メンバー",
+    groupRoleOwner: "オーナー",
+    groupRoleMod: "モデレーター",
+    groupRoleMember: "メンバー",
+    groupLeave: "グループを退出",
+    groupConfirmLeave: "もう一度タップで退出",
+    groupInviteCode: "グループ招待コード",
+    groupNewCode: "新しいコード（古いコードは無効になります）",
+    groupRemoveMember: "グループから外す",
+    groupMakeMod: "モデレーターにする",
+    groupMakeMember: "モデレーターを解除",
+    groupMakeOwner: "オーナーを譲る",
+    groupConfirmOwner: "もう一度タップ：あなたはモデレーターになります",
+    groupDiscover: "オープングループ",
+    groupNoneToDiscover: "参加できるオープングループはまだありません。",
+    groupJoin: "参加",
+    groupEnterCode: "グループ招待コード",
+    groupCreate: "グループを作成",
+    groupName: "グループ名",
+    groupDescription: "どんなグループですか？（任意）",
+    groupHide: "グループで非表示",
+    groupConfirmHide: "もう一度タップで非表示",
+    leaderboard: "ランキング",
+    leaderboardAllTime: "全期間",
+    leaderboardMonth: "今月",
+    leaderboardBest: "最高",
+    leaderboardOptIn: "ランキングに参加する",
+    leaderboardOptInNote: "ハンドル名で連続記録とポイントだけを公開します。連続記録は初めて同期された時点（最大48時間前まで）から数えます。",
+    leaderboardEmpty: "このランキングにはまだ誰も参加していません。",
+    reflection: "ジャーナルの振り返り",
+    reflectionPrivacy: "下でチェックしたエントリーだけがこの端末の外に送られます。今回の分析のためにサーバーとGoogle Geminiに送信され、保存されません。それ以外はすべて端末に残ります。",
+    reflectionLogin: "エントリーを振り返るにはログインしてください。",
+    reflectionNoEntries: "ジャーナルやリラプスのメモを書くと、ここで振り返れます。",
+    reflectionChoose: "含めるエントリー",
+    reflectionSend: "選択したものを振り返る",
+    reflectionTriggers: "繰り返すトリガー",
+    reflectionPatterns: "感情のパターン",
+    reflectionRiskTimes: "リスクの高い時間帯",
+    reflectionCoping: "対処法",
+    reflectionNothingFound: "これらのエントリーからははっきりしたものは見つかりませんでした。",
+    reflectionDisclaimer: "AIの提案は誤っている可能性があり、医学的助言ではありません。",
+    aiQuotaExceeded: "本日のAIリクエストを使い切りました。明日もう一度お試しください。",
+    aiUnavailable: "このサーバーではAI機能を利用できません。",
+    panicAdvice: "アドバイス",
+    panicTalkToCoach: "コーチと話す",
+    chatGreeting: "ここにいます。今何が起きているか教えてください。次の数分を一緒に乗り切りましょう。",
+    chatPlaceholder: "今どんな気持ちですか？",
+    chatPrivacy: "各メッセージは連続記録・ランク・既知のトリガーとともに返答のためサーバーとGoogle Geminiに送られ、保存されません。会話は保存しない限りこの画面にだけ残ります。",
+    chatRefused: "それにはお応えできません。この衝動を乗り切ることに集中しましょう。立ち上がって部屋を出て、ゆっくり10回呼吸してください。",
+    chatYou: "自分",
+    chatCoach: "コーチ",
+    chatSaveToJournal: "会話をジャーナルに保存",
+    chatSaved: "ジャーナルに保存しました",
+    chatCrisisTitle: "一人で抱え込まないでください",
+    chatCrisisBody: "自分を傷つけることを考えているなら、今すぐ相談してください。差し迫った危険がある場合は、地域の緊急番号に電話してください。",
+    chatHelplineDirectory: "お住まいの国の相談窓口を探す",
+    panicExercises: "エクササイズ",
+    exerciseBoxBreathing: "ボックス呼吸",
+    exerciseBoxBreathingHint: "4秒吸って、4秒止めて、4秒吐いて、4秒止める。心拍を落ち着かせます。",
+    exercise478: "4-7-8呼吸",
+    exercise478Hint: "4秒吸って、7秒止めて、8秒吐く。長い呼気が神経を落ち着かせます。",
+    exerciseUrgeSurfing: "アージサーフィン",
+    exerciseUrgeSurfingHint: "衝動に従わずに観察し、高まり、頂点に達し、消えていくのを見届けます。",
+    exerciseColdShower: "冷水シャワー",
+    exerciseColdShowerHint: "冷たい水を浴びて、タイマーが終わるまで耐えましょう。",
+    exercisePushups: "腕立て伏せ",
+    exercisePushupsHint: "タイマーが終わるまでできるだけ腕立て伏せを。休んだらまた続けて。",
+    breatheIn: "吸って",
+    breatheHold: "止めて",
+    breatheOut: "吐いて",
+    surfNotice: "衝動に気づきましょう。戦わず、煽らず、ただ名前をつけて。",
+    surfLocate: "体のどこで感じますか？胸、お腹、手？",
+    surfBreathe: "その場所にゆっくり息を送りましょう。感覚をそのままにして。",
+    surfWatch: "波のように眺めて。高まっている？留まっている？引いている？",
+    surfCrest: "衝動はたいてい数分で頂点に達し、過ぎ去ります。あなたは今、波に乗っています。",
+    surfPass: "どう変わったか気づいてください。あなたは向き合い、行動しませんでした。",
+    intensityBefore: "今の衝動の強さは？（1〜10）",
+    intensityAfter: "今はどうですか？（1〜10）",
+    exerciseStart: "開始",
+    exerciseFinishEarly: "ここで終える",
+    exerciseLog: "セッションを記録",
+    exerciseUrgeDefeated: "衝動に勝ちました。また一つ勝利です。",
+    exerciseKeepGoing: "まだ強いですか？別のエクササイズを試すか、誰かと話しましょう。",
+    exerciseAnother: "別のエクササイズをする",
+    urgesDefeated: "打ち勝った衝動",
+    avgIntensityDrop: "平均低下",
+    beatAnUrge: "衝動に打ち勝った",
+    urgesResisted: "耐えた衝動",
+    urgeLogged: "衝動に勝ちました！",
+    urgeDetailsOptional: "よければ詳細を追加してください。パターンに気づく助けになります。",
+    urgeIntensity: "どのくらい強かった？（1〜10）",
+    urgeTrigger: "トリガー",
+    urgeContext: "状況",
+    urgeContextPlaceholder: "どこで、何をしていましたか？",
+    urgeWhatWorked: "効果があったこと",
+    urgeWhatWorkedPlaceholder: "散歩、電話、冷たい水…",
+    skip: "スキップ",
+    saveDetails: "詳細を保存",
+    urgesVsRelapses: "耐えた衝動とリラプス",
+    triggerStress: "ストレス",
+    triggerBoredom: "退屈",
+    triggerLoneliness: "孤独",
+    triggerFatigue: "疲れ",
+    triggerSocialMedia: "SNS",
+    triggerLateNight: "深夜",
+    triggerOther: "その他",
+    foreignData: "この端末のトラッカーデータは別のアカウントのものです。どうするか選ぶまで同期を停止しています。",
+    foreignDataMerge: "このアカウントに追加",
+    foreignDataDiscard: "端末から削除",
     ranks: {
       recruit: "新人",
       novice: "初心者",
@@ -254,6 +1070,278 @@ export const TRANSLATIONS = {
     saveEntry: "保存记录",
     howFeeling: "你今天感觉如何？有什么诱因吗？",
     noRelapses: "没有复发记录。继续保持！",
+    dataRecovered: "部分已保存的数据已损坏并已修复。原始数据的备份已保留。",
+    dismiss: "关闭",
+    settings: "设置",
+    close: "关闭",
+    yourData: "你的数据",
+    yourDataNote: "导出由你掌控的备份，或从其他浏览器恢复。",
+    exportJson: "导出备份 (JSON)",
+    exportRelapsesCsv: "复发记录 (CSV)",
+    exportJournalCsv: "日记 (CSV)",
+    importData: "导入备份",
+    importInvalid: "此文件不是有效的 Ascend 备份。",
+    importPreview: "导入预览",
+    importHint: "合并会保留此设备上的所有数据并添加文件中的新内容。替换会用文件覆盖此设备上的数据。",
+    relapses: "复发",
+    streakStart: "连续开始",
+    mergeData: "合并",
+    replaceData: "替换",
+    encryption: "口令锁",
+    encryptionNote: "使用只有你知道的口令，在此设备和服务器上加密你的日记和复发备注。",
+    encryptionWarning: "如果丢失口令，已加密的内容将无法恢复。任何人都无法为你重置。",
+    encryptionOn: "你的日记和复发备注已加密。",
+    passphrase: "口令",
+    confirmPassphrase: "确认口令",
+    currentPassphrase: "当前口令",
+    newPassphrase: "新口令",
+    enableEncryption: "启用加密",
+    changePassphrase: "更改口令",
+    disableEncryption: "关闭",
+    lockNow: "立即锁定",
+    unlock: "解锁",
+    unlockTitle: "你的日记已锁定",
+    unlockNote: "输入口令以解密你的日记和复发备注。",
+    wrongPassphrase: "口令错误。",
+    passphraseMismatch: "两次输入的口令不一致。",
+    passphraseTooShort: "至少使用 8 个字符。",
+    encryptedEntry: "已使用其他口令加密。",
+    appLock: "应用锁",
+    appLockNote: "在此设备上打开 Ascend 前需要输入 PIN 或口令。",
+    pinOrPassphrase: "PIN 或口令",
+    confirmPin: "确认 PIN 或口令",
+    pinTooShort: "至少使用 4 个字符。",
+    pinMismatch: "两次输入不一致。",
+    wrongPin: "PIN 或口令错误。",
+    enableAppLock: "启用应用锁",
+    removeAppLock: "移除锁",
+    autoLock: "自动锁定时间",
+    autoLockNever: "从不",
+    minutesShort: "分钟",
+    lockWhenHidden: "应用隐藏时锁定",
+    panicHideHint: "紧急隐藏：双击 Ascend 标题或按两次 Esc 切换到计算器。输入 PIN 并按 = 返回。",
+    appLockedTitle: "Ascend 已锁定",
+    appLockedNote: "输入 PIN 或口令以继续。",
+    account: "账户",
+    logoutAllDevices: "退出所有设备",
+    email: "电子邮箱",
+    password: "密码",
+    displayName: "名字（可选）",
+    loginAction: "登录",
+    registerAction: "创建账户",
+    switchToRegister: "新用户？创建账户",
+    switchToLogin: "已有账户？登录",
+    or: "或",
+    loadEarlierComments: "查看更早的评论",
+    loadingMore: "正在加载更多...",
+    uploadingImage: "正在上传...",
+    uploadFailed: "图片上传失败，请重试。",
+    edit: "编辑",
+    delete: "删除",
+    confirmDelete: "再次点击以删除",
+    save: "保存",
+    edited: "已编辑",
+    postDeleted: "此帖子已被删除。",
+    commentDeleted: "评论已删除",
+    anonymous: "匿名",
+    you: "你",
+    postAsHandle: "昵称",
+    postAnonymously: "匿名",
+    communityProfile: "社区资料",
+    communityProfileNote: "你的帖子和评论只显示此昵称和头像，绝不会显示你的真实姓名、照片或邮箱。",
+    newAvatar: "新头像",
+    newAvatarHint: "点击头像以生成新的头像。",
+    reactionSupport: "支持",
+    reactionRespect: "敬佩",
+    reactionSameHere: "我也是",
+    report: "举报",
+    reportNote: "告诉版主问题所在。作者不会知道是谁举报的。",
+    reportDetails: "详细说明（可选）",
+    sendReport: "提交举报",
+    reportThanks: "谢谢，版主会进行审核。",
+    reportFailed: "举报发送失败，请重试。",
+    reasonHarassment: "骚扰或欺凌",
+    reasonExplicit: "露骨内容",
+    reasonTriggering: "诱发性内容",
+    reasonSpam: "垃圾信息",
+    reasonOther: "其他",
+    commentHidden: "待审核，已隐藏",
+    hiddenPendingReview: "版主审核前，其他人看不到此内容。",
+    communityBanned: "你的账户已被暂停在社区发帖。你的记录不受影响。",
+    moderation: "审核",
+    modQueue: "待处理",
+    modLog: "审核日志",
+    modQueueEmpty: "暂无待审核内容。",
+    modPost: "帖子",
+    modComment: "评论",
+    modReports: "条举报",
+    modHidden: "已隐藏",
+    modBanned: "已封禁",
+    modNote: "审核日志备注（可选）",
+    modKeep: "保留",
+    modHide: "隐藏",
+    modBan: "封禁",
+    modUnban: "解封",
+    modAutomatic: "自动",
+    requestFailed: "出了点问题，请重试。",
+    filterBlockedTerm: "内容包含社区不允许的用语，请修改后再发。",
+    filterBlockedDomain: "社区不允许链接到此网站。",
+    filterExplicitImage: "此图片疑似含露骨内容，无法发布。",
+    reasonFilter: "自动过滤",
+    writeRateLimited: "你的发帖速度超出了社区限制。深呼吸一下，倒计时结束后即可再次发布。",
+    writeNewAccount: "欢迎！新账户需要稍等片刻才能发帖，先看看社区吧。",
+    writeDuplicate: "你最近已经发过相同的内容。",
+    writeTooLong: "内容太长。最多字符数：",
+    partners: "互助伙伴",
+    partnersNote: "邀请一两位你信任的人。你可以为每位伙伴选择是否让其看到你的连续天数、等级、徽章和复发日期。日记和备注永远不会被分享。",
+    partnerActivity: "伙伴动态",
+    partnerNoActivity: "暂无动态。",
+    partnerJoined: "已成为你的伙伴。",
+    partnerUnlocked: "解锁了",
+    partnerRelapsed: "复发于",
+    partnerReachOut: "现在一句温暖的话会很有帮助。",
+    partnerNotSharing: "未与你分享进度",
+    partnerRemove: "移除伙伴",
+    partnerLastRelapse: "上次复发",
+    partnerShareMine: "与这位伙伴分享我的进度",
+    partnerYourCode: "你的邀请码",
+    partnerCopyLink: "复制链接",
+    partnerCopied: "已复制",
+    partnerCodeExpires: "有效期至",
+    partnerInvite: "邀请伙伴",
+    partnerEnterCode: "伙伴的邀请码",
+    partnerJoin: "加入",
+    panicAlertPartners: "告诉你的伙伴你正在挣扎",
+    panicSendAlert: "我现在很难受",
+    panicAlertSent: "已通知你的伙伴。",
+    panicWaitingReplies: "他们的回复会显示在这里。继续深呼吸。",
+    replyHereForYou: "我在这里陪你。",
+    replyYouGotThis: "你能做到。",
+    replyBreathe: "深呼吸，这股冲动会过去的。",
+    replyCallMe: "需要的话给我打电话。",
+    replyProudOfYou: "为你主动求助感到骄傲。",
+    partnerPanicked: "按下了紧急按钮，现在正很难受。",
+    partnerReplied: "回复：",
+    panicPresses: "紧急求助次数",
+    last30Days: "近30天",
+    panicHeld: "求助后坚持住",
+    panicNoRelapse24h: "24小时内未复发",
+    commentedOnYourPost: "评论了你的帖子",
+    groupEveryone: "所有人",
+    groupFind: "查找或创建小组",
+    groupOpen: "公开",
+    groupInviteOnly: "仅限邀请",
+    groupOpenNote: "任何人都可以找到并加入。帖子仅对成员可见。",
+    groupInviteOnlyNote: "不会出现在小组列表中。成员需使用你或版主提供的邀请码加入。",
+    groupMembers: "名成员",
+    groupRoleOwner: "群主",
+    groupRoleMod: "版主",
+    groupRoleMember: "成员",
+    groupLeave: "退出小组",
+    groupConfirmLeave: "再次点击以退出",
+    groupInviteCode: "小组邀请码",
+    groupNewCode: "新邀请码（旧码将失效）",
+    groupRemoveMember: "移出小组",
+    groupMakeMod: "设为版主",
+    groupMakeMember: "取消版主",
+    groupMakeOwner: "转让群主",
+    groupConfirmOwner: "再次点击：你将成为版主",
+    groupDiscover: "公开小组",
+    groupNoneToDiscover: "暂时没有可加入的公开小组。",
+    groupJoin: "加入",
+    groupEnterCode: "小组邀请码",
+    groupCreate: "创建小组",
+    groupName: "小组名称",
+    groupDescription: "这个小组是关于什么的？（可选）",
+    groupHide: "在小组中隐藏",
+    groupConfirmHide: "再次点击以隐藏",
+    leaderboard: "排行榜",
+    leaderboardAllTime: "总榜",
+    leaderboardMonth: "本月",
+    leaderboardBest: "最佳",
+    leaderboardOptIn: "在排行榜上显示我",
+    leaderboardOptInNote: "仅以你的昵称公开连续天数和积分。连续天数从首次同步时起算，最多往前追溯48小时。",
+    leaderboardEmpty: "还没有人加入这个排行榜。",
+    reflection: "日记反思",
+    reflectionPrivacy: "只有你在下方勾选的条目会离开此设备。它们会发送到我们的服务器和 Google Gemini 仅用于本次分析，不会被保存。其余内容都保留在你的设备上。",
+    reflectionLogin: "登录后即可反思你的条目。",
+    reflectionNoEntries: "写下日记或复发记录后，即可在这里进行反思。",
+    reflectionChoose: "要包含的条目",
+    reflectionSend: "反思所选条目",
+    reflectionTriggers: "反复出现的诱因",
+    reflectionPatterns: "情绪模式",
+    reflectionRiskTimes: "高风险时段",
+    reflectionCoping: "应对策略",
+    reflectionNothingFound: "这些条目中没有明显的发现。",
+    reflectionDisclaimer: "AI 建议可能有误，并非医疗建议。",
+    aiQuotaExceeded: "今天的 AI 请求次数已用完，请明天再试。",
+    aiUnavailable: "此服务器不提供 AI 功能。",
+    panicAdvice: "建议",
+    panicTalkToCoach: "与教练聊聊",
+    chatGreeting: "我在这里。告诉我现在发生了什么，我们一起度过接下来的几分钟。",
+    chatPlaceholder: "你现在感觉如何？",
+    chatPrivacy: "每条消息会连同你的连续天数、等级和已知诱因发送到我们的服务器和 Google Gemini 以生成回复，不会被保存。除非你保存，对话只保留在此屏幕上。",
+    chatRefused: "这个我帮不了你。我们专注于度过这次冲动：站起来，离开房间，慢慢做十次深呼吸。",
+    chatYou: "我",
+    chatCoach: "教练",
+    chatSaveToJournal: "将对话保存到日记",
+    chatSaved: "已保存到日记",
+    chatCrisisTitle: "你不必独自面对",
+    chatCrisisBody: "如果你有伤害自己的想法，请现在就寻求帮助。如果处于紧急危险中，请拨打当地急救电话。",
+    chatHelplineDirectory: "查找你所在国家的求助热线",
+    panicExercises: "练习",
+    exerciseBoxBreathing: "方块呼吸",
+    exerciseBoxBreathingHint: "吸气4秒，屏息4秒，呼气4秒，屏息4秒。让心率平稳下来。",
+    exercise478: "4-7-8 呼吸",
+    exercise478Hint: "吸气4秒，屏息7秒，呼气8秒。长呼气能让神经系统平静。",
+    exerciseUrgeSurfing: "冲动冲浪",
+    exerciseUrgeSurfingHint: "观察冲动而不去行动，看着它升起、达到顶点、然后消退。",
+    exerciseColdShower: "冷水澡",
+    exerciseColdShowerHint: "站到冷水下，一直坚持到计时结束。",
+    exercisePushups: "俯卧撑",
+    exercisePushupsHint: "在计时结束前尽可能多做俯卧撑。休息一下，再继续。",
+    breatheIn: "吸气",
+    breatheHold: "屏息",
+    breatheOut: "呼气",
+    surfNotice: "留意这股冲动。不要对抗，也不要顺从，只是叫出它的名字。",
+    surfLocate: "你在身体的哪里感受到它？胸口、腹部、双手？",
+    surfBreathe: "慢慢把呼吸带到那个部位，让这种感觉存在。",
+    surfWatch: "像看海浪一样看着它。它在上升、停留还是回落？",
+    surfCrest: "冲动通常在几分钟内达到顶峰然后过去。你正在驾驭它。",
+    surfPass: "留意它发生了怎样的变化。你陪着它，却没有行动。",
+    intensityBefore: "现在冲动有多强烈？（1–10）",
+    intensityAfter: "那现在呢？（1–10）",
+    exerciseStart: "开始",
+    exerciseFinishEarly: "现在结束",
+    exerciseLog: "记录本次练习",
+    exerciseUrgeDefeated: "冲动被击败了，又赢了一次。",
+    exerciseKeepGoing: "还是很强烈？试试另一个练习，或者找人聊聊。",
+    exerciseAnother: "再做一个练习",
+    urgesDefeated: "战胜的冲动",
+    avgIntensityDrop: "平均下降",
+    beatAnUrge: "我有冲动，并且战胜了它",
+    urgesResisted: "抵御的冲动",
+    urgeLogged: "战胜了冲动！",
+    urgeDetailsOptional: "愿意的话可以补充细节，有助于发现规律。",
+    urgeIntensity: "有多强烈？（1–10）",
+    urgeTrigger: "诱因",
+    urgeContext: "情境",
+    urgeContextPlaceholder: "你在哪里，在做什么？",
+    urgeWhatWorked: "有效的方法",
+    urgeWhatWorkedPlaceholder: "散步、打电话、冷水……",
+    skip: "跳过",
+    saveDetails: "保存细节",
+    urgesVsRelapses: "抵御的冲动与复发",
+    triggerStress: "压力",
+    triggerBoredom: "无聊",
+    triggerLoneliness: "孤独",
+    triggerFatigue: "疲惫",
+    triggerSocialMedia: "社交媒体",
+    triggerLateNight: "深夜",
+    triggerOther: "其他",
+    foreignData: "此设备上的追踪数据属于另一个账户。在你做出选择之前，同步已暂停。",
+    foreignDataMerge: "添加到此账户",
+    foreignDataDiscard: "从设备中删除",
     ranks: {
       recruit: "新兵",
       novice: "新手",
@@ -320,6 +1408,278 @@ export const TRANSLATIONS = {
     saveEntry: "Guardar Entrada",
     howFeeling: "¿Cómo te sientes hoy? ¿Algún disparador?",
     noRelapses: "No hay recaídas registradas. ¡Sigue así!",
+    dataRecovered: "Algunos de tus datos guardados estaban dañados y se han reparado. Se conservó una copia de seguridad del original.",
+    dismiss: "Descartar",
+    settings: "Ajustes",
+    close: "Cerrar",
+    yourData: "Tus datos",
+    yourDataNote: "Exporta una copia de seguridad que controlas o restaura una de otro navegador.",
+    exportJson: "Exportar copia (JSON)",
+    exportRelapsesCsv: "Recaídas (CSV)",
+    exportJournalCsv: "Diario (CSV)",
+    importData: "Importar copia",
+    importInvalid: "Este archivo no es una copia de seguridad válida de Ascend.",
+    importPreview: "Vista previa de importación",
+    importHint: "Combinar conserva todo lo de este dispositivo y añade lo nuevo del archivo. Reemplazar sobrescribe este dispositivo con el archivo.",
+    relapses: "Recaídas",
+    streakStart: "Inicio de racha",
+    mergeData: "Combinar",
+    replaceData: "Reemplazar",
+    encryption: "Bloqueo con frase",
+    encryptionNote: "Cifra tu diario y tus notas de recaída en este dispositivo y en el servidor con una frase que solo tú conoces.",
+    encryptionWarning: "Si pierdes tu frase, tus entradas cifradas no se podrán recuperar. Nadie puede restablecerla por ti.",
+    encryptionOn: "Tu diario y tus notas de recaída están cifrados.",
+    passphrase: "Frase de acceso",
+    confirmPassphrase: "Confirmar frase",
+    currentPassphrase: "Frase actual",
+    newPassphrase: "Nueva frase",
+    enableEncryption: "Activar cifrado",
+    changePassphrase: "Cambiar frase",
+    disableEncryption: "Desactivar",
+    lockNow: "Bloquear ahora",
+    unlock: "Desbloquear",
+    unlockTitle: "Tu diario está bloqueado",
+    unlockNote: "Introduce tu frase para descifrar tu diario y tus notas de recaída.",
+    wrongPassphrase: "Frase incorrecta.",
+    passphraseMismatch: "Las frases no coinciden.",
+    passphraseTooShort: "Usa al menos 8 caracteres.",
+    encryptedEntry: "Cifrado con otra frase.",
+    appLock: "Bloqueo de la app",
+    appLockNote: "Exige un PIN o frase antes de que alguien pueda abrir Ascend en este dispositivo.",
+    pinOrPassphrase: "PIN o frase",
+    confirmPin: "Confirmar PIN o frase",
+    pinTooShort: "Usa al menos 4 caracteres.",
+    pinMismatch: "Las entradas no coinciden.",
+    wrongPin: "PIN o frase incorrectos.",
+    enableAppLock: "Activar bloqueo",
+    removeAppLock: "Quitar bloqueo",
+    autoLock: "Bloqueo automático tras",
+    autoLockNever: "Nunca",
+    minutesShort: "min",
+    lockWhenHidden: "Bloquear al ocultar la app",
+    panicHideHint: "Ocultación de pánico: toca dos veces el título de Ascend o pulsa Esc dos veces para cambiar a una calculadora. Escribe tu PIN y = para volver.",
+    appLockedTitle: "Ascend está bloqueado",
+    appLockedNote: "Introduce tu PIN o frase para continuar.",
+    account: "Cuenta",
+    logoutAllDevices: "Cerrar sesión en todos los dispositivos",
+    email: "Correo electrónico",
+    password: "Contraseña",
+    displayName: "Nombre (opcional)",
+    loginAction: "Iniciar sesión",
+    registerAction: "Crear cuenta",
+    switchToRegister: "¿Eres nuevo? Crea una cuenta",
+    switchToLogin: "¿Tienes cuenta? Inicia sesión",
+    or: "o",
+    loadEarlierComments: "Ver comentarios anteriores",
+    loadingMore: "Cargando más...",
+    uploadingImage: "Subiendo...",
+    uploadFailed: "No se pudo subir la imagen. Inténtalo de nuevo.",
+    edit: "Editar",
+    delete: "Eliminar",
+    confirmDelete: "Toca de nuevo para eliminar",
+    save: "Guardar",
+    edited: "editado",
+    postDeleted: "Esta publicación fue eliminada.",
+    commentDeleted: "Comentario eliminado",
+    anonymous: "Anónimo",
+    you: "tú",
+    postAsHandle: "Alias",
+    postAnonymously: "Anónimo",
+    communityProfile: "Perfil de la comunidad",
+    communityProfileNote: "Tus publicaciones y comentarios muestran este alias y avatar, nunca tu nombre real, foto ni correo.",
+    newAvatar: "Nuevo avatar",
+    newAvatarHint: "Toca el avatar para generar uno nuevo.",
+    reactionSupport: "Apoyo",
+    reactionRespect: "Respeto",
+    reactionSameHere: "Yo también",
+    report: "Reportar",
+    reportNote: "Cuéntales a los moderadores qué ocurre. El autor no sabrá quién lo reportó.",
+    reportDetails: "Detalles (opcional)",
+    sendReport: "Enviar reporte",
+    reportThanks: "Gracias. Un moderador lo revisará.",
+    reportFailed: "No se pudo enviar el reporte. Inténtalo de nuevo.",
+    reasonHarassment: "Acoso o intimidación",
+    reasonExplicit: "Contenido explícito",
+    reasonTriggering: "Contenido que provoca recaídas",
+    reasonSpam: "Spam",
+    reasonOther: "Otro motivo",
+    commentHidden: "Oculto en revisión",
+    hiddenPendingReview: "Oculto para los demás hasta que un moderador lo revise.",
+    communityBanned: "Tu cuenta fue suspendida de publicar en la comunidad. Tu seguimiento no se ve afectado.",
+    moderation: "Moderación",
+    modQueue: "Cola",
+    modLog: "Registro",
+    modQueueEmpty: "Nada que revisar.",
+    modPost: "Publicación",
+    modComment: "Comentario",
+    modReports: "reportes",
+    modHidden: "oculto",
+    modBanned: "suspendido",
+    modNote: "Nota para el registro (opcional)",
+    modKeep: "Mantener",
+    modHide: "Ocultar",
+    modBan: "Suspender",
+    modUnban: "Reactivar",
+    modAutomatic: "Automático",
+    requestFailed: "Algo salió mal. Inténtalo de nuevo.",
+    filterBlockedTerm: "Contiene lenguaje que no está permitido en la comunidad. Por favor, reformúlalo.",
+    filterBlockedDomain: "Los enlaces a este sitio no están permitidos en la comunidad.",
+    filterExplicitImage: "Esta imagen parece explícita y no se puede publicar.",
+    reasonFilter: "Filtro automático",
+    writeRateLimited: "Estás publicando más rápido de lo que la comunidad permite. Respira, podrás publicar de nuevo cuando termine el contador.",
+    writeNewAccount: "¡Bienvenido! Las cuentas nuevas pueden publicar tras una breve espera. Mientras tanto, echa un vistazo a la comunidad.",
+    writeDuplicate: "Ya publicaste esto hace poco.",
+    writeTooLong: "Es demasiado largo. Máximo de caracteres:",
+    partners: "Compañeros de responsabilidad",
+    partnersNote: "Invita a una o dos personas de confianza. Tú eliges para cada compañero si ve tu racha, rango, insignias y fechas de recaída. Tu diario y tus notas nunca se comparten.",
+    partnerActivity: "Actividad de compañeros",
+    partnerNoActivity: "Nada todavía.",
+    partnerJoined: "ahora es tu compañero.",
+    partnerUnlocked: "desbloqueó",
+    partnerRelapsed: "recayó el",
+    partnerReachOut: "Un mensaje amable podría ayudar ahora.",
+    partnerNotSharing: "No comparte su progreso contigo",
+    partnerRemove: "Quitar compañero",
+    partnerLastRelapse: "Última recaída",
+    partnerShareMine: "Compartir mi progreso con este compañero",
+    partnerYourCode: "Tu código de invitación",
+    partnerCopyLink: "Copiar enlace",
+    partnerCopied: "Copiado",
+    partnerCodeExpires: "Válido hasta",
+    partnerInvite: "Invitar a un compañero",
+    partnerEnterCode: "Código de tu compañero",
+    partnerJoin: "Unirse",
+    panicAlertPartners: "Avisa a tus compañeros de que lo estás pasando mal",
+    panicSendAlert: "Lo estoy pasando mal ahora",
+    panicAlertSent: "Tus compañeros han sido avisados.",
+    panicWaitingReplies: "Sus respuestas aparecerán aquí. Sigue respirando.",
+    replyHereForYou: "Estoy aquí contigo.",
+    replyYouGotThis: "Tú puedes.",
+    replyBreathe: "Respira. Este impulso pasará.",
+    replyCallMe: "Llámame si lo necesitas.",
+    replyProudOfYou: "Orgulloso de que hayas pedido ayuda.",
+    partnerPanicked: "pulsó el botón de pánico y lo está pasando mal ahora.",
+    partnerReplied: "respondió:",
+    panicPresses: "Usos de pánico",
+    last30Days: "en 30 días",
+    panicHeld: "Resistió tras pánico",
+    panicNoRelapse24h: "sin recaída en 24 h",
+    commentedOnYourPost: "comentó tu publicación",
+    groupEveryone: "Todos",
+    groupFind: "Buscar o crear un grupo",
+    groupOpen: "Abierto",
+    groupInviteOnly: "Solo con invitación",
+    groupOpenNote: "Cualquiera puede encontrar y unirse al grupo. Las publicaciones solo las ven los miembros.",
+    groupInviteOnlyNote: "No aparece en la lista de grupos. Se entra con un código de invitación tuyo o de un moderador.",
+    groupMembers: "miembros",
+    groupRoleOwner: "Propietario",
+    groupRoleMod: "Moderador",
+    groupRoleMember: "Miembro",
+    groupLeave: "Salir del grupo",
+    groupConfirmLeave: "Toca de nuevo para salir",
+    groupInviteCode: "Código de invitación del grupo",
+    groupNewCode: "Nuevo código (el anterior deja de funcionar)",
+    groupRemoveMember: "Quitar del grupo",
+    groupMakeMod: "Hacer moderador",
+    groupMakeMember: "Quitar rol de moderador",
+    groupMakeOwner: "Ceder la propiedad",
+    groupConfirmOwner: "Toca de nuevo: pasarás a ser moderador",
+    groupDiscover: "Grupos abiertos",
+    groupNoneToDiscover: "Aún no hay grupos abiertos a los que unirse.",
+    groupJoin: "Unirse",
+    groupEnterCode: "Código de invitación",
+    groupCreate: "Crear grupo",
+    groupName: "Nombre del grupo",
+    groupDescription: "¿De qué trata el grupo? (opcional)",
+    groupHide: "Ocultar en el grupo",
+    groupConfirmHide: "Toca de nuevo para ocultar",
+    leaderboard: "Clasificación",
+    leaderboardAllTime: "Histórico",
+    leaderboardMonth: "Este mes",
+    leaderboardBest: "Mejor",
+    leaderboardOptIn: "Mostrarme en la clasificación",
+    leaderboardOptInNote: "Publica solo tus rachas y puntos con tu alias. Las rachas cuentan desde que se sincronizaron por primera vez, hasta 48 horas antes.",
+    leaderboardEmpty: "Nadie se ha unido todavía a esta clasificación.",
+    reflection: "Reflexión del diario",
+    reflectionPrivacy: "Solo las entradas que marques abajo salen de este dispositivo. Se envían a nuestro servidor y a Google Gemini solo para este análisis y no se guardan. Todo lo demás se queda en tu dispositivo.",
+    reflectionLogin: "Inicia sesión para reflexionar sobre tus entradas.",
+    reflectionNoEntries: "Escribe entradas del diario o notas de recaída para reflexionar aquí.",
+    reflectionChoose: "Entradas a incluir",
+    reflectionSend: "Reflexionar sobre las seleccionadas",
+    reflectionTriggers: "Desencadenantes recurrentes",
+    reflectionPatterns: "Patrones emocionales",
+    reflectionRiskTimes: "Momentos de riesgo",
+    reflectionCoping: "Estrategias de afrontamiento",
+    reflectionNothingFound: "Nada claro en estas entradas.",
+    reflectionDisclaimer: "Las sugerencias de la IA pueden equivocarse y no son consejo médico.",
+    aiQuotaExceeded: "Has usado las solicitudes de IA de hoy. Inténtalo mañana.",
+    aiUnavailable: "Las funciones de IA no están disponibles en este servidor.",
+    panicAdvice: "Consejos",
+    panicTalkToCoach: "Hablar con el coach",
+    chatGreeting: "Estoy aquí. Cuéntame qué está pasando ahora y superaremos juntos los próximos minutos.",
+    chatPlaceholder: "¿Qué sientes?",
+    chatPrivacy: "Cada mensaje se envía con tu racha, rango y desencadenantes conocidos a nuestro servidor y a Google Gemini para responder, y no se guarda. La conversación se queda en esta pantalla salvo que la guardes.",
+    chatRefused: "No puedo ayudar con eso. Centrémonos en superar este impulso: levántate, sal de la habitación y respira despacio diez veces.",
+    chatYou: "Yo",
+    chatCoach: "Coach",
+    chatSaveToJournal: "Guardar conversación en el diario",
+    chatSaved: "Guardado en el diario",
+    chatCrisisTitle: "No tienes que enfrentarlo solo",
+    chatCrisisBody: "Si estás pensando en hacerte daño, busca ayuda ahora. Si estás en peligro inmediato, llama al número de emergencias local.",
+    chatHelplineDirectory: "Busca una línea de ayuda en tu país",
+    panicExercises: "Ejercicios",
+    exerciseBoxBreathing: "Respiración cuadrada",
+    exerciseBoxBreathingHint: "Inhala 4, retén 4, exhala 4, retén 4. Calma tu ritmo cardíaco.",
+    exercise478: "Respiración 4-7-8",
+    exercise478Hint: "Inhala 4, retén 7, exhala 8. La exhalación larga calma el sistema nervioso.",
+    exerciseUrgeSurfing: "Surfear el impulso",
+    exerciseUrgeSurfingHint: "Observa el impulso sin actuar y míralo subir, llegar al máximo y desvanecerse.",
+    exerciseColdShower: "Ducha fría",
+    exerciseColdShowerHint: "Métete bajo el agua fría y aguanta hasta que acabe el temporizador.",
+    exercisePushups: "Flexiones",
+    exercisePushupsHint: "Todas las flexiones que puedas antes de que acabe el tiempo. Descansa y sigue.",
+    breatheIn: "Inhala",
+    breatheHold: "Retén",
+    breatheOut: "Exhala",
+    surfNotice: "Nota el impulso. No luches ni lo alimentes; solo nómbralo.",
+    surfLocate: "¿Dónde lo sientes en el cuerpo? ¿Pecho, estómago, manos?",
+    surfBreathe: "Respira despacio hacia ese punto. Deja que la sensación esté ahí.",
+    surfWatch: "Obsérvalo como una ola. ¿Sube, se mantiene o baja?",
+    surfCrest: "Los impulsos alcanzan su pico y pasan, normalmente en minutos. Lo estás surfeando.",
+    surfPass: "Nota cómo ha cambiado. Te quedaste con él y no actuaste.",
+    intensityBefore: "¿Qué tan fuerte es el impulso ahora? (1–10)",
+    intensityAfter: "¿Y ahora? (1–10)",
+    exerciseStart: "Empezar",
+    exerciseFinishEarly: "Terminar ahora",
+    exerciseLog: "Registrar sesión",
+    exerciseUrgeDefeated: "Impulso vencido. Una victoria más.",
+    exerciseKeepGoing: "¿Sigue fuerte? Prueba otro ejercicio o habla con alguien.",
+    exerciseAnother: "Hacer otro ejercicio",
+    urgesDefeated: "Impulsos Vencidos",
+    avgIntensityDrop: "caída media",
+    beatAnUrge: "Tuve un impulso y lo vencí",
+    urgesResisted: "Impulsos resistidos",
+    urgeLogged: "¡Impulso vencido!",
+    urgeDetailsOptional: "Añade detalles si quieres; te ayudan a ver patrones.",
+    urgeIntensity: "¿Qué tan fuerte fue? (1–10)",
+    urgeTrigger: "Desencadenante",
+    urgeContext: "Contexto",
+    urgeContextPlaceholder: "¿Dónde estabas y qué hacías?",
+    urgeWhatWorked: "Qué funcionó",
+    urgeWhatWorkedPlaceholder: "Un paseo, una llamada, agua fría…",
+    skip: "Omitir",
+    saveDetails: "Guardar detalles",
+    urgesVsRelapses: "Impulsos Resistidos vs Recaídas",
+    triggerStress: "Estrés",
+    triggerBoredom: "Aburrimiento",
+    triggerLoneliness: "Soledad",
+    triggerFatigue: "Cansancio",
+    triggerSocialMedia: "Redes sociales",
+    triggerLateNight: "Noche",
+    triggerOther: "Otro",
+    foreignData: "Los datos del registro en este dispositivo pertenecen a otra cuenta. La sincronización está en pausa hasta que elijas qué hacer con ellos.",
+    foreignDataMerge: "Añadir a esta cuenta",
+    foreignDataDiscard: "Eliminar del dispositivo",
     ranks: {
       recruit: "Recluta",
       novice: "Novato",
@@ -386,6 +1746,278 @@ export const TRANSLATIONS = {
     saveEntry: "Сохранить запись",
     howFeeling: "Как вы себя чувствуете сегодня? Были триггеры?",
     noRelapses: "Срывов не зафиксировано. Так держать!",
+    dataRecovered: "Часть сохранённых данных была повреждена и восстановлена. Резервная копия оригинала сохранена.",
+    dismiss: "Закрыть",
+    settings: "Настройки",
+    close: "Закрыть",
+    yourData: "Ваши данные",
+    yourDataNote: "Экспортируйте резервную копию под вашим контролем или восстановите её из другого браузера.",
+    exportJson: "Экспорт копии (JSON)",
+    exportRelapsesCsv: "Срывы (CSV)",
+    exportJournalCsv: "Дневник (CSV)",
+    importData: "Импорт копии",
+    importInvalid: "Этот файл не является корректной резервной копией Ascend.",
+    importPreview: "Предпросмотр импорта",
+    importHint: "Объединение сохраняет всё на этом устройстве и добавляет новое из файла. Замена перезаписывает данные устройства содержимым файла.",
+    relapses: "Срывы",
+    streakStart: "Начало серии",
+    mergeData: "Объединить",
+    replaceData: "Заменить",
+    encryption: "Защита парольной фразой",
+    encryptionNote: "Шифруйте дневник и заметки о срывах на этом устройстве и на сервере парольной фразой, которую знаете только вы.",
+    encryptionWarning: "Если вы потеряете парольную фразу, зашифрованные записи восстановить будет невозможно. Никто не сможет её сбросить.",
+    encryptionOn: "Ваш дневник и заметки о срывах зашифрованы.",
+    passphrase: "Парольная фраза",
+    confirmPassphrase: "Подтвердите фразу",
+    currentPassphrase: "Текущая фраза",
+    newPassphrase: "Новая фраза",
+    enableEncryption: "Включить шифрование",
+    changePassphrase: "Сменить фразу",
+    disableEncryption: "Отключить",
+    lockNow: "Заблокировать",
+    unlock: "Разблокировать",
+    unlockTitle: "Ваш дневник заблокирован",
+    unlockNote: "Введите парольную фразу, чтобы расшифровать дневник и заметки о срывах.",
+    wrongPassphrase: "Неверная фраза.",
+    passphraseMismatch: "Фразы не совпадают.",
+    passphraseTooShort: "Используйте не менее 8 символов.",
+    encryptedEntry: "Зашифровано другой фразой.",
+    appLock: "Блокировка приложения",
+    appLockNote: "Требовать PIN или парольную фразу перед открытием Ascend на этом устройстве.",
+    pinOrPassphrase: "PIN или фраза",
+    confirmPin: "Подтвердите PIN или фразу",
+    pinTooShort: "Используйте не менее 4 символов.",
+    pinMismatch: "Значения не совпадают.",
+    wrongPin: "Неверный PIN или фраза.",
+    enableAppLock: "Включить блокировку",
+    removeAppLock: "Снять блокировку",
+    autoLock: "Автоблокировка через",
+    autoLockNever: "Никогда",
+    minutesShort: "мин",
+    lockWhenHidden: "Блокировать при сворачивании",
+    panicHideHint: "Экстренное скрытие: дважды коснитесь заголовка Ascend или дважды нажмите Esc, чтобы открыть калькулятор. Введите PIN и =, чтобы вернуться.",
+    appLockedTitle: "Ascend заблокирован",
+    appLockedNote: "Введите PIN или фразу, чтобы продолжить.",
+    account: "Аккаунт",
+    logoutAllDevices: "Выйти на всех устройствах",
+    email: "Эл. почта",
+    password: "Пароль",
+    displayName: "Имя (необязательно)",
+    loginAction: "Войти",
+    registerAction: "Создать аккаунт",
+    switchToRegister: "Впервые здесь? Создайте аккаунт",
+    switchToLogin: "Уже есть аккаунт? Войдите",
+    or: "или",
+    loadEarlierComments: "Показать предыдущие комментарии",
+    loadingMore: "Загрузка...",
+    uploadingImage: "Загрузка...",
+    uploadFailed: "Не удалось загрузить изображение. Попробуйте ещё раз.",
+    edit: "Изменить",
+    delete: "Удалить",
+    confirmDelete: "Нажмите ещё раз, чтобы удалить",
+    save: "Сохранить",
+    edited: "изменено",
+    postDeleted: "Эта запись удалена.",
+    commentDeleted: "Комментарий удалён",
+    anonymous: "Аноним",
+    you: "вы",
+    postAsHandle: "Псевдоним",
+    postAnonymously: "Анонимно",
+    communityProfile: "Профиль в сообществе",
+    communityProfileNote: "В записях и комментариях видны только этот псевдоним и аватар — никогда ваше настоящее имя, фото или почта.",
+    newAvatar: "Новый аватар",
+    newAvatarHint: "Нажмите на аватар, чтобы создать новый.",
+    reactionSupport: "Поддержка",
+    reactionRespect: "Уважение",
+    reactionSameHere: "У меня так же",
+    report: "Пожаловаться",
+    reportNote: "Сообщите модераторам, что не так. Автор не узнает, кто пожаловался.",
+    reportDetails: "Подробности (необязательно)",
+    sendReport: "Отправить",
+    reportThanks: "Спасибо. Модератор рассмотрит жалобу.",
+    reportFailed: "Не удалось отправить жалобу. Попробуйте ещё раз.",
+    reasonHarassment: "Оскорбления или травля",
+    reasonExplicit: "Откровенный контент",
+    reasonTriggering: "Провоцирующий контент",
+    reasonSpam: "Спам",
+    reasonOther: "Другое",
+    commentHidden: "Скрыто до проверки",
+    hiddenPendingReview: "Скрыто от других, пока модератор не проверит.",
+    communityBanned: "Ваш аккаунт отстранён от публикаций в сообществе. Трекер продолжает работать.",
+    moderation: "Модерация",
+    modQueue: "Очередь",
+    modLog: "Журнал",
+    modQueueEmpty: "Нечего проверять.",
+    modPost: "Запись",
+    modComment: "Комментарий",
+    modReports: "жалоб",
+    modHidden: "скрыто",
+    modBanned: "заблокирован",
+    modNote: "Заметка для журнала (необязательно)",
+    modKeep: "Оставить",
+    modHide: "Скрыть",
+    modBan: "Бан",
+    modUnban: "Разбан",
+    modAutomatic: "Автоматически",
+    requestFailed: "Что-то пошло не так. Попробуйте ещё раз.",
+    filterBlockedTerm: "Текст содержит выражения, запрещённые в сообществе. Пожалуйста, перефразируйте.",
+    filterBlockedDomain: "Ссылки на этот сайт в сообществе запрещены.",
+    filterExplicitImage: "Это изображение похоже на откровенное, его нельзя опубликовать.",
+    reasonFilter: "Автофильтр",
+    writeRateLimited: "Вы публикуете быстрее, чем позволяет сообщество. Переведите дух — снова публиковать можно, когда закончится таймер.",
+    writeNewAccount: "Добро пожаловать! Новые аккаунты могут публиковать после небольшого ожидания. А пока осмотритесь в сообществе.",
+    writeDuplicate: "Вы уже недавно публиковали это.",
+    writeTooLong: "Слишком длинно. Максимум символов:",
+    partners: "Партнёры по ответственности",
+    partnersNote: "Пригласите одного-двух людей, которым доверяете. Для каждого партнёра вы решаете, видит ли он вашу серию, ранг, значки и даты срывов. Дневник и заметки никогда не передаются.",
+    partnerActivity: "Активность партнёров",
+    partnerNoActivity: "Пока ничего.",
+    partnerJoined: "теперь ваш партнёр.",
+    partnerUnlocked: "получил значок",
+    partnerRelapsed: "сорвался",
+    partnerReachOut: "Доброе сообщение сейчас может помочь.",
+    partnerNotSharing: "Не делится с вами прогрессом",
+    partnerRemove: "Удалить партнёра",
+    partnerLastRelapse: "Последний срыв",
+    partnerShareMine: "Делиться моим прогрессом с этим партнёром",
+    partnerYourCode: "Ваш код приглашения",
+    partnerCopyLink: "Копировать ссылку",
+    partnerCopied: "Скопировано",
+    partnerCodeExpires: "Действует до",
+    partnerInvite: "Пригласить партнёра",
+    partnerEnterCode: "Код приглашения партнёра",
+    partnerJoin: "Принять",
+    panicAlertPartners: "Сообщите партнёрам, что вам тяжело",
+    panicSendAlert: "Мне сейчас тяжело",
+    panicAlertSent: "Партнёры получили сигнал.",
+    panicWaitingReplies: "Их ответы появятся здесь. Продолжайте дышать.",
+    replyHereForYou: "Я рядом.",
+    replyYouGotThis: "Ты справишься.",
+    replyBreathe: "Дыши. Это желание пройдёт.",
+    replyCallMe: "Позвони, если нужно.",
+    replyProudOfYou: "Горжусь, что ты обратился.",
+    partnerPanicked: "нажал тревожную кнопку, ему сейчас тяжело.",
+    partnerReplied: "ответил:",
+    panicPresses: "Тревожная кнопка",
+    last30Days: "за 30 дней",
+    panicHeld: "Устоял после тревоги",
+    panicNoRelapse24h: "без срыва за 24 ч",
+    commentedOnYourPost: "прокомментировал(а) ваш пост",
+    groupEveryone: "Все",
+    groupFind: "Найти или создать группу",
+    groupOpen: "Открытая",
+    groupInviteOnly: "По приглашению",
+    groupOpenNote: "Любой может найти группу и вступить. Посты видны только участникам.",
+    groupInviteOnlyNote: "Не видна в списке групп. Вступить можно по коду приглашения от вас или модератора.",
+    groupMembers: "участников",
+    groupRoleOwner: "Владелец",
+    groupRoleMod: "Модератор",
+    groupRoleMember: "Участник",
+    groupLeave: "Покинуть группу",
+    groupConfirmLeave: "Нажмите ещё раз, чтобы выйти",
+    groupInviteCode: "Код приглашения в группу",
+    groupNewCode: "Новый код (старый перестанет работать)",
+    groupRemoveMember: "Удалить из группы",
+    groupMakeMod: "Сделать модератором",
+    groupMakeMember: "Снять роль модератора",
+    groupMakeOwner: "Передать владение",
+    groupConfirmOwner: "Нажмите ещё раз: вы станете модератором",
+    groupDiscover: "Открытые группы",
+    groupNoneToDiscover: "Пока нет открытых групп.",
+    groupJoin: "Вступить",
+    groupEnterCode: "Код приглашения",
+    groupCreate: "Создать группу",
+    groupName: "Название группы",
+    groupDescription: "О чём эта группа? (необязательно)",
+    groupHide: "Скрыть в группе",
+    groupConfirmHide: "Нажмите ещё раз, чтобы скрыть",
+    leaderboard: "Таблица лидеров",
+    leaderboardAllTime: "За всё время",
+    leaderboardMonth: "Этот месяц",
+    leaderboardBest: "Лучшая",
+    leaderboardOptIn: "Показывать меня в таблице",
+    leaderboardOptInNote: "Публикует только ваши серии и очки под вашим ником. Серия считается с момента первой синхронизации, максимум на 48 часов раньше.",
+    leaderboardEmpty: "В этой таблице пока никого нет.",
+    reflection: "Разбор дневника",
+    reflectionPrivacy: "Устройство покидают только записи, отмеченные ниже. Они отправляются на наш сервер и в Google Gemini только для этого анализа и не сохраняются. Всё остальное остаётся на вашем устройстве.",
+    reflectionLogin: "Войдите, чтобы разобрать свои записи.",
+    reflectionNoEntries: "Пишите в дневник или оставляйте заметки о срывах, чтобы разобрать их здесь.",
+    reflectionChoose: "Записи для анализа",
+    reflectionSend: "Разобрать выбранные",
+    reflectionTriggers: "Повторяющиеся триггеры",
+    reflectionPatterns: "Эмоциональные паттерны",
+    reflectionRiskTimes: "Опасное время",
+    reflectionCoping: "Стратегии преодоления",
+    reflectionNothingFound: "В этих записях ничего явного.",
+    reflectionDisclaimer: "Подсказки ИИ могут ошибаться и не являются медицинской рекомендацией.",
+    aiQuotaExceeded: "Вы исчерпали запросы к ИИ на сегодня. Попробуйте завтра.",
+    aiUnavailable: "Функции ИИ недоступны на этом сервере.",
+    panicAdvice: "Советы",
+    panicTalkToCoach: "Поговорить с коучем",
+    chatGreeting: "Я рядом. Расскажи, что происходит сейчас, и мы вместе переживём ближайшие минуты.",
+    chatPlaceholder: "Что ты чувствуешь?",
+    chatPrivacy: "Каждое сообщение вместе с серией, рангом и известными триггерами отправляется на наш сервер и в Google Gemini для ответа и не сохраняется. Разговор остаётся только на этом экране, если вы его не сохраните.",
+    chatRefused: "С этим я не помогу. Давай сосредоточимся на том, чтобы пережить это желание: встань, выйди из комнаты и сделай десять медленных вдохов.",
+    chatYou: "Я",
+    chatCoach: "Коуч",
+    chatSaveToJournal: "Сохранить разговор в дневник",
+    chatSaved: "Сохранено в дневник",
+    chatCrisisTitle: "Вы не обязаны справляться с этим в одиночку",
+    chatCrisisBody: "Если вы думаете о том, чтобы причинить себе вред, обратитесь за помощью сейчас. Если вы в непосредственной опасности, звоните в местную экстренную службу.",
+    chatHelplineDirectory: "Найти телефон доверия в вашей стране",
+    panicExercises: "Упражнения",
+    exerciseBoxBreathing: "Квадратное дыхание",
+    exerciseBoxBreathingHint: "Вдох 4, задержка 4, выдох 4, задержка 4. Успокаивает сердцебиение.",
+    exercise478: "Дыхание 4-7-8",
+    exercise478Hint: "Вдох 4, задержка 7, выдох 8. Долгий выдох успокаивает нервную систему.",
+    exerciseUrgeSurfing: "Сёрфинг на желании",
+    exerciseUrgeSurfingHint: "Наблюдай за желанием, не поддаваясь ему, и смотри, как оно растёт, достигает пика и уходит.",
+    exerciseColdShower: "Холодный душ",
+    exerciseColdShowerHint: "Встань под холодную воду и стой, пока не закончится таймер.",
+    exercisePushups: "Отжимания",
+    exercisePushupsHint: "Как можно больше отжиманий до конца таймера. Отдохни и снова.",
+    breatheIn: "Вдох",
+    breatheHold: "Задержка",
+    breatheOut: "Выдох",
+    surfNotice: "Заметь желание. Не борись и не подпитывай его — просто назови.",
+    surfLocate: "Где ты чувствуешь его в теле? В груди, животе, руках?",
+    surfBreathe: "Медленно дыши в это место. Позволь ощущению быть.",
+    surfWatch: "Наблюдай за ним как за волной. Оно растёт, держится или спадает?",
+    surfCrest: "Желания достигают пика и проходят, обычно за минуты. Ты на гребне.",
+    surfPass: "Заметь, как оно изменилось. Ты остался с ним и не поддался.",
+    intensityBefore: "Насколько сильно желание сейчас? (1–10)",
+    intensityAfter: "А теперь? (1–10)",
+    exerciseStart: "Начать",
+    exerciseFinishEarly: "Закончить",
+    exerciseLog: "Записать сессию",
+    exerciseUrgeDefeated: "Желание побеждено. Ещё одна победа.",
+    exerciseKeepGoing: "Всё ещё сильно? Попробуй другое упражнение или поговори с кем-нибудь.",
+    exerciseAnother: "Ещё одно упражнение",
+    urgesDefeated: "Побеждённые желания",
+    avgIntensityDrop: "ср. снижение",
+    beatAnUrge: "Было желание, и я его победил",
+    urgesResisted: "Побеждённые желания",
+    urgeLogged: "Желание побеждено!",
+    urgeDetailsOptional: "Добавьте детали, если хотите: они помогают замечать закономерности.",
+    urgeIntensity: "Насколько сильным было? (1–10)",
+    urgeTrigger: "Триггер",
+    urgeContext: "Обстоятельства",
+    urgeContextPlaceholder: "Где ты был и что делал?",
+    urgeWhatWorked: "Что помогло",
+    urgeWhatWorkedPlaceholder: "Прогулка, звонок, холодная вода…",
+    skip: "Пропустить",
+    saveDetails: "Сохранить детали",
+    urgesVsRelapses: "Побеждённые желания и срывы",
+    triggerStress: "Стресс",
+    triggerBoredom: "Скука",
+    triggerLoneliness: "Одиночество",
+    triggerFatigue: "Усталость",
+    triggerSocialMedia: "Соцсети",
+    triggerLateNight: "Поздний вечер",
+    triggerOther: "Другое",
+    foreignData: "Данные трекера на этом устройстве принадлежат другому аккаунту. Синхронизация приостановлена, пока вы не решите, что с ними делать.",
+    foreignDataMerge: "Добавить в этот аккаунт",
+    foreignDataDiscard: "Удалить с устройства",
     ranks: {
       recruit: "Рекрут",
       novice: "Новичок",